@@ -1,6 +1,7 @@
 const { app, BrowserWindow } = require('electron');
 const path = require('path');
 const isDev = require('electron-is-dev');
+const { registerOpenAIHandlers } = require('./openai');
 
 // メインウィンドウの参照をグローバルに保持
 let mainWindow;
@@ -37,7 +38,10 @@ function createWindow() {
 }
 
 // Electronの初期化完了時にウィンドウを作成
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+  registerOpenAIHandlers();
+  createWindow();
+});
 
 // すべてのウィンドウが閉じられたときの処理
 app.on('window-all-closed', () => {
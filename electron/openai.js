@@ -0,0 +1,119 @@
+const { app, ipcMain, safeStorage } = require('electron');
+const fs = require('fs');
+const path = require('path');
+const OpenAI = require('openai');
+
+// APIキーの保存先（ユーザーデータフォルダ内、safeStorageで暗号化）
+const getConfigPath = () => path.join(app.getPath('userData'), 'openai-config.json');
+
+// OpenAIクライアント（APIキーの変更時に作り直す）
+let client = null;
+
+// ストリーミング中のリクエスト（リクエストID → AbortController）
+const activeStreams = new Map();
+
+// 保存済みのAPIキーを読み込み（未設定の場合は環境変数OPENAI_API_KEY）
+function loadApiKey() {
+  try {
+    const configPath = getConfigPath();
+    if (fs.existsSync(configPath)) {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      if (config.encryptedApiKey && safeStorage.isEncryptionAvailable()) {
+        return safeStorage.decryptString(Buffer.from(config.encryptedApiKey, 'base64'));
+      }
+    }
+  } catch (error) {
+    console.error('Error loading OpenAI API key:', error);
+  }
+  return process.env.OPENAI_API_KEY || null;
+}
+
+// APIキーを暗号化して保存
+function saveApiKey(apiKey) {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Encryption is not available on this system');
+  }
+
+  const encryptedApiKey = safeStorage.encryptString(apiKey).toString('base64');
+  fs.writeFileSync(getConfigPath(), JSON.stringify({ encryptedApiKey }), 'utf8');
+  client = null;
+}
+
+// 保存済みのAPIキーを削除
+function clearApiKey() {
+  const configPath = getConfigPath();
+  if (fs.existsSync(configPath)) {
+    fs.unlinkSync(configPath);
+  }
+  client = null;
+}
+
+function getClient() {
+  if (!client) {
+    const apiKey = loadApiKey();
+    if (!apiKey) {
+      throw new Error('OpenAI API key is not configured');
+    }
+    client = new OpenAI({ apiKey });
+  }
+  return client;
+}
+
+// レンダラーからのOpenAI呼び出しを受け付ける
+function registerOpenAIHandlers() {
+  // チャット補完（パラメータはOpenAIのAPIにそのまま渡す）
+  ipcMain.handle('openai:createChatCompletion', async (_event, params) => {
+    try {
+      return await getClient().chat.completions.create({ ...params, stream: false });
+    } catch (error) {
+      console.error('Error creating chat completion:', error);
+      throw error;
+    }
+  });
+
+  // ストリーミングのチャット補完（チャンクはopenai:chatCompletionChunkで送信）
+  ipcMain.handle('openai:streamChatCompletion', async (event, requestId, params) => {
+    const controller = new AbortController();
+    activeStreams.set(requestId, controller);
+
+    try {
+      const stream = await getClient().chat.completions.create(
+        { ...params, stream: true },
+        { signal: controller.signal }
+      );
+      for await (const chunk of stream) {
+        if (event.sender.isDestroyed()) break;
+        event.sender.send('openai:chatCompletionChunk', requestId, chunk);
+      }
+    } catch (error) {
+      // 中断された場合はエラーにしない（レンダラー側で判定する）
+      if (controller.signal.aborted) return;
+      console.error('Error streaming chat completion:', error);
+      throw error;
+    } finally {
+      activeStreams.delete(requestId);
+    }
+  });
+
+  ipcMain.handle('openai:cancelChatCompletion', (_event, requestId) => {
+    const controller = activeStreams.get(requestId);
+    if (controller) {
+      controller.abort();
+    }
+  });
+
+  ipcMain.handle('openai:hasApiKey', () => !!loadApiKey());
+
+  ipcMain.handle('openai:setApiKey', (_event, apiKey) => {
+    if (typeof apiKey !== 'string' || apiKey.trim() === '') {
+      throw new Error('API key must be a non-empty string');
+    }
+    saveApiKey(apiKey.trim());
+  });
+
+  ipcMain.handle('openai:clearApiKey', () => {
+    clearApiKey();
+  });
+}
+
+module.exports = { registerOpenAIHandlers };
@@ -2,5 +2,19 @@ const { contextBridge, ipcRenderer } = require('electron');
 
 // Electronの機能をウィンドウオブジェクトに安全に公開
 contextBridge.exposeInMainWorld('electronAPI', {
-  // 必要に応じてAPIを追加
-});
\ No newline at end of file
+  // OpenAI APIの呼び出し（APIキーはメインプロセスで管理）
+  openai: {
+    createChatCompletion: (params) => ipcRenderer.invoke('openai:createChatCompletion', params),
+    streamChatCompletion: (requestId, params) => ipcRenderer.invoke('openai:streamChatCompletion', requestId, params),
+    cancelChatCompletion: (requestId) => ipcRenderer.invoke('openai:cancelChatCompletion', requestId),
+    // チャンクの受信（戻り値の関数で購読を解除）
+    onChatCompletionChunk: (callback) => {
+      const listener = (_event, requestId, chunk) => callback(requestId, chunk);
+      ipcRenderer.on('openai:chatCompletionChunk', listener);
+      return () => ipcRenderer.removeListener('openai:chatCompletionChunk', listener);
+    },
+    hasApiKey: () => ipcRenderer.invoke('openai:hasApiKey'),
+    setApiKey: (apiKey) => ipcRenderer.invoke('openai:setApiKey', apiKey),
+    clearApiKey: () => ipcRenderer.invoke('openai:clearApiKey')
+  }
+});
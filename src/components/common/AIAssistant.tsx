@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   Box,
   Paper,
@@ -12,6 +12,12 @@ import {
   Zoom,
   Badge,
   Divider,
+  Button,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  InputAdornment,
   styled,
   alpha
 } from '@mui/material';
@@ -21,9 +27,18 @@ import {
   SmartToy as SmartToyIcon,
   Minimize as MinimizeIcon,
   Maximize as MaximizeIcon,
-  Message as MessageIcon
+  Message as MessageIcon,
+  Stop as StopIcon,
+  History as HistoryIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon
 } from '@mui/icons-material';
-import { generateChatResponse, ChatMessage } from '../../services/aiAssistantService';
+import dayjs from 'dayjs';
+import { generateChatResponse, ChatMessage, ChatStreamEvent, ToolCallTrace } from '../../services/aiAssistantService';
+import * as aiConversationService from '../../services/aiConversationService';
+import { AIConversationSearchResult } from '../../services/aiConversationService';
+import { AIConversation, AIConversationMessage } from '../../types/models';
 
 // スタイル付きコンポーネント
 const AssistantContainer = styled(Paper, {
@@ -94,6 +109,24 @@ const MessageBubble = styled(Box, {
   boxShadow: theme.shadows[1],
 }));
 
+const ChatBody = styled(Box)({
+  display: 'flex',
+  flexGrow: 1,
+  minHeight: 0,
+});
+
+const HistoryPanel = styled(Box, {
+  shouldForwardProp: (prop) => prop !== 'isFullScreen'
+})<{ isFullScreen: boolean }>(({ theme, isFullScreen }) => ({
+  width: isFullScreen ? 300 : '100%',
+  flexShrink: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  overflowY: 'auto',
+  borderRight: isFullScreen ? `1px solid ${theme.palette.divider}` : 'none',
+  backgroundColor: theme.palette.background.paper,
+}));
+
 const InputArea = styled(Box)(({ theme }) => ({
   display: 'flex',
   alignItems: 'center',
@@ -140,6 +173,11 @@ export interface AIAssistantProps {
    */
   userName?: string;
   
+  /**
+   * 会話履歴を保存するユーザーID（未指定の場合は保存しない）
+   */
+  userId?: string;
+  
   /**
    * カスタムスタイル
    */
@@ -149,8 +187,21 @@ export interface AIAssistantProps {
 interface MessageWithMetadata extends ChatMessage {
   id: string;
   pending?: boolean;
+  // 応答の生成中に呼び出したツール
+  trace?: ToolCallTrace[];
+  // 応答の生成中の進捗（例: シフト情報を取得中…）
+  statusLines?: string[];
+  // 停止ボタンで中断された応答
+  stopped?: boolean;
+  // 送信・受信日時（会話履歴の保存用）
+  createdAt?: Date;
+  // 要約済みのメッセージ（表示のみでAIには要約を渡す）
+  summarized?: boolean;
 }
 
+// 最初に表示するメッセージのID（会話履歴には保存しない）
+const WELCOME_MESSAGE_ID = 'welcome';
+
 /**
  * AIアシスタントコンポーネント
  */
@@ -161,26 +212,77 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
   maxMessages = 50,
   initiallyOpen = false,
   userName = 'あなた',
+  userId,
   sx = {},
 }) => {
+  const welcomeMessage: MessageWithMetadata = {
+    id: WELCOME_MESSAGE_ID,
+    role: 'assistant',
+    content: initialMessage,
+  };
+  
   // 状態
   const [isOpen, setIsOpen] = useState(initiallyOpen);
   const [isMinimized, setIsMinimized] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [inputValue, setInputValue] = useState('');
-  const [messages, setMessages] = useState<MessageWithMetadata[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: initialMessage,
-    },
-  ]);
+  const [messages, setMessages] = useState<MessageWithMetadata[]>([welcomeMessage]);
   const [isLoading, setIsLoading] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   
+  // 会話履歴
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationSummary, setConversationSummary] = useState<string | undefined>(undefined);
+  const [conversations, setConversations] = useState<AIConversation[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<AIConversationSearchResult[] | null>(null);
+  
   // ref
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // 閉じた（アンマウントされた）場合は生成中の応答を中断
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+  
+  // 会話一覧の読み込み
+  const loadConversations = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setConversations(await aiConversationService.getUserConversations(userId));
+    } catch (error) {
+      console.error('Error loading AI conversations:', error);
+    }
+  }, [userId]);
+  
+  useEffect(() => {
+    if (isOpen) {
+      loadConversations();
+    }
+  }, [isOpen, loadConversations]);
+  
+  // 過去の会話の検索（入力が止まってから実行）
+  useEffect(() => {
+    if (!userId || !searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    
+    const timer = setTimeout(async () => {
+      try {
+        setSearchResults(await aiConversationService.searchConversations(userId, searchQuery));
+      } catch (error) {
+        console.error('Error searching AI conversations:', error);
+      }
+    }, 300);
+    
+    return () => clearTimeout(timer);
+  }, [userId, searchQuery]);
   
   // 新しいメッセージが追加されたらスクロールを最下部に移動
   useEffect(() => {
@@ -222,6 +324,91 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
     setIsFullScreen(!isFullScreen);
   };
   
+  // 会話履歴の表示切り替え
+  const handleToggleHistory = () => {
+    setIsHistoryOpen(!isHistoryOpen);
+  };
+  
+  // 新しい会話を開始
+  const handleNewConversation = () => {
+    setMessages([welcomeMessage]);
+    setConversationId(null);
+    setConversationSummary(undefined);
+    setIsHistoryOpen(false);
+  };
+  
+  // 過去の会話を再開
+  const handleResumeConversation = (conversation: AIConversation) => {
+    setMessages([
+      welcomeMessage,
+      ...conversation.messages.map((message, index) => ({
+        id: `${conversation.id}-${index}`,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+      })),
+    ]);
+    setConversationId(conversation.id);
+    setConversationSummary(conversation.summary);
+    setIsHistoryOpen(false);
+  };
+  
+  // 過去の会話を削除
+  const handleDeleteConversation = async (conversation: AIConversation) => {
+    if (!window.confirm(`「${conversation.title}」を削除しますか？`)) return;
+    
+    try {
+      await aiConversationService.deleteConversation(conversation.id);
+      if (conversation.id === conversationId) {
+        handleNewConversation();
+      }
+      setSearchResults(prev => prev && prev.filter(result => result.conversation.id !== conversation.id));
+      await loadConversations();
+    } catch (error) {
+      console.error('Error deleting AI conversation:', error);
+    }
+  };
+  
+  // 会話を保存（保持数の上限を超えた古いやり取りは要約される）
+  const saveConversation = async (currentMessages: MessageWithMetadata[]) => {
+    if (!userId) return;
+    
+    const savedMessages = currentMessages.filter(msg =>
+      msg.id !== WELCOME_MESSAGE_ID &&
+      !msg.pending &&
+      !msg.summarized &&
+      msg.content &&
+      (msg.role === 'user' || msg.role === 'assistant')
+    );
+    
+    try {
+      const id = conversationId || await aiConversationService.createConversation(userId);
+      setConversationId(id);
+      
+      const saved = await aiConversationService.saveConversationMessages(
+        id,
+        savedMessages.map((msg): AIConversationMessage => ({
+          role: msg.role as AIConversationMessage['role'],
+          content: msg.content,
+          createdAt: msg.createdAt || new Date(),
+        })),
+        maxMessages
+      );
+      
+      // 要約されたメッセージは以降AIに渡さない
+      const summarizedIds = new Set(
+        savedMessages.slice(0, savedMessages.length - saved.messages.length).map(msg => msg.id)
+      );
+      if (summarizedIds.size > 0) {
+        setMessages(prev => prev.map(msg => summarizedIds.has(msg.id) ? { ...msg, summarized: true } : msg));
+      }
+      setConversationSummary(saved.summary);
+      await loadConversations();
+    } catch (error) {
+      console.error('Error saving AI conversation:', error);
+    }
+  };
+  
   // テキスト入力の処理
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(event.target.value);
@@ -236,30 +423,63 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
       id: `user-${Date.now()}`,
       role: 'user',
       content: inputValue,
+      createdAt: new Date(),
     };
     
-    // アシスタントの「考え中」メッセージを追加
+    // アシスタントの「考え中」メッセージを追加（ストリーミングで内容を更新）
     const pendingMessage: MessageWithMetadata = {
       id: `assistant-${Date.now()}`,
       role: 'assistant',
-      content: '...',
+      content: '',
       pending: true,
+      statusLines: [],
     };
     
     setMessages(prev => [...prev, userMessage, pendingMessage]);
     setInputValue('');
     setIsLoading(true);
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    // 生成中のメッセージを更新
+    const updatePendingMessage = (update: (message: MessageWithMetadata) => MessageWithMetadata) => {
+      setMessages(prev => prev.map(msg => msg.id === pendingMessage.id ? update(msg) : msg));
+    };
+    
+    const handleStreamEvent = (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case 'token':
+          updatePendingMessage(msg => ({ ...msg, content: msg.content + event.delta }));
+          break;
+        case 'toolStart':
+          // ツール呼び出し前の本文は最終的な応答に含まれないため消去
+          updatePendingMessage(msg => ({
+            ...msg,
+            content: '',
+            statusLines: [...(msg.statusLines || []), event.status],
+          }));
+          break;
+        default:
+          break;
+      }
+    };
+    
     try {
       // チャット履歴をAPIに渡せる形式に変換 (pendingメッセージを除く)
-      const chatHistory: ChatMessage[] = messages
-        .filter(msg => !msg.pending)
-        .map(({ role, content, name, function_call }) => ({
+      // 要約済みの古いやり取りは要約をsystemメッセージとして渡す
+      const chatHistory: ChatMessage[] = [
+        ...aiConversationService.toChatHistory({ summary: conversationSummary, messages: [] }),
+        ...messages
+        .filter(msg => !msg.pending && !msg.summarized && !(msg.stopped && !msg.content))
+        .map(({ role, content, name, tool_calls, tool_call_id }) => ({
           role,
           content,
           ...(name && { name }),
-          ...(function_call && { function_call }),
-        }));
+          ...(tool_calls && { tool_calls }),
+          ...(tool_call_id && { tool_call_id }),
+        })),
+      ];
       
       // ユーザーメッセージを追加
       chatHistory.push({
@@ -268,23 +488,33 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
       });
       
       // AIサービスを呼び出し
-      const { response, updatedMessages } = await generateChatResponse(
+      const { response, trace, aborted } = await generateChatResponse(
         chatHistory,
-        includeInternalData
+        includeInternalData,
+        {
+          onEvent: handleStreamEvent,
+          signal: abortController.signal,
+        }
       );
       
-      // 最新のメッセージを取得（AIの応答）
-      const latestMessage = updatedMessages[updatedMessages.length - 1];
+      const assistantMessage: MessageWithMetadata = {
+        id: `assistant-${Date.now()}`,
+        role: 'assistant',
+        content: response,
+        createdAt: new Date(),
+        ...(trace.length > 0 && { trace }),
+        ...(aborted && { stopped: true }),
+      };
       
       // メッセージを更新（pendingメッセージを実際の応答で置き換え）
       setMessages(prev => [
         ...prev.filter(msg => msg.id !== pendingMessage.id),
-        {
-          id: `assistant-${Date.now()}`,
-          ...latestMessage,
-        },
+        assistantMessage,
       ]);
       
+      // 会話履歴に保存
+      await saveConversation([...messages, userMessage, assistantMessage]);
+      
       // 最小化中の場合は未読カウントを増やす
       if (isMinimized) {
         setUnreadCount(prev => prev + 1);
@@ -301,10 +531,16 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
         },
       ]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
   
+  // 生成中の応答を停止
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   // Enterキーでメッセージを送信
   const handleKeyPress = (event: React.KeyboardEvent) => {
     if (event.key === 'Enter' && !event.shiftKey) {
@@ -354,6 +590,19 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
           </Typography>
         </Box>
         <Box>
+          {userId && (
+            <Tooltip title="会話履歴">
+              <IconButton 
+                size="small" 
+                color="inherit" 
+                onClick={handleToggleHistory}
+                disabled={isLoading}
+                sx={{ mr: 0.5 }}
+              >
+                <HistoryIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
           <Tooltip title={isMinimized ? "拡大" : "最小化"}>
             <IconButton 
               size="small" 
@@ -388,27 +637,135 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
       {/* メッセージエリア（最小化時は非表示） */}
       {!isMinimized && (
         <>
-          <ChatMessagesContainer>
-            {messages.map((message) => (
-              <MessageBubble 
-                key={message.id} 
-                isUser={message.role === 'user'}
-              >
-                <Typography variant="caption" color={message.role === 'user' ? 'primary.contrastText' : 'text.secondary'} sx={{ opacity: 0.8 }}>
-                  {message.role === 'user' ? userName : 'アシスタント'}
-                </Typography>
-                
-                <Typography variant="body2" sx={{ mt: 0.5 }}>
-                  {message.pending ? (
-                    <CircularProgress size={16} color="inherit" />
-                  ) : (
-                    message.content
+          <ChatBody>
+            {/* 会話履歴（全画面表示時は左側に表示） */}
+            {isHistoryOpen && (
+              <HistoryPanel isFullScreen={isFullScreen}>
+                <Box sx={{ p: 1 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder="過去の会話を検索"
+                    value={searchQuery}
+                    onChange={(event) => setSearchQuery(event.target.value)}
+                    InputProps={{
+                      startAdornment: (
+                        <InputAdornment position="start">
+                          <SearchIcon fontSize="small" />
+                        </InputAdornment>
+                      ),
+                    }}
+                  />
+                  <Button
+                    fullWidth
+                    size="small"
+                    startIcon={<AddIcon />}
+                    onClick={handleNewConversation}
+                    sx={{ mt: 1 }}
+                  >
+                    新しい会話
+                  </Button>
+                </Box>
+                <Divider />
+                <List dense disablePadding>
+                  {(searchResults
+                    ? searchResults
+                    : conversations.map(conversation => ({ conversation, matches: [] }))
+                  ).map(({ conversation, matches }) => (
+                    <ListItem
+                      key={conversation.id}
+                      disablePadding
+                      secondaryAction={
+                        <Tooltip title="削除">
+                          <IconButton edge="end" size="small" onClick={() => handleDeleteConversation(conversation)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      }
+                    >
+                      <ListItemButton
+                        selected={conversation.id === conversationId}
+                        onClick={() => handleResumeConversation(conversation)}
+                      >
+                        <ListItemText
+                          primary={conversation.title}
+                          secondary={matches.length > 0
+                            ? matches.slice(0, 2).map(match => match.snippet).join(' / ')
+                            : conversation.updatedAt && dayjs(conversation.updatedAt).format('YYYY/MM/DD HH:mm')}
+                          primaryTypographyProps={{ noWrap: true }}
+                        />
+                      </ListItemButton>
+                    </ListItem>
+                  ))}
+                  {(searchResults ? searchResults.length === 0 : conversations.length === 0) && (
+                    <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                      {searchResults ? '該当する会話はありません' : '保存された会話はありません'}
+                    </Typography>
                   )}
-                </Typography>
-              </MessageBubble>
-            ))}
-            <div ref={messagesEndRef} />
-          </ChatMessagesContainer>
+                </List>
+              </HistoryPanel>
+            )}
+          
+            {(!isHistoryOpen || isFullScreen) && (
+              <ChatMessagesContainer>
+                {conversationSummary && (
+                  <Typography variant="caption" color="text.secondary" align="center">
+                    以前のやり取りは要約して引き継いでいます
+                  </Typography>
+                )}
+                {messages.map((message) => (
+                  <MessageBubble 
+                    key={message.id} 
+                    isUser={message.role === 'user'}
+                  >
+                    <Typography variant="caption" color={message.role === 'user' ? 'primary.contrastText' : 'text.secondary'} sx={{ opacity: 0.8 }}>
+                      {message.role === 'user' ? userName : 'アシスタント'}
+                    </Typography>
+                
+                    {/* 生成中の進捗 */}
+                    {message.pending && message.statusLines && message.statusLines.map((status, index) => (
+                      <Typography key={index} variant="caption" component="div" color="text.secondary">
+                        {status}
+                      </Typography>
+                    ))}
+                
+                    <Typography variant="body2" sx={{ mt: 0.5, whiteSpace: 'pre-wrap' }}>
+                      {message.pending && !message.content ? (
+                        <CircularProgress size={16} color="inherit" />
+                      ) : (
+                        message.content
+                      )}
+                    </Typography>
+                
+                    {message.stopped && (
+                      <Typography variant="caption" component="div" color="text.secondary">
+                        応答を停止しました
+                      </Typography>
+                    )}
+
+                    {/* 参照したデータ（ツール呼び出し） */}
+                    {message.trace && message.trace.length > 0 && (
+                      <>
+                        <Divider sx={{ my: 1 }} />
+                        {message.trace.map((call) => (
+                          <Typography
+                            key={call.id}
+                            variant="caption"
+                            component="div"
+                            color={call.error ? 'error' : 'text.secondary'}
+                            title={JSON.stringify(call.arguments)}
+                          >
+                            {call.error ? `${call.label}の取得に失敗しました` : `${call.label}を参照しました`}
+                          </Typography>
+                        ))}
+                      </>
+                    )}
+                  </MessageBubble>
+                ))}
+                <div ref={messagesEndRef} />
+              </ChatMessagesContainer>
+            )}
+          </ChatBody>
           
           {/* 入力エリア */}
           <InputArea>
@@ -426,23 +783,36 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
               maxRows={3}
               sx={{ mr: 1 }}
             />
-            <IconButton 
-              color="primary" 
-              onClick={handleSendMessage}
-              disabled={!inputValue.trim() || isLoading}
-              sx={{
-                backgroundColor: (theme) => inputValue.trim() ? alpha(theme.palette.primary.main, 0.1) : 'transparent',
-                '&:hover': {
-                  backgroundColor: (theme) => inputValue.trim() ? alpha(theme.palette.primary.main, 0.2) : 'transparent',
-                }
-              }}
-            >
-              {isLoading ? (
-                <CircularProgress size={24} />
-              ) : (
+            {isLoading ? (
+              <Tooltip title="停止">
+                <IconButton 
+                  color="error" 
+                  onClick={handleStop}
+                  sx={{
+                    backgroundColor: (theme) => alpha(theme.palette.error.main, 0.1),
+                    '&:hover': {
+                      backgroundColor: (theme) => alpha(theme.palette.error.main, 0.2),
+                    }
+                  }}
+                >
+                  <StopIcon />
+                </IconButton>
+              </Tooltip>
+            ) : (
+              <IconButton 
+                color="primary" 
+                onClick={handleSendMessage}
+                disabled={!inputValue.trim()}
+                sx={{
+                  backgroundColor: (theme) => inputValue.trim() ? alpha(theme.palette.primary.main, 0.1) : 'transparent',
+                  '&:hover': {
+                    backgroundColor: (theme) => inputValue.trim() ? alpha(theme.palette.primary.main, 0.2) : 'transparent',
+                  }
+                }}
+              >
                 <SendIcon />
-              )}
-            </IconButton>
+              </IconButton>
+            )}
           </InputArea>
         </>
       )}
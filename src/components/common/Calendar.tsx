@@ -12,6 +12,7 @@ import {
   ChevronRight as ChevronRightIcon
 } from '@mui/icons-material';
 import dayjs from 'dayjs';
+import { getHolidayName } from '../../services/holidayService';
 
 // 日本語ロケールを追加
 import 'dayjs/locale/ja';
@@ -50,6 +51,12 @@ const WeekendCell = styled(CalendarCell)(({ theme }) => ({
   backgroundColor: 'rgba(255, 238, 238, 0.3)',
 }));
 
+// 祝日の日付セルスタイル
+const HolidayCell = styled(CalendarCell)(({ theme }) => ({
+  backgroundColor: 'rgba(255, 238, 238, 0.3)',
+  color: theme.palette.error.main,
+}));
+
 // 選択された日付セルのスタイル
 const SelectedCell = styled(CalendarCell)(({ theme }) => ({
   backgroundColor: theme.palette.primary.main,
@@ -85,7 +92,9 @@ export interface CalendarProps {
   /** カレンダー内に表示するカスタムコンテンツをレンダリングする関数 */
   renderContent?: (date: Date) => React.ReactNode;
   /** 特定の日付に対して特定のクラスを適用する関数 */
-  dateClassFunction?: (date: Date) => 'normal' | 'weekend' | 'disabled' | 'selected' | 'today';
+  dateClassFunction?: (date: Date) => 'normal' | 'weekend' | 'holiday' | 'disabled' | 'selected' | 'today';
+  /** 祝日名の取得関数（デフォルト: 日本の祝日、店舗の休業日等を加える場合に上書き） */
+  getHolidayName?: (date: Date) => string | null;
 }
 
 /**
@@ -100,6 +109,7 @@ const Calendar: React.FC<CalendarProps> = ({
   onMonthChange,
   renderContent,
   dateClassFunction,
+  getHolidayName: getHolidayNameForDate = getHolidayName,
 }) => {
   // 現在表示中の年と月の状態
   const [currentYear, setCurrentYear] = useState(initialYear);
@@ -240,6 +250,7 @@ const Calendar: React.FC<CalendarProps> = ({
           const isDateToday = isToday(currentDate);
           const isDateSelected_ = isDateSelected(currentDate);
           const isDateWeekend = isWeekend(currentDate);
+          const holidayName = getHolidayNameForDate(currentDate);
 
           let CellComponent = CalendarCell;
           
@@ -250,6 +261,9 @@ const Calendar: React.FC<CalendarProps> = ({
               case 'weekend':
                 CellComponent = WeekendCell;
                 break;
+              case 'holiday':
+                CellComponent = HolidayCell;
+                break;
               case 'selected':
                 CellComponent = SelectedCell;
                 break;
@@ -268,6 +282,8 @@ const Calendar: React.FC<CalendarProps> = ({
               CellComponent = SelectedCell;
             } else if (isDateToday) {
               CellComponent = TodayCell;
+            } else if (holidayName) {
+              CellComponent = HolidayCell;
             } else if (isDateWeekend) {
               CellComponent = WeekendCell;
             }
@@ -276,6 +292,7 @@ const Calendar: React.FC<CalendarProps> = ({
           weekRow.push(
             <CellComponent
               key={dayCount}
+              title={holidayName || undefined}
               onClick={() => handleDateClick(currentDate)}
             >
               {dayCount}
@@ -19,6 +19,7 @@ import DataTable, { Column } from '../components/common/DataTable';
 import Modal from '../components/common/Modal';
 import Card from '../components/common/Card';
 import AIAssistant from '../components/common/AIAssistant';
+import { useAuth } from '../contexts/AuthContext';
 // ...など
 
 interface TabPanelProps {
@@ -72,6 +73,7 @@ const GridItem = styled(Box)(({ theme }) => ({
 }));
 
 const ComponentTestPage: React.FC = () => {
+  const { currentUser } = useAuth();
   const [tabValue, setTabValue] = useState(0);
   const [selectedDates, setSelectedDates] = useState<Date[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<(string | number)[]>([]);
@@ -639,6 +641,7 @@ const ComponentTestPage: React.FC = () => {
           <AIAssistant 
             initiallyOpen={assistantOpen}
             userName="テストユーザー"
+            userId={currentUser?.id}
             title="岩井製菓 AIアシスタント"
             initialMessage="こんにちは！岩井製菓のAIアシスタントです。このテストページでは、AIアシスタントの機能を試すことができます。何かお手伝いできることはありますか？"
           />
@@ -653,6 +656,7 @@ const ComponentTestPage: React.FC = () => {
               <li>OpenAI APIを使用した高度な応答生成</li>
               <li>内部データとの連携（シフト情報、従業員情報など）</li>
               <li>未読メッセージカウント</li>
+              <li>会話履歴の保存・検索（古いやり取りは要約して引き継ぎ）</li>
             </ul>
           </Box>
           
@@ -0,0 +1,208 @@
+import { ChatStreamEvent, generateChatResponse, generateShifts } from './aiAssistantService';
+import { createScriptedLLMProvider, setLLMProvider } from './llmProviderService';
+import * as userService from './userService';
+import * as shiftSolverService from './shiftSolverService';
+import { solveShiftSchedule } from './shiftSolverService';
+import { createTestUser } from './testFixtures';
+
+jest.mock('./userService', () => ({
+  getAllUsers: jest.fn(),
+  getUserById: jest.fn()
+}));
+
+jest.mock('./shiftSolverService', () => ({
+  ...jest.requireActual('./shiftSolverService'),
+  collectShiftSolverInput: jest.fn()
+}));
+
+const employee = createTestUser();
+
+afterEach(() => {
+  setLLMProvider(null);
+  jest.clearAllMocks();
+});
+
+describe('generateChatResponse', () => {
+  test('runs the requested tool and answers with its result', async () => {
+    (userService.getAllUsers as jest.Mock).mockResolvedValue([employee]);
+
+    const provider = createScriptedLLMProvider([
+      { content: '', toolCalls: [{ id: 'call_a', name: 'getEmployeeInfo', arguments: '{}' }] },
+      request => {
+        const toolMessage = request.messages.find(message => message.role === 'tool');
+        const employees = JSON.parse(toolMessage?.content || '[]');
+        return { content: `従業員は${employees.length}名です`, toolCalls: [] };
+      }
+    ]);
+    setLLMProvider(provider);
+
+    const { response, updatedMessages } = await generateChatResponse([
+      { role: 'user', content: '従業員は何名ですか？' }
+    ]);
+
+    expect(response).toBe('従業員は1名です');
+    expect(provider.remaining()).toBe(0);
+    expect(updatedMessages[updatedMessages.length - 1]).toEqual({ role: 'assistant', content: '従業員は1名です' });
+
+    // 機密情報はLLMに渡さない
+    const toolMessage = provider.requests[1].messages.find(message => message.role === 'tool');
+    expect(toolMessage?.content).not.toContain(employee.email);
+  });
+
+  test('runs every tool call in a turn and answers each with its id', async () => {
+    (userService.getAllUsers as jest.Mock).mockResolvedValue([employee]);
+    (userService.getUserById as jest.Mock).mockResolvedValue(null);
+
+    const provider = createScriptedLLMProvider([
+      {
+        content: '',
+        toolCalls: [
+          { id: 'call_all', name: 'getEmployeeInfo', arguments: '{}' },
+          { id: 'call_one', name: 'getEmployeeInfo', arguments: '{"userId": "missing"}' },
+          { id: 'call_bad', name: 'getEmployeeInfo', arguments: '{' }
+        ]
+      },
+      { content: '確認しました', toolCalls: [] }
+    ]);
+    setLLMProvider(provider);
+
+    const { updatedMessages, trace } = await generateChatResponse([{ role: 'user', content: '従業員を教えて' }]);
+
+    const toolMessages = provider.requests[1].messages.filter(message => message.role === 'tool');
+    expect(toolMessages.map(message => message.toolCallId)).toEqual(['call_all', 'call_one', 'call_bad']);
+    expect(updatedMessages.filter(message => message.role === 'tool')).toHaveLength(3);
+
+    expect(trace.map(call => [call.round, call.id, call.label])).toEqual([
+      [1, 'call_all', '従業員情報'],
+      [1, 'call_one', '従業員情報'],
+      [1, 'call_bad', '従業員情報']
+    ]);
+    expect(trace[1].arguments).toEqual({ userId: 'missing' });
+    expect(trace[1].error).toBe('指定されたIDの従業員が見つかりません');
+    expect(trace[2].error).toContain('Invalid arguments');
+  });
+
+  test('stops offering tools after the maximum number of rounds', async () => {
+    (userService.getAllUsers as jest.Mock).mockResolvedValue([]);
+
+    const toolTurn = { content: '', toolCalls: [{ id: 'call_loop', name: 'getEmployeeInfo', arguments: '{}' }] };
+    const provider = createScriptedLLMProvider([toolTurn, toolTurn, { content: '回答します', toolCalls: [] }]);
+    setLLMProvider(provider);
+
+    const { response, trace } = await generateChatResponse(
+      [{ role: 'user', content: '繰り返し' }],
+      true,
+      { maxToolRounds: 2 }
+    );
+
+    expect(response).toBe('回答します');
+    expect(trace.map(call => call.round)).toEqual([1, 2]);
+    expect('tools' in provider.requests[2]).toBe(false);
+  });
+
+  test('streams tokens and reports tool progress', async () => {
+    (userService.getAllUsers as jest.Mock).mockResolvedValue([employee]);
+
+    setLLMProvider(createScriptedLLMProvider([
+      { content: '', toolCalls: [{ id: 'call_a', name: 'getEmployeeInfo', arguments: '{}' }] },
+      { content: '1名です', toolCalls: [] }
+    ]));
+
+    const events: ChatStreamEvent[] = [];
+    const { response, aborted } = await generateChatResponse(
+      [{ role: 'user', content: '従業員は何名ですか？' }],
+      true,
+      { onEvent: event => events.push(event) }
+    );
+
+    expect(response).toBe('1名です');
+    expect(aborted).toBeUndefined();
+    expect(events.map(event => event.type)).toEqual(['toolStart', 'toolEnd', 'token', 'token', 'token', 'token']);
+    expect(events[0]).toMatchObject({ type: 'toolStart', id: 'call_a', status: '従業員情報を取得中…' });
+    expect(events.filter(event => event.type === 'token').map(event => event.type === 'token' && event.delta).join(''))
+      .toBe('1名です');
+  });
+
+  test('returns the partial answer when stopped', async () => {
+    const controller = new AbortController();
+    setLLMProvider(createScriptedLLMProvider([{ content: 'こんにちは', toolCalls: [] }]));
+
+    let received = '';
+    const { response, updatedMessages, aborted } = await generateChatResponse(
+      [{ role: 'user', content: 'あいさつして' }],
+      true,
+      {
+        signal: controller.signal,
+        onEvent: event => {
+          if (event.type !== 'token') return;
+          received += event.delta;
+          if (received.length === 2) controller.abort();
+        }
+      }
+    );
+
+    expect(aborted).toBe(true);
+    expect(response).toBe('こん');
+    expect(updatedMessages[updatedMessages.length - 1]).toEqual({ role: 'assistant', content: 'こん' });
+  });
+
+  test('returns a fallback message when the provider fails', async () => {
+    setLLMProvider(createScriptedLLMProvider([]));
+
+    const messages = [{ role: 'user' as const, content: 'こんにちは' }];
+    const { response, updatedMessages } = await generateChatResponse(messages);
+
+    expect(response).toContain('エラーが発生しました');
+    expect(updatedMessages).toBe(messages);
+  });
+});
+
+describe('generateShifts', () => {
+  const period = { startDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 7) };
+
+  const emptyInput = {
+    period,
+    employees: [],
+    stores: [],
+    shiftPreferences: [],
+    events: [],
+    relationshipConstraints: []
+  };
+
+  beforeEach(() => {
+    (shiftSolverService.collectShiftSolverInput as jest.Mock).mockResolvedValue(emptyInput);
+  });
+
+  test('sends the solver draft in JSON mode and parses the refined shifts', async () => {
+    const provider = createScriptedLLMProvider([{ content: '{"shifts": []}', toolCalls: [] }]);
+    setLLMProvider(provider);
+
+    const shifts = await generateShifts(period.startDate, period.endDate, { refineWithAI: true });
+
+    expect(shifts).toEqual([]);
+    const inputData = JSON.parse(provider.requests[0].messages[1].content);
+    expect(inputData.period).toEqual({ startDate: '2025-04-01', endDate: '2025-04-07' });
+    expect(inputData.draftShifts).toEqual([]);
+  });
+
+  test('falls back to the solver draft when the response has no shifts array', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setLLMProvider(createScriptedLLMProvider([{ content: '{"result": "ok"}', toolCalls: [] }]));
+
+    const shifts = await generateShifts(period.startDate, period.endDate, { refineWithAI: true });
+
+    expect(shifts).toEqual(solveShiftSchedule(emptyInput).shifts);
+    expect(warn).toHaveBeenCalledWith('AI refinement failed; using solver result', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  test('falls back to the solver draft when the provider fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setLLMProvider(createScriptedLLMProvider([]));
+
+    await expect(generateShifts(period.startDate, period.endDate, { refineWithAI: true }))
+      .resolves.toEqual(solveShiftSchedule(emptyInput).shifts);
+    expect(warn).toHaveBeenCalledWith('AI refinement failed; using solver result', expect.any(Error));
+    warn.mockRestore();
+  });
+});
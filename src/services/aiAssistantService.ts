@@ -1,30 +1,76 @@
 // src/services/aiAssistantService.ts
-import OpenAI from 'openai';
 import { Shift, User, Store, ShiftPreference, Event } from '../types/models';
 import * as userService from './userService';
 import * as storeService from './storeService';
 import * as shiftService from './shiftService';
-import * as shiftPreferenceService from './shiftPreferenceService';
 import * as eventService from './eventService';
+import * as holidayService from './holidayService';
+import * as shiftSolverService from './shiftSolverService';
+import * as shiftValidationService from './shiftValidationService';
+import * as llmProviderService from './llmProviderService';
+import * as openaiService from './openaiService';
+import { ShiftSolverInput, ShiftSolverOptions } from './shiftSolverService';
+import { LLMMessage, LLMToolCall, LLMToolDefinition } from './llmProviderService';
 
-// OpenAI APIクライアントの初期化
-// 注: 環境変数REACT_APP_OPENAI_API_KEYが設定されている必要があります
-const openai = new OpenAI({
-  apiKey: process.env.REACT_APP_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // 開発環境用。本番環境ではサーバーサイドで処理するべき
-});
+// LLMはllmProviderService経由で呼び出す（OpenAI・ローカルエンドポイント・テスト用のモックを切り替え可能）
 
 // メッセージの型定義
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant' | 'function';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  // assistantが要求したツール呼び出し
+  tool_calls?: LLMToolCall[];
+  // toolメッセージが応答する呼び出しID
+  tool_call_id?: string;
+  // toolメッセージのツール名
   name?: string;
-  function_call?: {
-    name: string;
-    arguments: string;
-  };
 }
 
+// ツール呼び出しの記録（UIでの表示用）
+export interface ToolCallTrace {
+  /** 何回目のツール呼び出しラウンドか（1始まり） */
+  round: number;
+  id: string;
+  name: string;
+  /** 表示用のツール名 */
+  label: string;
+  /** 引数（JSONとして解釈できない場合は元の文字列） */
+  arguments: any;
+  /** 実行結果にエラーが含まれる場合のメッセージ */
+  error?: string;
+  durationMs: number;
+}
+
+// 応答生成中の進捗（ストリーミング表示用）
+export type ChatStreamEvent =
+  /** 応答本文の差分 */
+  | { type: 'token'; delta: string }
+  /** ツールの実行開始（statusは表示用の文言） */
+  | { type: 'toolStart'; id: string; name: string; label: string; status: string }
+  /** ツールの実行完了 */
+  | { type: 'toolEnd'; trace: ToolCallTrace };
+
+// チャット応答の生成オプション
+export interface ChatResponseOptions {
+  /** ツール呼び出しの最大ラウンド数（超えた場合はツールなしで回答させる） */
+  maxToolRounds?: number;
+  /** 指定した場合は応答をストリーミングで受信し、進捗ごとに呼び出す */
+  onEvent?: (event: ChatStreamEvent) => void;
+  /** 中断用のシグナル */
+  signal?: AbortSignal;
+}
+
+// チャット応答
+export interface ChatResponse {
+  response: string;
+  updatedMessages: ChatMessage[];
+  trace: ToolCallTrace[];
+  /** 中断された場合はtrue（responseはそれまでに受信した本文） */
+  aborted?: boolean;
+}
+
+const DEFAULT_MAX_TOOL_ROUNDS = 5;
+
 // アシスタントのシステムプロンプト
 const BASE_SYSTEM_PROMPT = `あなたは岩井製菓のシフト管理システム内のAIアシスタントです。
 社内の従業員や店舗情報、シフト情報にアクセスでき、質問に丁寧に答えることができます。
@@ -32,8 +78,36 @@ const BASE_SYSTEM_PROMPT = `あなたは岩井製菓のシフト管理システ
 クエリに最も関連する情報を要約して簡潔に答えてください。
 日本語で対応し、敬語を使用してください。`;
 
+// 会話履歴をLLMのメッセージ形式に変換
+const toLLMMessages = (messages: ChatMessage[]): LLMMessage[] => {
+  return messages.map(message => ({
+    role: message.role,
+    content: message.content,
+    ...(message.tool_calls && message.tool_calls.length > 0 && { toolCalls: message.tool_calls }),
+    ...(message.tool_call_id && { toolCallId: message.tool_call_id })
+  }));
+};
+
+// ツールの表示名（呼び出し状況の表示用）
+export const TOOL_LABELS: Record<string, string> = {
+  getEmployeeInfo: '従業員情報',
+  getStoreInfo: '店舗情報',
+  getShiftSchedule: 'シフト情報',
+  getEventInfo: 'イベント情報',
+  getSeasonalInfo: '季節情報',
+  webSearch: 'Web検索'
+};
+
+// ツール実行中の表示文言（例: シフト情報を取得中…）
+export const getToolStatusMessage = (name: string): string => {
+  if (name === 'webSearch') {
+    return 'Web検索中…';
+  }
+  return `${TOOL_LABELS[name] || name}を取得中…`;
+};
+
 // 利用可能な関数の定義
-const AVAILABLE_FUNCTIONS = {
+const AVAILABLE_FUNCTIONS: Record<string, LLMToolDefinition> = {
   getEmployeeInfo: {
     name: 'getEmployeeInfo',
     description: '特定の従業員または全従業員の情報を取得します',
@@ -133,12 +207,58 @@ const AVAILABLE_FUNCTIONS = {
   }
 };
 
+// ツール呼び出しの実行（引数の解析に失敗した場合はエラーを結果として返す）
+const runToolCall = async (
+  toolCall: LLMToolCall,
+  round: number
+): Promise<{ message: ChatMessage; trace: ToolCallTrace }> => {
+  const startedAt = Date.now();
+  let args: any = toolCall.arguments;
+  let result: any;
+
+  try {
+    args = JSON.parse(toolCall.arguments || '{}');
+    result = await executeFunctionCall(toolCall.name, args);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    result = { error: `Invalid arguments: ${errorMessage}` };
+  }
+
+  return {
+    message: {
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      name: toolCall.name,
+      content: JSON.stringify(result)
+    },
+    trace: {
+      round,
+      id: toolCall.id,
+      name: toolCall.name,
+      label: TOOL_LABELS[toolCall.name] || toolCall.name,
+      arguments: args,
+      ...(result && typeof result === 'object' && typeof result.error === 'string' && { error: result.error }),
+      durationMs: Date.now() - startedAt
+    }
+  };
+};
+
 // チャット応答を生成
+// 1回の応答で要求されたツールはすべて並列に実行し（いずれも読み取りのみで互いに依存しない）、
+// 最大ラウンド数に達した場合はツールなしで回答させる
 export const generateChatResponse = async (
   messages: ChatMessage[],
-  includeInternalData: boolean = true
-): Promise<{ response: string; updatedMessages: ChatMessage[] }> => {
+  includeInternalData: boolean = true,
+  options: ChatResponseOptions = {}
+): Promise<ChatResponse> => {
+  const { onEvent, signal } = options;
+  const trace: ToolCallTrace[] = [];
+  const updatedMessages: ChatMessage[] = [...messages];
+  let streamedContent = '';
+
   try {
+    const maxToolRounds = options.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+
     // システムプロンプトを含める
     const systemMessage: ChatMessage = {
       role: 'system',
@@ -148,79 +268,91 @@ export const generateChatResponse = async (
     // 関数情報を準備
     const functions = includeInternalData ? Object.values(AVAILABLE_FUNCTIONS) : [AVAILABLE_FUNCTIONS.webSearch];
     
-    // APIリクエストを準備
-    const apiMessages = [systemMessage, ...messages].map(msg => ({
-      role: msg.role,
-      content: msg.content,
-      ...(msg.name && { name: msg.name }),
-      ...(msg.function_call && { function_call: msg.function_call })
-    })) as OpenAI.Chat.ChatCompletionMessageParam[];
-    
-    // OpenAI APIを呼び出し
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o', // または最新のモデル
-      messages: apiMessages,
-      tools: functions.map(func => ({
-        type: 'function',
-        function: func
-      })),
-      tool_choice: 'auto'
-    });
-    
-    const responseMessage = completion.choices[0].message;
-    
-    // 関数呼び出しが行われた場合
-    if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-      const toolCall = responseMessage.tool_calls[0];
-      const functionName = toolCall.function.name;
-      const functionArgs = JSON.parse(toolCall.function.arguments);
-      
-      // 関数の実行結果を取得
-      const functionResult = await executeFunctionCall(functionName, functionArgs);
-      
-      // 関数の結果をメッセージに追加
-      const functionResultMessage: ChatMessage = {
-        role: 'function',
-        name: functionName,
-        content: JSON.stringify(functionResult)
-      };
-      
-      // 更新されたメッセージを作成
-      const updatedMessages: ChatMessage[] = [
-        ...messages,
+    // 本文の差分（中断時に返すため受信済みの本文を保持）
+    const onToken = onEvent
+      ? (delta: string) => {
+          streamedContent += delta;
+          onEvent({ type: 'token', delta });
+        }
+      : undefined;
+
+    for (let round = 1; ; round++) {
+      const canUseTools = round <= maxToolRounds;
+      streamedContent = '';
+
+      // LLMを呼び出し
+      const responseMessage = await llmProviderService.getLLMProvider().chat(
+        {
+          messages: toLLMMessages([systemMessage, ...updatedMessages]),
+          ...(canUseTools && { tools: functions })
+        },
+        { ...(onToken && { onToken }), signal }
+      );
+
+      // 通常のレスポンスの場合
+      if (!canUseTools || responseMessage.toolCalls.length === 0) {
+        updatedMessages.push({
+          role: 'assistant',
+          content: responseMessage.content || ''
+        });
+
+        return {
+          response: responseMessage.content || '',
+          updatedMessages,
+          trace
+        };
+      }
+
+      // ツール呼び出しを実行し、結果を呼び出しIDとともに追加
+      const results = await Promise.all(
+        responseMessage.toolCalls.map(async toolCall => {
+          const label = TOOL_LABELS[toolCall.name] || toolCall.name;
+          onEvent?.({
+            type: 'toolStart',
+            id: toolCall.id,
+            name: toolCall.name,
+            label,
+            status: getToolStatusMessage(toolCall.name)
+          });
+          const result = await runToolCall(toolCall, round);
+          onEvent?.({ type: 'toolEnd', trace: result.trace });
+          return result;
+        })
+      );
+
+      updatedMessages.push(
         {
           role: 'assistant',
           content: responseMessage.content || '',
-          ...(toolCall && { function_call: {
-            name: functionName,
-            arguments: toolCall.function.arguments
-          }})
-        } as ChatMessage,
-        ...(functionResultMessage ? [functionResultMessage as ChatMessage] : [])
-      ];
-      
-      // 関数結果をもとに再度応答を生成
-      return await generateChatResponse(updatedMessages, includeInternalData);
+          tool_calls: responseMessage.toolCalls
+        },
+        ...results.map(result => result.message)
+      );
+      trace.push(...results.map(result => result.trace));
+
+      // ツールの実行中に中断された場合
+      if (signal?.aborted) {
+        throw openaiService.createAbortError();
+      }
     }
-    
-    // 通常のレスポンスの場合
-    const updatedMessages = [
-      ...messages,
-      {
-        role: 'assistant',
-        content: responseMessage.content || ''
-      } as ChatMessage
-    ];
-    
-    return {
-      response: responseMessage.content || '',
-      updatedMessages
-    };
   } catch (error) {
+    // 中断された場合はそれまでに受信した本文を返す
+    if (openaiService.isAbortError(error) || signal?.aborted) {
+      return {
+        response: streamedContent,
+        updatedMessages: streamedContent
+          ? [...updatedMessages, { role: 'assistant', content: streamedContent }]
+          : updatedMessages,
+        trace,
+        aborted: true
+      };
+    }
+
     console.error('Error generating chat response:', error);
     return {
       response: 'すみません、応答の生成中にエラーが発生しました。後でもう一度お試しください。',
-      updatedMessages: messages
+      updatedMessages: messages,
+      trace
     };
   }
 };
@@ -349,11 +481,13 @@ const getShiftSchedule = async (
     
     // 結果の整形
     const formattedShifts = shifts.map(shift => ({
-      date: shift.date.toISOString().split('T')[0],
+      date: shiftService.formatDateKey(shift.date),
       userName: userMap.get(shift.userId) || 'Unknown',
       storeName: storeMap.get(shift.storeId) || 'Unknown',
       startTime: shift.startTime,
       endTime: shift.endTime,
+      endsNextDay: shiftService.getEndDayOffset(shift) > 0,
+      hours: Math.round(shiftService.getShiftDurationInMinutes(shift) / 6) / 10,
       status: shift.status
     }));
     
@@ -468,131 +602,56 @@ const performWebSearch = async (query: string): Promise<any> => {
 };
 
 // シフト自動生成
+// 制約ベースのソルバーで決定的にシフト案を作成し、refineWithAIが有効な場合のみAIで微調整する
 export const generateShifts = async (
   startDate: Date,
   endDate: Date,
-  options: {
-    prioritizeEmployeePreferences?: boolean;
-    distributeShiftsEvenly?: boolean;
-    considerSkillRequirements?: boolean;
+  options: ShiftSolverOptions & {
+    refineWithAI?: boolean;
   } = {}
 ): Promise<Shift[]> => {
   try {
+    const { refineWithAI, ...solverOptions } = options;
+
     // 1. 必要なデータの収集
-    // 対象期間の年月を取得
-    const year = startDate.getFullYear();
-    const month = startDate.getMonth() + 1;
-    
-    // 従業員情報の取得
-    const employees = await userService.getAllUsers();
-    
-    // 店舗情報の取得
-    const stores = await storeService.getAllStores();
-    
-    // シフト希望情報の取得
-    const shiftPreferences = await shiftPreferenceService.getAllShiftPreferencesForMonth(year, month);
-    
-    // イベント情報の取得
-    const events = await eventService.getEventsByDateRange(startDate, endDate);
-    
-    // 人間関係制約の取得（モック - 実際には別サービスから取得）
-    const relationshipConstraints: Array<{employee1Id: string; employee2Id: string; reason: string}> = []; // TODO: 実装
-    
-    // 2. AIへの入力データの準備
-    const inputData = {
-      period: {
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0]
-      },
-      employees: employees.map(emp => ({
-        id: emp.id,
-        name: emp.name,
-        skills: emp.skills,
-        desiredWorkDays: emp.desiredWorkDays
-      })),
-      stores: stores.map(store => ({
-        id: store.id,
-        name: store.name,
-        skillRequirements: store.skillRequirements
-      })),
-      shiftPreferences: shiftPreferences.map(pref => ({
-        userId: pref.userId,
-        desiredDaysPerWeek: pref.desiredDaysPerWeek,
-        preferredWeekdays: pref.preferredWeekdays,
-        unavailableDates: pref.unavailableDates.map(date => 
-          date.toISOString().split('T')[0]
-        )
-      })),
-      events: events.map(event => ({
-        name: event.name,
-        startDate: event.startDate.toISOString().split('T')[0],
-        endDate: event.endDate.toISOString().split('T')[0],
-        affectedStores: event.affectedStores,
-        customerPrediction: event.customerPrediction
-      })),
-      relationshipConstraints,
-      options
-    };
-    
-    // 3. OpenAI APIによるシフト生成
-    const shiftGenerationPrompt = `
-あなたは岩井製菓のシフト管理AIアシスタントです。以下のデータを元に最適なシフトを生成してください。
+    const solverInput = await shiftSolverService.collectShiftSolverInput(startDate, endDate);
 
-期間: ${inputData.period.startDate} から ${inputData.period.endDate}まで
+    // 2. ソルバーによるシフト案の生成
+    const solverResult = shiftSolverService.solveShiftSchedule(solverInput, solverOptions);
 
-以下の制約条件と優先順位を考慮してください:
+    if (!refineWithAI) {
+      return solverResult.shifts;
+    }
 
-1. 人間関係の制約（同時シフト不可の組み合わせ）を絶対に守ること
-2. 店舗ごとの必要スキル要件を満たすこと
-3. 従業員の希望勤務日数をできるだけ尊重すること
-4. 勤務の均等分配 (特定の従業員に負荷が偏らないようにする)
-5. 従業員の希望曜日をできるだけ尊重すること
-6. 従業員の勤務不可日を絶対に尊重すること
-
-優先設定:
-- 従業員希望優先: ${options.prioritizeEmployeePreferences ? '有効' : '標準'}
-- シフト均等配分: ${options.distributeShiftsEvenly ? '有効' : '標準'}
-- スキル要件考慮: ${options.considerSkillRequirements ? '有効' : '標準'}
-
-JSON形式でシフト案を出力してください。
-`;
+    // 3. AIによる微調整（失敗した場合はソルバーの案を採用）
+    let refinedShifts: Shift[];
+    try {
+      refinedShifts = await refineShiftsWithAI(solverInput, solverResult.shifts, solverOptions);
+    } catch (error) {
+      console.warn('AI refinement failed; using solver result', error);
+      return solverResult.shifts;
+    }
 
-    // OpenAI APIを呼び出し
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: shiftGenerationPrompt },
-        { role: 'user', content: JSON.stringify(inputData) }
-      ],
-      response_format: { type: 'json_object' }
-    });
-    
-    const responseContent = completion.choices[0].message.content || '{}';
-    
-    // 4. 応答のパースとShiftオブジェクトへの変換
-    const parsedResponse = JSON.parse(responseContent);
-    
-    if (!parsedResponse.shifts || !Array.isArray(parsedResponse.shifts)) {
-      throw new Error('Invalid response format from AI');
+    // ハード制約違反・不正なデータがある、またはスコアが下がった場合はソルバーの案を採用
+    const refinedResult = shiftSolverService.scoreShiftSchedule(solverInput, refinedShifts, solverOptions);
+    const invalidEntries = shiftValidationService
+      .validateShifts(refinedShifts, solverInput, solverOptions)
+      .filter(violation => violation.severity === 'error');
+    if (
+      invalidEntries.length > 0 ||
+      refinedResult.breakdown.hardViolations > 0 ||
+      refinedResult.score < solverResult.score
+    ) {
+      console.warn('AI refinement rejected; using solver result', {
+        solverScore: solverResult.score,
+        refinedScore: refinedResult.score,
+        hardViolations: refinedResult.breakdown.hardViolations,
+        invalidEntries: invalidEntries.length
+      });
+      return solverResult.shifts;
     }
-    
-    // 生成されたシフトをShiftオブジェクトに変換
-    const generatedShifts: Shift[] = parsedResponse.shifts.map((shiftData: any) => {
-      // 日付の解析
-      const shiftDate = new Date(shiftData.date);
-      
-      return {
-        id: '', // IDは保存時に生成される
-        userId: shiftData.userId,
-        storeId: shiftData.storeId,
-        date: shiftDate,
-        startTime: shiftData.startTime,
-        endTime: shiftData.endTime,
-        status: 'planned'
-      };
-    });
-    
-    return generatedShifts;
+
+    return refinedShifts;
   } catch (error: unknown) {
   console.error('Error generating shifts:', error);
   const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -600,6 +659,125 @@ JSON形式でシフト案を出力してください。
   }
 };
 
+// ソルバーのシフト案をAIで微調整
+const refineShiftsWithAI = async (
+  solverInput: ShiftSolverInput,
+  draftShifts: Shift[],
+  solverOptions: ShiftSolverOptions
+): Promise<Shift[]> => {
+  const formatDate = shiftService.formatDateKey;
+
+  // AIへの入力データの準備
+  const inputData = {
+    period: {
+      startDate: formatDate(solverInput.period.startDate),
+      endDate: formatDate(solverInput.period.endDate)
+    },
+    holidays: holidayService.getHolidaysInRange(solverInput.period.startDate, solverInput.period.endDate)
+      .map(holiday => ({ date: formatDate(holiday.date), name: holiday.name })),
+    employees: solverInput.employees.map(emp => ({
+      id: emp.id,
+      name: emp.name,
+      skills: emp.skills,
+      desiredWorkDays: emp.desiredWorkDays
+    })),
+    stores: solverInput.stores.map(store => ({
+      id: store.id,
+      name: store.name,
+      timeSlots: storeService.getStoreTimeSlots(store, solverOptions.shiftTime).map(slot => ({
+        id: slot.id,
+        name: slot.name,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        skillRequirements: slot.skillRequirements
+      })),
+      closedDates: (store.specialDays || [])
+        .filter(specialDay => specialDay.type === 'closed')
+        .map(specialDay => specialDay.date),
+      staffingRatio: storeService.getStaffingRatio(store)
+    })),
+    shiftPreferences: solverInput.shiftPreferences.map(pref => ({
+      userId: pref.userId,
+      year: pref.year,
+      month: pref.month,
+      desiredDaysPerWeek: pref.desiredDaysPerWeek,
+      preferredWeekdays: pref.preferredWeekdays,
+      unavailableDates: pref.unavailableDates.map(date => formatDate(date))
+    })),
+    events: solverInput.events.map(event => ({
+      name: event.name,
+      startDate: formatDate(event.startDate),
+      endDate: formatDate(event.endDate),
+      affectedStores: event.affectedStores,
+      customerPrediction: event.customerPrediction
+    })),
+    relationshipConstraints: solverInput.relationshipConstraints,
+    draftShifts: draftShifts.map(shift => ({
+      userId: shift.userId,
+      storeId: shift.storeId,
+      date: formatDate(shift.date),
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      timeSlotId: shift.timeSlotId
+    })),
+    options: solverOptions
+  };
+
+  const shiftRefinementPrompt = `
+あなたは岩井製菓のシフト管理AIアシスタントです。以下のデータと、制約ソルバーが作成したシフト案（draftShifts）を元に、シフト案を改善してください。
+
+期間: ${inputData.period.startDate} から ${inputData.period.endDate}まで
+
+以下の制約条件と優先順位を考慮してください:
+
+1. 人間関係の制約（同時シフト不可の組み合わせ）を絶対に守ること
+2. 従業員の勤務不可日を絶対に尊重すること
+3. 1人の従業員を同じ日に複数のシフトに割り当てないこと
+4. 店舗の時間帯（timeSlots）ごとの必要スキル要件を満たすこと（シフトの勤務時間は時間帯に合わせる、祝日（holidays）は祝日の要件を使用し、店舗の休業日（closedDates）にはシフトを入れない）
+   イベント期間中は予測来客数（customerPrediction）を店舗のstaffingRatio（追加1名あたりの来客数）で換算し、各時間帯の必要人数に加えること
+5. 従業員の希望勤務日数と希望曜日をできるだけ尊重すること
+6. 勤務の均等分配 (特定の従業員に負荷が偏らないようにする)
+
+改善の余地がない場合はdraftShiftsをそのまま返してください。
+
+JSON形式で {"shifts": [{"userId", "storeId", "date", "startTime", "endTime", "timeSlotId"}]} の形でシフト案を出力してください。
+`;
+
+  // LLMを呼び出し（JSONモード）
+  const responseContent = await llmProviderService.getLLMProvider().completeJSON({
+    messages: [
+      { role: 'system', content: shiftRefinementPrompt },
+      { role: 'user', content: JSON.stringify(inputData) }
+    ]
+  });
+
+  // 応答のパースとShiftオブジェクトへの変換
+  const parsedResponse = JSON.parse(responseContent);
+
+  if (!parsedResponse.shifts || !Array.isArray(parsedResponse.shifts)) {
+    throw new Error('Invalid response format from AI');
+  }
+
+  return parsedResponse.shifts.map((shiftData: any) => {
+    // 日付の解析（YYYY-MM-DDをローカル日付として扱う）
+    const [year, month, day] = String(shiftData.date).split('-').map(part => parseInt(part, 10));
+
+    return {
+      id: '', // IDは保存時に生成される
+      userId: shiftData.userId,
+      storeId: shiftData.storeId,
+      date: new Date(year, month - 1, day),
+      startTime: shiftData.startTime,
+      endTime: shiftData.endTime,
+      // 時間帯が設定された店舗のみ時間帯IDを記録
+      ...(shiftData.timeSlotId && shiftData.timeSlotId !== storeService.DEFAULT_TIME_SLOT_ID && {
+        timeSlotId: String(shiftData.timeSlotId)
+      }),
+      status: 'planned'
+    } as Shift;
+  });
+};
+
 export default {
   generateChatResponse,
   generateShifts
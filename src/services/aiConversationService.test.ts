@@ -0,0 +1,148 @@
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  applyRetention,
+  saveConversationMessages,
+  searchConversations
+} from './aiConversationService';
+import * as firestoreService from './firestoreService';
+import { createScriptedLLMProvider, setLLMProvider } from './llmProviderService';
+import { AIConversation, AIConversationMessage } from '../types/models';
+
+jest.mock('./firestoreService', () => ({
+  ...jest.requireActual('./firestoreService'),
+  getDocument: jest.fn(),
+  getCollection: jest.fn(),
+  updateDocument: jest.fn()
+}));
+
+const message = (role: AIConversationMessage['role'], content: string): AIConversationMessage => ({
+  role,
+  content,
+  createdAt: new Date(2025, 3, 8, 9)
+});
+
+// 質問と回答をn往復
+const exchanges = (count: number): AIConversationMessage[] =>
+  Array.from({ length: count }, (_, i) => [message('user', `質問${i + 1}`), message('assistant', `回答${i + 1}`)]).flat();
+
+const conversation = (id: string, overrides: Partial<AIConversation> = {}): AIConversation => ({
+  id,
+  userId: 'user1',
+  title: DEFAULT_CONVERSATION_TITLE,
+  messages: [],
+  summarizedMessageCount: 0,
+  createdAt: new Date(2025, 3, 8, 9),
+  updatedAt: new Date(2025, 3, 8, 9),
+  ...overrides
+});
+
+afterEach(() => {
+  setLLMProvider(null);
+  jest.clearAllMocks();
+});
+
+describe('applyRetention', () => {
+  test('keeps conversations within the limit as they are', async () => {
+    const current = { messages: exchanges(2), summarizedMessageCount: 0 };
+
+    expect(await applyRetention(current, 4)).toBe(current);
+    expect(await applyRetention({ messages: exchanges(10) }, 0)).toEqual({ messages: exchanges(10) });
+  });
+
+  test('summarizes the messages before the cutoff into the existing summary', async () => {
+    const provider = createScriptedLLMProvider([{ content: ' 質問1〜2の要約 ', toolCalls: [] }]);
+    setLLMProvider(provider);
+
+    const retained = await applyRetention(
+      { messages: exchanges(3), summary: '以前の要約', summarizedMessageCount: 2 },
+      4
+    );
+
+    expect(retained).toEqual({
+      messages: [message('user', '質問3'), message('assistant', '回答3')],
+      summary: '質問1〜2の要約',
+      summarizedMessageCount: 6
+    });
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain('既存の要約:\n以前の要約');
+    expect(prompt).toContain('ユーザー: 質問2\nアシスタント: 回答2');
+    expect(prompt).not.toContain('質問3');
+  });
+
+  test('moves the cutoff so the kept messages start with a question', async () => {
+    setLLMProvider(createScriptedLLMProvider([{ content: '要約', toolCalls: [] }]));
+    // 回答が2件続く会話（上限6件、保持3件の位置は回答）
+    const messages = [...exchanges(2), message('assistant', '補足'), ...exchanges(3).slice(4)];
+
+    const retained = await applyRetention({ messages }, 6);
+
+    expect(retained.messages.map(item => item.content)).toEqual(['質問3', '回答3']);
+    expect(retained.summarizedMessageCount).toBe(5);
+  });
+
+  test('keeps every message when summarizing fails', async () => {
+    setLLMProvider(createScriptedLLMProvider([]));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const current = { messages: exchanges(3) };
+
+    expect(await applyRetention(current, 4)).toBe(current);
+    (console.error as jest.Mock).mockRestore();
+  });
+});
+
+describe('saveConversationMessages', () => {
+  test('stores the summary and titles the conversation from the first question', async () => {
+    (firestoreService.getDocument as jest.Mock).mockResolvedValue(conversation('conversation1'));
+    setLLMProvider(createScriptedLLMProvider([{ content: '要約', toolCalls: [] }]));
+
+    await saveConversationMessages('conversation1', exchanges(3), 4);
+
+    expect(firestoreService.updateDocument).toHaveBeenCalledWith(expect.anything(), 'conversation1', {
+      title: '質問1',
+      messages: exchanges(3).slice(4),
+      summarizedMessageCount: 4,
+      summary: '要約'
+    });
+  });
+});
+
+describe('searchConversations', () => {
+  const longAnswer = `${'あ'.repeat(50)}宇治本店の4月のシフト${'い'.repeat(50)}`;
+
+  beforeEach(() => {
+    (firestoreService.getCollection as jest.Mock).mockResolvedValue([
+      conversation('conversation1', {
+        title: '4月のシフト',
+        messages: [message('user', 'シフトを作成して'), message('assistant', longAnswer)]
+      }),
+      conversation('conversation2', {
+        title: '給与',
+        messages: [message('user', '給与のCSVを出力して')],
+        summary: '宇治本店の残業時間について確認した'
+      })
+    ]);
+  });
+
+  test('returns conversations that contain every term with snippets', async () => {
+    const results = await searchConversations('user1', '宇治本店 シフト');
+
+    expect(results.map(result => result.conversation.id)).toEqual(['conversation1']);
+    expect(results[0].matches).toEqual([
+      { source: 'user', snippet: 'シフトを作成して' },
+      // 最初に一致した語の前後40文字
+      { source: 'assistant', snippet: `…${'あ'.repeat(40)}宇治本店の4月のシフト${'い'.repeat(33)}…` }
+    ]);
+  });
+
+  test('matches summaries and ignores full-width and case differences', async () => {
+    const results = await searchConversations('user1', 'ｃｓｖ 残業');
+
+    expect(results.map(result => result.conversation.id)).toEqual(['conversation2']);
+    expect(results[0].matches.map(match => match.source)).toEqual(['user', 'summary']);
+  });
+
+  test('does not search with an empty query', async () => {
+    expect(await searchConversations('user1', '  ')).toEqual([]);
+    expect(firestoreService.getCollection).not.toHaveBeenCalled();
+  });
+});
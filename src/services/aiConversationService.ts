@@ -0,0 +1,311 @@
+// src/services/aiConversationService.ts
+import { Timestamp } from 'firebase/firestore';
+import { AIConversation, AIConversationMessage } from '../types/models';
+import * as firestoreService from './firestoreService';
+import * as llmProviderService from './llmProviderService';
+import { ChatMessage } from './aiAssistantService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'aiConversations';
+
+// 新規会話のタイトル（最初の質問でタイトルを付けるまで）
+export const DEFAULT_CONVERSATION_TITLE = '新しい会話';
+
+// タイトルの最大文字数
+const MAX_TITLE_LENGTH = 30;
+
+// 検索結果の抜粋の前後の文字数
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+// 古いやり取りの要約に使用するプロンプト
+const SUMMARY_PROMPT = `あなたは岩井製菓のシフト管理システムのAIアシスタントです。
+以下はユーザーとアシスタントの過去のやり取りです。今後の会話で参照できるよう、
+質問の内容、回答に含まれる日付・店舗・従業員・数値などの事実、未解決の事項を残して簡潔に日本語で要約してください。
+既存の要約がある場合はその内容も統合してください。`;
+
+// 検索で一致したメッセージ
+export interface AIConversationMatch {
+  /** 一致した箇所（要約の場合はsummary） */
+  source: AIConversationMessage['role'] | 'summary';
+  /** 一致した箇所の前後の抜粋 */
+  snippet: string;
+}
+
+// 会話の検索結果
+export interface AIConversationSearchResult {
+  conversation: AIConversation;
+  matches: AIConversationMatch[];
+}
+
+// Timestamp型ならDate型に変換
+const toDate = (value: any): any => {
+  return value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+};
+
+// タイムスタンプ変換ユーティリティ
+const convertTimestamps = (conversation: AIConversation): AIConversation => ({
+  ...conversation,
+  messages: (conversation.messages || []).map(message => ({
+    ...message,
+    createdAt: toDate(message.createdAt)
+  })),
+  createdAt: toDate(conversation.createdAt),
+  updatedAt: toDate(conversation.updatedAt)
+});
+
+// 最初の質問から会話のタイトルを作成
+export const createConversationTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0].trim();
+  if (!firstLine) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH)}…`
+    : firstLine;
+};
+
+// 会話をチャット履歴に変換（要約がある場合は先頭にsystemメッセージとして追加）
+export const toChatHistory = (conversation: Pick<AIConversation, 'messages' | 'summary'>): ChatMessage[] => [
+  ...(conversation.summary
+    ? [{ role: 'system' as const, content: `これまでの会話の要約:\n${conversation.summary}` }]
+    : []),
+  ...conversation.messages.map(message => ({ role: message.role, content: message.content }))
+];
+
+// 古いやり取りを要約（既存の要約に統合）
+const summarizeMessages = async (
+  previousSummary: string | undefined,
+  messages: AIConversationMessage[]
+): Promise<string> => {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'ユーザー' : 'アシスタント'}: ${message.content}`)
+    .join('\n');
+
+  const result = await llmProviderService.getLLMProvider().chat({
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `${previousSummary ? `既存の要約:\n${previousSummary}\n\n` : ''}やり取り:\n${transcript}`
+      }
+    ]
+  });
+
+  return result.content.trim();
+};
+
+// 保持するメッセージ数の上限を超えた場合、古いやり取りを要約して上限の半分まで減らす
+// 保持するメッセージはユーザーの質問から始まるように区切る
+// 要約に失敗した場合はメッセージを削除せずにそのまま保持する
+export const applyRetention = async (
+  conversation: Pick<AIConversation, 'messages' | 'summary' | 'summarizedMessageCount'>,
+  maxMessages: number
+): Promise<Pick<AIConversation, 'messages' | 'summary' | 'summarizedMessageCount'>> => {
+  const { messages } = conversation;
+  if (maxMessages <= 0 || messages.length <= maxMessages) {
+    return conversation;
+  }
+
+  const keepCount = Math.max(2, Math.floor(maxMessages / 2));
+  let splitIndex = messages.length - keepCount;
+  while (splitIndex < messages.length && messages[splitIndex].role !== 'user') {
+    splitIndex++;
+  }
+  if (splitIndex >= messages.length) {
+    splitIndex = messages.length - keepCount;
+  }
+
+  const overflow = messages.slice(0, splitIndex);
+  if (overflow.length === 0) {
+    return conversation;
+  }
+
+  try {
+    const summary = await summarizeMessages(conversation.summary, overflow);
+    return {
+      messages: messages.slice(splitIndex),
+      summary,
+      summarizedMessageCount: (conversation.summarizedMessageCount || 0) + overflow.length
+    };
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+    return conversation;
+  }
+};
+
+// ユーザーの会話一覧（更新日時の新しい順）
+export const getUserConversations = async (userId: string): Promise<AIConversation[]> => {
+  try {
+    const conversations = await firestoreService.getCollection<AIConversation>(COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('userId', '==', userId)
+    ]);
+
+    return conversations
+      .map(conversation => convertTimestamps(conversation))
+      .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error fetching AI conversations:', error);
+    throw error;
+  }
+};
+
+// 会話取得
+export const getConversationById = async (conversationId: string): Promise<AIConversation | null> => {
+  try {
+    const conversation = await firestoreService.getDocument<AIConversation>(COLLECTION_NAME, conversationId);
+    return conversation ? convertTimestamps(conversation) : null;
+  } catch (error) {
+    console.error('Error fetching AI conversation:', error);
+    throw error;
+  }
+};
+
+// 会話の作成
+export const createConversation = async (
+  userId: string,
+  title: string = DEFAULT_CONVERSATION_TITLE
+): Promise<string> => {
+  try {
+    return await firestoreService.setDocument<any>(COLLECTION_NAME, {
+      userId,
+      title,
+      messages: [],
+      summarizedMessageCount: 0
+    });
+  } catch (error) {
+    console.error('Error creating AI conversation:', error);
+    throw error;
+  }
+};
+
+// 会話のメッセージを保存（上限を超えた古いやり取りは要約）
+// タイトルが未設定の場合は最初の質問からタイトルを付ける
+export const saveConversationMessages = async (
+  conversationId: string,
+  messages: AIConversationMessage[],
+  maxMessages: number
+): Promise<AIConversation> => {
+  try {
+    const conversation = await getConversationById(conversationId);
+    if (!conversation) {
+      throw new Error(`AI conversation with ID ${conversationId} not found`);
+    }
+
+    const retained = await applyRetention({ ...conversation, messages }, maxMessages);
+
+    const firstQuestion = messages.find(message => message.role === 'user');
+    const title = conversation.title === DEFAULT_CONVERSATION_TITLE && firstQuestion
+      ? createConversationTitle(firstQuestion.content)
+      : conversation.title;
+
+    const updates = {
+      title,
+      messages: retained.messages,
+      summarizedMessageCount: retained.summarizedMessageCount || 0,
+      ...(retained.summary && { summary: retained.summary })
+    };
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, conversationId, updates);
+
+    return { ...conversation, ...updates, updatedAt: new Date() };
+  } catch (error) {
+    console.error('Error saving AI conversation:', error);
+    throw error;
+  }
+};
+
+// 会話のタイトル変更
+export const renameConversation = async (conversationId: string, title: string): Promise<void> => {
+  try {
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, conversationId, {
+      title: title.trim() || DEFAULT_CONVERSATION_TITLE
+    });
+  } catch (error) {
+    console.error('Error renaming AI conversation:', error);
+    throw error;
+  }
+};
+
+// 会話の削除
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+  try {
+    await firestoreService.deleteDocument(COLLECTION_NAME, conversationId);
+  } catch (error) {
+    console.error('Error deleting AI conversation:', error);
+    throw error;
+  }
+};
+
+// 検索用に正規化（全角英数字・大文字小文字の違いを無視）
+const normalizeForSearch = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+// 一致した箇所の前後の抜粋
+const createSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT_LENGTH);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+// 会話の全文検索（タイトル・メッセージ・要約、空白区切りの語をすべて含むもの）
+// Firestoreは全文検索に対応していないため、ユーザーの会話を取得して絞り込む
+export const searchConversations = async (
+  userId: string,
+  query: string
+): Promise<AIConversationSearchResult[]> => {
+  try {
+    const terms = normalizeForSearch(query).split(/\s+/).filter(term => term.length > 0);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const conversations = await getUserConversations(userId);
+
+    return conversations.reduce<AIConversationSearchResult[]>((results, conversation) => {
+      const sources: Array<{ source: AIConversationMatch['source']; text: string }> = [
+        ...conversation.messages.map(message => ({ source: message.role, text: message.content })),
+        ...(conversation.summary ? [{ source: 'summary' as const, text: conversation.summary }] : [])
+      ];
+
+      // 会話全体ですべての語を含むか
+      const fullText = normalizeForSearch([conversation.title, ...sources.map(source => source.text)].join('\n'));
+      if (!terms.every(term => fullText.includes(term))) {
+        return results;
+      }
+
+      const matches = sources.reduce<AIConversationMatch[]>((found, source) => {
+        const normalizedText = normalizeForSearch(source.text);
+        const term = terms.find(candidate => normalizedText.includes(candidate));
+        if (term) {
+          // 正規化で文字数が変わる場合は位置がずれるため先頭から抜粋
+          const sameLength = normalizedText.length === source.text.length;
+          found.push({
+            source: source.source,
+            snippet: sameLength
+              ? createSnippet(source.text, normalizedText.indexOf(term), term.length)
+              : createSnippet(source.text, 0, 0)
+          });
+        }
+        return found;
+      }, []);
+
+      results.push({ conversation, matches });
+      return results;
+    }, []);
+  } catch (error) {
+    console.error('Error searching AI conversations:', error);
+    throw error;
+  }
+};
+
+export default {
+  createConversationTitle,
+  toChatHistory,
+  applyRetention,
+  getUserConversations,
+  getConversationById,
+  createConversation,
+  saveConversationMessages,
+  renameConversation,
+  deleteConversation,
+  searchConversations
+};
@@ -0,0 +1,359 @@
+// src/services/attendanceCorrectionService.ts
+import {
+  QueryConstraint,
+  Timestamp,
+  serverTimestamp
+} from 'firebase/firestore';
+import { Attendance, AttendanceCorrectionRequest } from '../types/models';
+import * as firestoreService from './firestoreService';
+import * as attendanceService from './attendanceService';
+import * as shiftService from './shiftService';
+import * as storeService from './storeService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'attendanceCorrections';
+const ATTENDANCE_COLLECTION_NAME: firestoreService.CollectionName = 'attendances';
+
+type BreakTime = { startTime: Date; endTime?: Date; };
+
+// 修正内容
+export interface AttendanceCorrectionProposal {
+  clockInTime?: Date;
+  clockOutTime?: Date;
+  breakTimes?: BreakTime[];
+}
+
+// Timestamp型ならDate型に変換
+const toDate = (value: any): any => {
+  return value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+};
+
+// 休憩時間の変換（Date → Timestamp、undefinedのendTimeは保存しない）
+const convertBreakTimesToTimestamps = (breakTimes: BreakTime[]): any[] => {
+  return breakTimes.map(breakTime => ({
+    startTime: firestoreService.convertDateToTimestamp(breakTime.startTime),
+    ...(breakTime.endTime && { endTime: firestoreService.convertDateToTimestamp(breakTime.endTime) })
+  }));
+};
+
+// 休憩時間の変換（Timestamp → Date）
+const convertBreakTimesToDates = (breakTimes: any[] | undefined): BreakTime[] | undefined => {
+  return breakTimes?.map(breakTime => ({
+    startTime: toDate(breakTime.startTime),
+    ...(breakTime.endTime && { endTime: toDate(breakTime.endTime) })
+  }));
+};
+
+// タイムスタンプ変換ユーティリティ
+const convertTimestamps = (request: AttendanceCorrectionRequest): AttendanceCorrectionRequest => {
+  const convertedRequest = { ...request };
+
+  convertedRequest.requestedAt = toDate(convertedRequest.requestedAt);
+  convertedRequest.reviewedAt = toDate(convertedRequest.reviewedAt);
+  convertedRequest.proposedClockInTime = toDate(convertedRequest.proposedClockInTime);
+  convertedRequest.proposedClockOutTime = toDate(convertedRequest.proposedClockOutTime);
+  convertedRequest.proposedBreakTimes = convertBreakTimesToDates(convertedRequest.proposedBreakTimes);
+
+  if (convertedRequest.originalValues) {
+    convertedRequest.originalValues = {
+      ...convertedRequest.originalValues,
+      date: toDate(convertedRequest.originalValues.date),
+      clockInTime: toDate(convertedRequest.originalValues.clockInTime),
+      clockOutTime: toDate(convertedRequest.originalValues.clockOutTime),
+      breakTimes: convertBreakTimesToDates(convertedRequest.originalValues.breakTimes) || []
+    };
+  }
+
+  return convertedRequest;
+};
+
+// 修正後の勤怠時刻の妥当性チェック
+const validateCorrectedTimes = (
+  clockInTime: Date,
+  clockOutTime: Date | undefined,
+  breakTimes: BreakTime[]
+): void => {
+  if (clockOutTime && clockOutTime.getTime() <= clockInTime.getTime()) {
+    throw new Error('Clock-out time must be after clock-in time');
+  }
+
+  breakTimes.forEach(breakTime => {
+    if (breakTime.startTime.getTime() < clockInTime.getTime()) {
+      throw new Error('Break cannot start before clock-in time');
+    }
+    if (breakTime.endTime && breakTime.endTime.getTime() <= breakTime.startTime.getTime()) {
+      throw new Error('Break end time must be after break start time');
+    }
+    if (clockOutTime && (breakTime.endTime || breakTime.startTime).getTime() > clockOutTime.getTime()) {
+      throw new Error('Break cannot end after clock-out time');
+    }
+  });
+};
+
+// 修正申請取得
+export const getCorrectionRequestById = async (requestId: string): Promise<AttendanceCorrectionRequest | null> => {
+  try {
+    const requestData = await firestoreService.getDocument<AttendanceCorrectionRequest>(COLLECTION_NAME, requestId);
+    return requestData ? convertTimestamps(requestData) : null;
+  } catch (error) {
+    console.error('Error fetching attendance correction request:', error);
+    throw error;
+  }
+};
+
+// 承認待ちの修正申請一覧（管理者用）
+export const getPendingCorrectionRequests = async (): Promise<AttendanceCorrectionRequest[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('status', '==', 'pending')
+    ];
+
+    const requests = await firestoreService.getCollection<AttendanceCorrectionRequest>(COLLECTION_NAME, constraints);
+
+    return requests
+      .map(request => convertTimestamps(request))
+      .sort((a, b) => (a.requestedAt?.getTime() || 0) - (b.requestedAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error fetching pending attendance correction requests:', error);
+    throw error;
+  }
+};
+
+// ユーザーの修正申請一覧
+export const getUserCorrectionRequests = async (userId: string): Promise<AttendanceCorrectionRequest[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('userId', '==', userId)
+    ];
+
+    const requests = await firestoreService.getCollection<AttendanceCorrectionRequest>(COLLECTION_NAME, constraints);
+
+    return requests
+      .map(request => convertTimestamps(request))
+      .sort((a, b) => (b.requestedAt?.getTime() || 0) - (a.requestedAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error fetching user attendance correction requests:', error);
+    throw error;
+  }
+};
+
+// 勤怠記録の修正履歴（承認済みの申請）
+export const getAttendanceCorrectionHistory = async (attendanceId: string): Promise<AttendanceCorrectionRequest[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('attendanceId', '==', attendanceId),
+      firestoreService.createWhereConstraint('status', '==', 'approved')
+    ];
+
+    const requests = await firestoreService.getCollection<AttendanceCorrectionRequest>(COLLECTION_NAME, constraints);
+
+    return requests
+      .map(request => convertTimestamps(request))
+      .sort((a, b) => (a.reviewedAt?.getTime() || 0) - (b.reviewedAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error fetching attendance correction history:', error);
+    throw error;
+  }
+};
+
+// 修正申請の作成（従業員用）
+export const createCorrectionRequest = async (
+  attendanceId: string,
+  requestedBy: string,
+  proposal: AttendanceCorrectionProposal,
+  reason: string
+): Promise<string> => {
+  try {
+    const attendance = await attendanceService.getAttendanceById(attendanceId);
+    if (!attendance) {
+      throw new Error(`Attendance with ID ${attendanceId} not found`);
+    }
+
+    if (!proposal.clockInTime && !proposal.clockOutTime && !proposal.breakTimes) {
+      throw new Error('Correction request must change at least one value');
+    }
+
+    if (!reason.trim()) {
+      throw new Error('Correction request requires a reason');
+    }
+
+    // 同じ勤怠記録に承認待ちの申請がある場合は受け付けない
+    const pendingRequests = await firestoreService.getCollection<AttendanceCorrectionRequest>(COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('attendanceId', '==', attendanceId),
+      firestoreService.createWhereConstraint('status', '==', 'pending')
+    ]);
+    if (pendingRequests.length > 0) {
+      throw new Error('A pending correction request already exists for this attendance');
+    }
+
+    validateCorrectedTimes(
+      proposal.clockInTime || attendance.clockInTime,
+      proposal.clockOutTime || attendance.clockOutTime,
+      proposal.breakTimes || attendance.breakTimes
+    );
+
+    const requestToSave = {
+      attendanceId,
+      userId: attendance.userId,
+      requestedBy,
+      reason,
+      status: 'pending',
+      requestedAt: serverTimestamp(),
+      ...(proposal.clockInTime && {
+        proposedClockInTime: firestoreService.convertDateToTimestamp(proposal.clockInTime)
+      }),
+      ...(proposal.clockOutTime && {
+        proposedClockOutTime: firestoreService.convertDateToTimestamp(proposal.clockOutTime)
+      }),
+      ...(proposal.breakTimes && {
+        proposedBreakTimes: convertBreakTimesToTimestamps(proposal.breakTimes)
+      })
+    };
+
+    return await firestoreService.setDocument<any>(COLLECTION_NAME, requestToSave as any);
+  } catch (error) {
+    console.error('Error creating attendance correction request:', error);
+    throw error;
+  }
+};
+
+// 修正申請の承認（勤怠記録を更新し、元の値を申請に記録）
+export const approveCorrectionRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string = ''
+): Promise<void> => {
+  try {
+    const request = await getCorrectionRequestById(requestId);
+    if (!request) {
+      throw new Error(`Attendance correction request with ID ${requestId} not found`);
+    }
+
+    const attendance = await attendanceService.getAttendanceById(request.attendanceId);
+    if (!attendance) {
+      throw new Error(`Attendance with ID ${request.attendanceId} not found`);
+    }
+
+    // 状態の再判定に使う予定シフトと店舗設定
+    const scheduledShift = attendance.shiftId
+      ? await shiftService.getShiftById(attendance.shiftId)
+      : null;
+    const settings = await storeService.getAttendanceSettings(attendance.storeId);
+
+    await firestoreService.runFirestoreTransaction(async transaction => {
+      const requestRef = firestoreService.getDocumentRef(COLLECTION_NAME, requestId);
+      const attendanceRef = firestoreService.getDocumentRef(ATTENDANCE_COLLECTION_NAME, request.attendanceId);
+
+      // トランザクション内で最新の状態を確認
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists() || requestSnap.data().status !== 'pending') {
+        throw new Error(`Attendance correction request ${requestId} is not pending`);
+      }
+
+      const attendanceSnap = await transaction.get(attendanceRef);
+      if (!attendanceSnap.exists()) {
+        throw new Error(`Attendance with ID ${request.attendanceId} not found`);
+      }
+
+      const current = attendanceSnap.data();
+      const currentDate: Date | undefined = toDate(current.date);
+      const currentClockInTime: Date = toDate(current.clockInTime);
+      const currentClockOutTime: Date | undefined = toDate(current.clockOutTime);
+      const currentBreakTimes: BreakTime[] = convertBreakTimesToDates(current.breakTimes) || [];
+
+      // 修正後の値
+      const clockInTime = request.proposedClockInTime || currentClockInTime;
+      const clockOutTime = request.proposedClockOutTime || currentClockOutTime;
+      const breakTimes = request.proposedBreakTimes || currentBreakTimes;
+      // 勤務日は出勤時刻の日付（出勤時刻の修正で日付が変わる場合も集計・給与計算が正しい日になるよう更新）
+      const date = new Date(clockInTime.getFullYear(), clockInTime.getMonth(), clockInTime.getDate());
+
+      validateCorrectedTimes(clockInTime, clockOutTime, breakTimes);
+
+      // 勤務時間と状態の再計算
+      const totalWorkHours = clockOutTime
+        ? attendanceService.calculateTotalWorkHours(clockInTime, clockOutTime, breakTimes)
+        : undefined;
+      const evaluation = attendanceService.evaluateAttendanceStatus(
+        scheduledShift,
+        settings,
+        clockInTime,
+        clockOutTime,
+        current.status as Attendance['status']
+      );
+
+      transaction.update(attendanceRef, {
+        date: firestoreService.convertDateToTimestamp(date),
+        clockInTime: firestoreService.convertDateToTimestamp(clockInTime),
+        ...(clockOutTime && { clockOutTime: firestoreService.convertDateToTimestamp(clockOutTime) }),
+        breakTimes: convertBreakTimesToTimestamps(breakTimes),
+        ...(totalWorkHours !== undefined && { totalWorkHours }),
+        status: evaluation.status,
+        ...(evaluation.clockInDeltaMinutes !== undefined && { clockInDeltaMinutes: evaluation.clockInDeltaMinutes }),
+        ...(evaluation.clockOutDeltaMinutes !== undefined && { clockOutDeltaMinutes: evaluation.clockOutDeltaMinutes }),
+        lastCorrectionId: requestId,
+        // 退勤時刻が登録された場合は退勤忘れを解除
+        ...(clockOutTime && { missingClockOut: false }),
+        updatedAt: serverTimestamp()
+      });
+
+      // 監査用に修正前の値を記録
+      transaction.update(requestRef, {
+        status: 'approved',
+        reviewedBy,
+        reviewedAt: serverTimestamp(),
+        reviewComment,
+        originalValues: {
+          ...(currentDate && { date: firestoreService.convertDateToTimestamp(currentDate) }),
+          clockInTime: firestoreService.convertDateToTimestamp(currentClockInTime),
+          ...(currentClockOutTime && { clockOutTime: firestoreService.convertDateToTimestamp(currentClockOutTime) }),
+          breakTimes: convertBreakTimesToTimestamps(currentBreakTimes),
+          ...(typeof current.totalWorkHours === 'number' && { totalWorkHours: current.totalWorkHours }),
+          status: current.status
+        },
+        updatedAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error('Error approving attendance correction request:', error);
+    throw error;
+  }
+};
+
+// 修正申請の却下
+export const rejectCorrectionRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string = ''
+): Promise<void> => {
+  try {
+    const request = await getCorrectionRequestById(requestId);
+    if (!request) {
+      throw new Error(`Attendance correction request with ID ${requestId} not found`);
+    }
+
+    if (request.status !== 'pending') {
+      throw new Error(`Attendance correction request ${requestId} is not pending`);
+    }
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, requestId, {
+      status: 'rejected',
+      reviewedBy,
+      reviewedAt: serverTimestamp(),
+      reviewComment
+    });
+  } catch (error) {
+    console.error('Error rejecting attendance correction request:', error);
+    throw error;
+  }
+};
+
+export default {
+  getCorrectionRequestById,
+  getPendingCorrectionRequests,
+  getUserCorrectionRequests,
+  getAttendanceCorrectionHistory,
+  createCorrectionRequest,
+  approveCorrectionRequest,
+  rejectCorrectionRequest
+};
@@ -0,0 +1,103 @@
+import { clockOut, evaluateAttendanceStatus, getOpenAttendance } from './attendanceService';
+import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
+import * as storeService from './storeService';
+import { Attendance, Shift } from '../types/models';
+
+jest.mock('./firestoreService', () => ({
+  ...jest.requireActual('./firestoreService'),
+  getDocument: jest.fn(),
+  getCollection: jest.fn(),
+  updateDocument: jest.fn()
+}));
+
+jest.mock('./shiftService', () => ({
+  ...jest.requireActual('./shiftService'),
+  getShiftById: jest.fn()
+}));
+
+jest.mock('./storeService', () => ({
+  ...jest.requireActual('./storeService'),
+  getAttendanceSettings: jest.fn()
+}));
+
+const settings = { lateGraceMinutes: 15, earlyLeaveGraceMinutes: 15 };
+
+const at = (day: number, hours: number, minutes: number = 0): Date => new Date(2025, 3, day, hours, minutes);
+
+// 2025-04-08 22:00〜翌02:00
+const overnightShift: Shift = {
+  id: 'shift1',
+  userId: 'user1',
+  storeId: 'store1',
+  date: new Date(2025, 3, 8),
+  startTime: '22:00',
+  endTime: '02:00',
+  status: 'planned'
+};
+
+const attendance = (id: string, clockInTime: Date, clockOutTime?: Date): Attendance => ({
+  id,
+  userId: 'user1',
+  storeId: 'store1',
+  date: new Date(clockInTime.getFullYear(), clockInTime.getMonth(), clockInTime.getDate()),
+  clockInTime,
+  ...(clockOutTime && { clockOutTime }),
+  breakTimes: [],
+  status: 'normal'
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('evaluateAttendanceStatus', () => {
+  test('compares the clock-out with the end of an overnight shift on the next day', () => {
+    expect(evaluateAttendanceStatus(overnightShift, settings, at(8, 22, 5), at(9, 2, 10))).toEqual({
+      status: 'normal',
+      clockInDeltaMinutes: 5,
+      clockOutDeltaMinutes: 10
+    });
+    expect(evaluateAttendanceStatus(overnightShift, settings, at(8, 22), at(9, 1))).toMatchObject({
+      status: 'early',
+      clockOutDeltaMinutes: -60
+    });
+  });
+
+  test('marks a late clock-in past the grace period', () => {
+    expect(evaluateAttendanceStatus(overnightShift, settings, at(8, 22, 20)).status).toBe('late');
+  });
+});
+
+describe('getOpenAttendance', () => {
+  test('returns the record opened the previous day', async () => {
+    (firestoreService.getCollection as jest.Mock).mockResolvedValue([
+      attendance('closed', at(8, 9), at(8, 17)),
+      attendance('open', at(8, 22))
+    ]);
+
+    const open = await getOpenAttendance('user1', at(9, 2));
+
+    expect(open?.id).toBe('open');
+  });
+
+  test('ignores records left open for more than 24 hours', async () => {
+    (firestoreService.getCollection as jest.Mock).mockResolvedValue([attendance('stale', at(7, 22))]);
+
+    expect(await getOpenAttendance('user1', at(9, 2))).toBeNull();
+  });
+});
+
+describe('clockOut', () => {
+  test('closes a record opened the previous day against the overnight shift', async () => {
+    (firestoreService.getDocument as jest.Mock).mockResolvedValue({ ...attendance('open', at(8, 22)), shiftId: 'shift1' });
+    (shiftService.getShiftById as jest.Mock).mockResolvedValue(overnightShift);
+    (storeService.getAttendanceSettings as jest.Mock).mockResolvedValue(settings);
+
+    await clockOut('open', at(9, 2));
+
+    const [, attendanceId, data] = (firestoreService.updateDocument as jest.Mock).mock.calls[0];
+    expect(attendanceId).toBe('open');
+    expect(data).toMatchObject({ totalWorkHours: 4, status: 'normal', clockOutDeltaMinutes: 0 });
+  });
+});
@@ -7,8 +7,13 @@ import {
   Timestamp,
   serverTimestamp
 } from 'firebase/firestore';
-import { Attendance } from '../types/models';
+import { Attendance, AttendanceSettings, Shift } from '../types/models';
 import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
+import * as storeService from './storeService';
+import * as userService from './userService';
+import * as laborComplianceService from './laborComplianceService';
+import { LaborComplianceFinding } from './laborComplianceService';
 
 // コレクション名を定数化
 const COLLECTION_NAME: firestoreService.CollectionName = 'attendances';
@@ -155,6 +160,123 @@ export const getStoreAttendancesForDate = async (
   }
 };
 
+// 予定シフトとの差（分）を計算（正の値は予定より後）
+const diffInMinutes = (actual: Date, scheduled: Date): number => {
+  return Math.round((actual.getTime() - scheduled.getTime()) / (60 * 1000));
+};
+
+// 予定シフトと打刻時刻から勤怠状態を判定
+// シフトがない場合はfallbackStatus（新規出勤時は予定外出勤）を返す
+export const evaluateAttendanceStatus = (
+  shift: Shift | null,
+  settings: AttendanceSettings,
+  clockInTime: Date,
+  clockOutTime?: Date,
+  fallbackStatus: Attendance['status'] = 'unscheduled'
+): {
+  status: Attendance['status'];
+  clockInDeltaMinutes?: number;
+  clockOutDeltaMinutes?: number;
+} => {
+  if (!shift) {
+    return { status: fallbackStatus };
+  }
+  
+  const clockInDeltaMinutes = diffInMinutes(clockInTime, shiftService.getShiftStartDateTime(shift));
+  const clockOutDeltaMinutes = clockOutTime
+    ? diffInMinutes(clockOutTime, shiftService.getShiftEndDateTime(shift))
+    : undefined;
+  
+  // 遅刻を早退より優先
+  let status: Attendance['status'] = 'normal';
+  if (clockInDeltaMinutes > settings.lateGraceMinutes) {
+    status = 'late';
+  } else if (clockOutDeltaMinutes !== undefined && -clockOutDeltaMinutes > settings.earlyLeaveGraceMinutes) {
+    status = 'early';
+  }
+  
+  return { status, clockInDeltaMinutes, clockOutDeltaMinutes };
+};
+
+// 打刻に対応する予定シフトを検索（同店舗のうち開始日時が最も近いもの）
+// 日付をまたぐシフトに対応するため前日・翌日のシフトも対象にする
+export const findScheduledShift = async (
+  userId: string,
+  storeId: string,
+  time: Date
+): Promise<Shift | null> => {
+  try {
+    const rangeStart = new Date(time.getFullYear(), time.getMonth(), time.getDate() - 1, 0, 0, 0);
+    const rangeEnd = new Date(time.getFullYear(), time.getMonth(), time.getDate() + 1, 23, 59, 59);
+    
+    // 勤務終了後の打刻は対象外
+    const shifts = (await shiftService.getUserShifts(userId, rangeStart, rangeEnd))
+      .filter(shift => shift.storeId === storeId)
+      .filter(shift => shiftService.getShiftEndDateTime(shift).getTime() > time.getTime());
+    
+    if (shifts.length === 0) {
+      return null;
+    }
+    
+    return shifts.reduce((closest, shift) => {
+      const distance = Math.abs(diffInMinutes(time, shiftService.getShiftStartDateTime(shift)));
+      const closestDistance = Math.abs(diffInMinutes(time, shiftService.getShiftStartDateTime(closest)));
+      return distance < closestDistance ? shift : closest;
+    });
+  } catch (error) {
+    console.error('Error finding scheduled shift:', error);
+    throw error;
+  }
+};
+
+// 退勤していない勤怠記録を取得（日付をまたぐ勤務に対応するため前日分も検索）
+export const getOpenAttendance = async (
+  userId: string,
+  time: Date = new Date()
+): Promise<Attendance | null> => {
+  try {
+    const startDate = new Date(time.getFullYear(), time.getMonth(), time.getDate() - 1, 0, 0, 0);
+    const endDate = new Date(time.getFullYear(), time.getMonth(), time.getDate() + 1, 23, 59, 59);
+    
+    const attendances = await getUserAttendancesForPeriod(userId, startDate, endDate);
+    // 退勤忘れの古い記録は対象外（出勤から24時間以内のもののみ）
+    const openAttendances = attendances.filter(attendance =>
+      !attendance.clockOutTime &&
+      attendance.clockInTime.getTime() <= time.getTime() &&
+      time.getTime() - attendance.clockInTime.getTime() < 24 * 60 * 60 * 1000
+    );
+    
+    // 最も新しい出勤記録を返す
+    return openAttendances.length > 0
+      ? openAttendances.reduce((latest, attendance) =>
+          attendance.clockInTime.getTime() > latest.clockInTime.getTime() ? attendance : latest
+        )
+      : null;
+  } catch (error) {
+    console.error('Error fetching open attendance:', error);
+    throw error;
+  }
+};
+
+// 退勤忘れの勤怠記録（修正申請が必要なもの）
+export const getAttendancesMissingClockOut = async (userId?: string): Promise<Attendance[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('missingClockOut', '==', true),
+      ...(userId ? [firestoreService.createWhereConstraint('userId', '==', userId)] : [])
+    ];
+    
+    const attendances = await firestoreService.getCollection<Attendance>(COLLECTION_NAME, constraints);
+    
+    return attendances
+      .map(attendance => convertTimestamps(attendance))
+      .sort((a, b) => a.clockInTime.getTime() - b.clockInTime.getTime());
+  } catch (error) {
+    console.error('Error fetching attendances missing clock-out:', error);
+    throw error;
+  }
+};
+
 // 出勤処理
 export const clockIn = async (
   userId: string, 
@@ -162,8 +284,31 @@ export const clockIn = async (
   clockInTime: Date = new Date()
 ): Promise<string> => {
   try {
-    // 日付のみの部分を抽出（時間なし）
-    const today = new Date(clockInTime.getFullYear(), clockInTime.getMonth(), clockInTime.getDate());
+    // 退勤していない勤務が残っている場合
+    // 照合したシフトの勤務中（日付をまたぐ勤務を含む）は出勤できない
+    // シフトが終了している、または予定外の勤務の場合は退勤忘れとして修正対象に記録し、出勤を受け付ける
+    const openAttendance = await getOpenAttendance(userId, clockInTime);
+    if (openAttendance) {
+      const openShift = openAttendance.shiftId
+        ? await shiftService.getShiftById(openAttendance.shiftId)
+        : null;
+      if (openShift && shiftService.getShiftEndDateTime(openShift).getTime() > clockInTime.getTime()) {
+        throw new Error('User has not clocked out of the current shift');
+      }
+      
+      await firestoreService.updateDocument<any>(COLLECTION_NAME, openAttendance.id, {
+        missingClockOut: true
+      });
+    }
+    
+    // 予定シフトとの照合（シフトがない場合は予定外の出勤として記録）
+    const scheduledShift = await findScheduledShift(userId, storeId, clockInTime);
+    
+    // 勤務日はシフトの開始日（日付をまたぐシフトに0時以降に出勤した場合も前日扱い）
+    // シフトがない場合は出勤日（時間なし）
+    const today = scheduledShift
+      ? new Date(scheduledShift.date.getFullYear(), scheduledShift.date.getMonth(), scheduledShift.date.getDate())
+      : new Date(clockInTime.getFullYear(), clockInTime.getMonth(), clockInTime.getDate());
     
     // 既存の勤怠記録を確認
     const existingAttendance = await getUserAttendanceForDate(userId, today);
@@ -172,16 +317,8 @@ export const clockIn = async (
       throw new Error('User already clocked in for today');
     }
     
-    // 遅刻かどうかの判定（シフト情報との比較が必要）
-    // ここでは簡易的な判定。実際の実装では予定シフト時間との比較が必要
-    const isMorning = clockInTime.getHours() < 12;
-    const expectedStartHour = isMorning ? 9 : 13; // 朝勤務なら9時、午後勤務なら13時を想定
-    
-    let status: 'normal' | 'late' | 'early' = 'normal';
-    if (clockInTime.getHours() > expectedStartHour || 
-        (clockInTime.getHours() === expectedStartHour && clockInTime.getMinutes() > 15)) {
-      status = 'late'; // 15分以上遅れたら遅刻
-    }
+    const settings = await storeService.getAttendanceSettings(storeId);
+    const { status, clockInDeltaMinutes } = evaluateAttendanceStatus(scheduledShift, settings, clockInTime);
     
     // 新しい勤怠記録を作成
     const newAttendance: Omit<Attendance, 'id'> = {
@@ -190,7 +327,12 @@ export const clockIn = async (
       date: today,
       clockInTime,
       breakTimes: [],
-      status
+      status,
+      // Firestoreはundefinedを保存できないため、シフトがある場合のみ設定
+      ...(scheduledShift && {
+        shiftId: scheduledShift.id,
+        clockInDeltaMinutes
+      })
     };
     
     // Timestamp変換と型アサーション
@@ -240,18 +382,18 @@ export const clockOut = async (
       updatedBreakTimes
     );
     
-    // 早退判定（シフト情報との比較が必要）
-    // ここでは簡易的な判定。実際の実装では予定シフト時間との比較が必要
-    const isMorning = attendance.clockInTime.getHours() < 12;
-    const expectedEndHour = isMorning ? 17 : 21; // 朝勤務なら17時、午後勤務なら21時を想定
-    
-    let status = attendance.status;
-    if (clockOutTime.getHours() < expectedEndHour || 
-        (clockOutTime.getHours() === expectedEndHour && clockOutTime.getMinutes() < 45)) {
-      if (status !== 'late') { // 既に遅刻の場合は上書きしない
-        status = 'early'; // 予定終了時間の15分以上前なら早退
-      }
-    }
+    // 早退判定（出勤時に照合した予定シフトの終了時刻と比較）
+    const scheduledShift = attendance.shiftId
+      ? await shiftService.getShiftById(attendance.shiftId)
+      : null;
+    const settings = await storeService.getAttendanceSettings(attendance.storeId);
+    const { status, clockOutDeltaMinutes } = evaluateAttendanceStatus(
+      scheduledShift,
+      settings,
+      attendance.clockInTime,
+      clockOutTime,
+      attendance.status
+    );
     
     // 更新データ
     const updateData = {
@@ -265,7 +407,10 @@ export const clockOut = async (
           : breakTime.endTime
       })),
       totalWorkHours,
-      status
+      status,
+      ...(clockOutDeltaMinutes !== undefined && { clockOutDeltaMinutes }),
+      // 退勤忘れとして記録された後に退勤した場合は解除
+      ...(attendance.missingClockOut && { missingClockOut: false })
     };
     
     // 更新
@@ -418,21 +563,34 @@ export const getMonthlyAttendanceStats = async (
   totalHours: number;
   lateCount: number;
   earlyCount: number;
+  unscheduledCount: number;
   averageHoursPerDay: number;
+  complianceFindings: LaborComplianceFinding[];
 }> => {
   try {
     // 月の範囲を計算
     const startDate = new Date(year, month - 1, 1); // monthは0始まり
-    const endDate = new Date(year, month, 0); // 翌月の0日=当月末日
+    const endDate = new Date(year, month, 0, 23, 59, 59, 999); // 翌月の0日=当月末日（末日の終わりまで）
     
     // 該当月の勤怠記録を取得
-    const attendances = await getUserAttendancesForPeriod(userId, startDate, endDate);
+    const [attendances, user] = await Promise.all([
+      getUserAttendancesForPeriod(userId, startDate, endDate),
+      userService.getUserById(userId)
+    ]);
+    
+    // 労働基準法の判定（休憩・労働時間の上限・週休・勤務間インターバル）
+    const complianceFindings = user
+      ? laborComplianceService.checkAttendanceCompliance(attendances, [user], {
+          period: { startDate, endDate }
+        })
+      : [];
     
     // 集計
     const totalDays = attendances.length;
     let totalHours = 0;
     let lateCount = 0;
     let earlyCount = 0;
+    let unscheduledCount = 0;
     
     attendances.forEach(attendance => {
       // 勤務時間の合計
@@ -440,11 +598,13 @@ export const getMonthlyAttendanceStats = async (
         totalHours += attendance.totalWorkHours;
       }
       
-      // 遅刻/早退カウント
+      // 遅刻/早退/予定外出勤カウント
       if (attendance.status === 'late') {
         lateCount++;
       } else if (attendance.status === 'early') {
         earlyCount++;
+      } else if (attendance.status === 'unscheduled') {
+        unscheduledCount++;
       }
     });
     
@@ -458,7 +618,9 @@ export const getMonthlyAttendanceStats = async (
       totalHours,
       lateCount,
       earlyCount,
-      averageHoursPerDay
+      unscheduledCount,
+      averageHoursPerDay,
+      complianceFindings
     };
   } catch (error) {
     console.error('Error calculating monthly attendance stats:', error);
@@ -475,6 +637,7 @@ export const getStoreAttendanceStats = async (
   totalAttendances: number;
   lateCount: number;
   earlyCount: number;
+  unscheduledCount: number;
   totalHours: number;
   averageHoursPerAttendance: number;
 }> => {
@@ -495,6 +658,7 @@ export const getStoreAttendanceStats = async (
     let totalHours = 0;
     let lateCount = 0;
     let earlyCount = 0;
+    let unscheduledCount = 0;
     
     attendances.forEach(attendance => {
       // 勤務時間の合計
@@ -502,11 +666,13 @@ export const getStoreAttendanceStats = async (
         totalHours += attendance.totalWorkHours;
       }
       
-      // 遅刻/早退カウント
+      // 遅刻/早退/予定外出勤カウント
       if (attendance.status === 'late') {
         lateCount++;
       } else if (attendance.status === 'early') {
         earlyCount++;
+      } else if (attendance.status === 'unscheduled') {
+        unscheduledCount++;
       }
     });
     
@@ -519,6 +685,7 @@ export const getStoreAttendanceStats = async (
       totalAttendances,
       lateCount,
       earlyCount,
+      unscheduledCount,
       totalHours,
       averageHoursPerAttendance
     };
@@ -533,6 +700,10 @@ export default {
   getUserAttendanceForDate,
   getUserAttendancesForPeriod,
   getStoreAttendancesForDate,
+  evaluateAttendanceStatus,
+  findScheduledShift,
+  getOpenAttendance,
+  getAttendancesMissingClockOut,
   clockIn,
   clockOut,
   startBreak,
@@ -0,0 +1,113 @@
+import { expandEventOccurrences } from './eventService';
+import { Event, EventRecurrence } from '../types/models';
+
+const date = (year: number, month: number, day: number): Date => new Date(year, month - 1, day);
+
+const event = (startDate: Date, endDate: Date, recurrence?: EventRecurrence): Event => ({
+  id: 'event1',
+  name: '宇治川花火大会',
+  startDate,
+  endDate,
+  affectedStores: ['store1'],
+  customerPrediction: 100,
+  ...(recurrence && { recurrence })
+});
+
+const occurrenceDates = (occurrences: Event[]): Array<[Date, Date]> =>
+  occurrences.map(occurrence => [occurrence.startDate, occurrence.endDate]);
+
+describe('expandEventOccurrences', () => {
+  test('returns a single event only when it overlaps the range', () => {
+    const single = event(date(2025, 4, 5), date(2025, 4, 6));
+
+    expect(expandEventOccurrences(single, date(2025, 4, 6), date(2025, 4, 30))).toEqual([single]);
+    expect(expandEventOccurrences(single, date(2025, 4, 7), date(2025, 4, 30))).toEqual([]);
+  });
+
+  test('holds a yearly Feb 29 event on Feb 28 in common years', () => {
+    const occurrences = expandEventOccurrences(
+      event(date(2024, 2, 29), date(2024, 2, 29), { frequency: 'yearly' }),
+      date(2025, 1, 1),
+      date(2028, 12, 31)
+    );
+
+    expect(occurrences.map(occurrence => occurrence.id)).toEqual([
+      'event1@2025-02-28',
+      'event1@2026-02-28',
+      'event1@2027-02-28',
+      'event1@2028-02-29'
+    ]);
+    expect(occurrences[0]).toMatchObject({ recurringEventId: 'event1', name: '宇治川花火大会' });
+    expect(occurrences[0]).not.toHaveProperty('recurrence');
+  });
+
+  test('includes an occurrence that started before the range', () => {
+    const occurrences = expandEventOccurrences(
+      event(date(2024, 12, 30), date(2025, 1, 2), { frequency: 'yearly' }),
+      date(2026, 1, 1),
+      date(2026, 1, 31)
+    );
+
+    expect(occurrenceDates(occurrences)).toEqual([[date(2025, 12, 30), date(2026, 1, 2)]]);
+  });
+
+  test('repeats on the last weekday of each month', () => {
+    // 毎月最終金曜日
+    const occurrences = expandEventOccurrences(
+      event(date(2025, 1, 31), date(2025, 1, 31), { frequency: 'monthly', nth: -1, weekday: 5 }),
+      date(2025, 1, 1),
+      date(2025, 4, 30)
+    );
+
+    expect(occurrenceDates(occurrences)).toEqual([
+      [date(2025, 1, 31), date(2025, 1, 31)],
+      [date(2025, 2, 28), date(2025, 2, 28)],
+      [date(2025, 3, 28), date(2025, 3, 28)],
+      [date(2025, 4, 25), date(2025, 4, 25)]
+    ]);
+  });
+
+  test('skips months without the nth weekday', () => {
+    // 第5金曜日は2025年1月・5月のみ
+    const occurrences = expandEventOccurrences(
+      event(date(2025, 1, 31), date(2025, 1, 31), { frequency: 'monthly', nth: 5, weekday: 5 }),
+      date(2025, 1, 1),
+      date(2025, 6, 30)
+    );
+
+    expect(occurrences.map(occurrence => occurrence.startDate)).toEqual([date(2025, 1, 31), date(2025, 5, 30)]);
+  });
+
+  test('stops repeating after until', () => {
+    const yearly = expandEventOccurrences(
+      event(date(2024, 4, 5), date(2024, 4, 6), { frequency: 'yearly', until: date(2026, 4, 5) }),
+      date(2024, 1, 1),
+      date(2028, 12, 31)
+    );
+    const monthly = expandEventOccurrences(
+      event(date(2025, 1, 31), date(2025, 1, 31), { frequency: 'monthly', nth: -1, weekday: 5, until: date(2025, 3, 27) }),
+      date(2025, 1, 1),
+      date(2025, 12, 31)
+    );
+
+    expect(yearly.map(occurrence => occurrence.startDate)).toEqual([
+      date(2024, 4, 5),
+      date(2025, 4, 5),
+      date(2026, 4, 5)
+    ]);
+    expect(monthly.map(occurrence => occurrence.startDate)).toEqual([date(2025, 1, 31), date(2025, 2, 28)]);
+  });
+
+  test('holds custom recurrences on the listed dates after the first one', () => {
+    const occurrences = expandEventOccurrences(
+      event(date(2025, 4, 5), date(2025, 4, 5), {
+        frequency: 'custom',
+        dates: [date(2025, 5, 3), date(2025, 4, 5), date(2025, 3, 1)]
+      }),
+      date(2025, 1, 1),
+      date(2025, 12, 31)
+    );
+
+    expect(occurrences.map(occurrence => occurrence.id)).toEqual(['event1@2025-04-05', 'event1@2025-05-03']);
+  });
+});
@@ -7,15 +7,143 @@ import {
   Timestamp,
   serverTimestamp
 } from 'firebase/firestore';
-import { Event, SeasonalInfo } from '../types/models';
+import {
+  Event,
+  EventRecurrence,
+  EventTemplate,
+  SeasonalInfo,
+  SeasonalProgressRecord
+} from '../types/models';
 import * as firestoreService from './firestoreService';
 
 // コレクション名を定数化
 const EVENTS_COLLECTION: firestoreService.CollectionName = 'events';
+const EVENT_TEMPLATES_COLLECTION: firestoreService.CollectionName = 'eventTemplates';
 const SEASONAL_INFO_COLLECTION: firestoreService.CollectionName = 'seasonalInfos';
+const SEASONAL_HISTORY_COLLECTION: firestoreService.CollectionName = 'seasonalInfoHistory';
 
 // ========== イベント関連機能 ==========
 
+// 繰り返し設定の日付データの変換（Timestamp → Date）
+const convertRecurrenceTimestamps = (recurrence: EventRecurrence): EventRecurrence => {
+  const toDate = (value: Date): Date =>
+    value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+  
+  if (recurrence.frequency === 'custom') {
+    return { ...recurrence, dates: (recurrence.dates || []).map(toDate) };
+  }
+  
+  return recurrence.until ? { ...recurrence, until: toDate(recurrence.until) } : recurrence;
+};
+
+// 繰り返し設定の日付データの変換（Date → Timestamp）
+const convertRecurrenceDates = (recurrence: EventRecurrence): any => {
+  const toTimestamp = (value: Date) =>
+    value instanceof Date ? firestoreService.convertDateToTimestamp(value) : value;
+  
+  if (recurrence.frequency === 'custom') {
+    return { ...recurrence, dates: recurrence.dates.map(toTimestamp) };
+  }
+  
+  // Firestoreはundefinedを保存できないため、終了日が未設定の場合は除外
+  const { until, ...rest } = recurrence;
+  return until ? { ...rest, until: toTimestamp(until) } : rest;
+};
+
+// 日付のみの比較用（時刻を切り捨て）
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const formatOccurrenceKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// 月の第n週の指定曜日（nthが-1の場合は最終週、存在しない場合はnull）
+const getNthWeekdayOfMonth = (year: number, month: number, nth: number, weekday: number): Date | null => {
+  if (nth === -1) {
+    const lastDay = new Date(year, month + 1, 0);
+    return addDays(lastDay, -((lastDay.getDay() - weekday + 7) % 7));
+  }
+  
+  const firstDay = new Date(year, month, 1);
+  const date = addDays(firstDay, ((weekday - firstDay.getDay() + 7) % 7) + (nth - 1) * 7);
+  return date.getMonth() === month ? date : null;
+};
+
+// 繰り返しの開催開始日の候補（searchStart〜searchEndの範囲）
+const getRecurrenceStartDates = (
+  event: Event,
+  recurrence: EventRecurrence,
+  searchStart: Date,
+  searchEnd: Date
+): Date[] => {
+  const firstStart = startOfDay(event.startDate);
+  const dates: Date[] = [firstStart];
+  
+  if (recurrence.frequency === 'custom') {
+    dates.push(...recurrence.dates.map(startOfDay));
+  } else if (recurrence.frequency === 'yearly') {
+    for (let year = searchStart.getFullYear(); year <= searchEnd.getFullYear(); year++) {
+      // 2月29日開始のイベントは平年は2月28日に開催
+      const day = Math.min(firstStart.getDate(), new Date(year, firstStart.getMonth() + 1, 0).getDate());
+      dates.push(new Date(year, firstStart.getMonth(), day));
+    }
+  } else {
+    const cursor = new Date(searchStart.getFullYear(), searchStart.getMonth(), 1);
+    while (cursor.getTime() <= searchEnd.getTime()) {
+      const date = getNthWeekdayOfMonth(cursor.getFullYear(), cursor.getMonth(), recurrence.nth, recurrence.weekday);
+      if (date) dates.push(date);
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+  }
+  
+  const until = recurrence.frequency !== 'custom' && recurrence.until ? startOfDay(recurrence.until) : null;
+  const uniqueKeys = new Set<string>();
+  
+  return dates
+    .filter(date => date.getTime() >= firstStart.getTime())
+    .filter(date => !until || date.getTime() <= until.getTime())
+    .filter(date => {
+      const key = formatOccurrenceKey(date);
+      if (uniqueKeys.has(key)) return false;
+      uniqueKeys.add(key);
+      return true;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+};
+
+// イベントを期間内の開催回に展開（単発のイベントは期間と重なる場合にそのまま返す）
+// 繰り返しイベントの開催回は「元のID@開催日」をIDとし、開催日数は初回と同じ
+export const expandEventOccurrences = (event: Event, rangeStart: Date, rangeEnd: Date): Event[] => {
+  const start = startOfDay(rangeStart);
+  const end = startOfDay(rangeEnd);
+  
+  if (!event.recurrence) {
+    const overlaps = startOfDay(event.startDate).getTime() <= end.getTime() &&
+      startOfDay(event.endDate).getTime() >= start.getTime();
+    return overlaps ? [event] : [];
+  }
+  
+  const durationDays = Math.max(
+    Math.round((startOfDay(event.endDate).getTime() - startOfDay(event.startDate).getTime()) / (24 * 60 * 60 * 1000)),
+    0
+  );
+  const { recurrence, ...baseEvent } = event;
+  
+  return getRecurrenceStartDates(event, recurrence, addDays(start, -durationDays), end)
+    .map(occurrenceStart => ({ start: occurrenceStart, end: addDays(occurrenceStart, durationDays) }))
+    .filter(occurrence => occurrence.start.getTime() <= end.getTime() && occurrence.end.getTime() >= start.getTime())
+    .map(occurrence => ({
+      ...baseEvent,
+      id: `${event.id}@${formatOccurrenceKey(occurrence.start)}`,
+      startDate: occurrence.start,
+      endDate: occurrence.end,
+      recurringEventId: event.id
+    }));
+};
+
 // イベント情報取得
 export const getEventById = async (eventId: string): Promise<Event | null> => {
   try {
@@ -30,6 +158,10 @@ export const getEventById = async (eventId: string): Promise<Event | null> => {
       if (eventData.endDate instanceof Timestamp) {
         eventData.endDate = firestoreService.convertTimestampToDate(eventData.endDate);
       }
+      
+      if (eventData.recurrence) {
+        eventData.recurrence = convertRecurrenceTimestamps(eventData.recurrence);
+      }
     }
     
     return eventData;
@@ -60,6 +192,10 @@ export const getAllEvents = async (): Promise<Event[]> => {
         convertedEvent.endDate = firestoreService.convertTimestampToDate(convertedEvent.endDate);
       }
       
+      if (convertedEvent.recurrence) {
+        convertedEvent.recurrence = convertRecurrenceTimestamps(convertedEvent.recurrence);
+      }
+      
       return convertedEvent;
     });
   } catch (error) {
@@ -68,33 +204,17 @@ export const getAllEvents = async (): Promise<Event[]> => {
   }
 };
 
-// 期間内のイベント取得
+// 期間内のイベント取得（繰り返しイベントは期間内の開催回に展開）
 export const getEventsByDateRange = async (
   startDate: Date, 
   endDate: Date
 ): Promise<Event[]> => {
   try {
-    const startTimestamp = firestoreService.convertDateToTimestamp(startDate);
-    const endTimestamp = firestoreService.convertDateToTimestamp(endDate);
-    
     // イベント期間が指定期間と重複するものを検索
     // (startDate <= event.endDate) AND (endDate >= event.startDate)
     const events = await getAllEvents();
     
-    return events.filter(event => {
-      const eventStartTimestamp = event.startDate instanceof Date 
-        ? firestoreService.convertDateToTimestamp(event.startDate) 
-        : event.startDate;
-        
-      const eventEndTimestamp = event.endDate instanceof Date 
-        ? firestoreService.convertDateToTimestamp(event.endDate) 
-        : event.endDate;
-      
-      return (
-        startTimestamp.seconds <= eventEndTimestamp.seconds && 
-        endTimestamp.seconds >= eventStartTimestamp.seconds
-      );
-    });
+    return events.flatMap(event => expandEventOccurrences(event, startDate, endDate));
   } catch (error) {
     console.error('Error fetching events by date range:', error);
     throw error;
@@ -126,7 +246,8 @@ export const saveEvent = async (event: Event): Promise<string> => {
         : event.startDate,
       endDate: event.endDate instanceof Date 
         ? firestoreService.convertDateToTimestamp(event.endDate) 
-        : event.endDate
+        : event.endDate,
+      ...(event.recurrence && { recurrence: convertRecurrenceDates(event.recurrence) })
     };
     
     // 型アサーションを使用して型エラーを回避
@@ -159,6 +280,11 @@ export const updateEvent = async (
       dataToUpdate.endDate = firestoreService.convertDateToTimestamp(dataToUpdate.endDate) as any;
     }
     
+    // 繰り返し設定の変換
+    if (dataToUpdate.recurrence) {
+      dataToUpdate.recurrence = convertRecurrenceDates(dataToUpdate.recurrence);
+    }
+    
     // 型アサーションを使用して型エラーを回避
     await firestoreService.updateDocument<any>(
       EVENTS_COLLECTION,
@@ -181,7 +307,7 @@ export const deleteEvent = async (eventId: string): Promise<void> => {
   }
 };
 
-// 近日イベント取得（ダッシュボード用）
+// 近日イベント取得（ダッシュボード用、繰り返しイベントは開催回ごと）
 export const getUpcomingEvents = async (days: number = 30): Promise<Event[]> => {
   try {
     const today = new Date();
@@ -208,6 +334,112 @@ export const getUpcomingEvents = async (days: number = 30): Promise<Event[]> =>
   }
 };
 
+// ========== イベントテンプレート関連機能 ==========
+
+// テンプレート取得
+export const getEventTemplateById = async (templateId: string): Promise<EventTemplate | null> => {
+  try {
+    const template = await firestoreService.getDocument<EventTemplate>(EVENT_TEMPLATES_COLLECTION, templateId);
+    
+    if (template?.recurrence) {
+      template.recurrence = convertRecurrenceTimestamps(template.recurrence);
+    }
+    
+    return template;
+  } catch (error) {
+    console.error('Error fetching event template:', error);
+    throw error;
+  }
+};
+
+// 全テンプレート取得
+export const getAllEventTemplates = async (): Promise<EventTemplate[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createOrderConstraint('name')
+    ];
+    
+    const templates = await firestoreService.getCollection<EventTemplate>(EVENT_TEMPLATES_COLLECTION, constraints);
+    
+    return templates.map(template => template.recurrence
+      ? { ...template, recurrence: convertRecurrenceTimestamps(template.recurrence) }
+      : template
+    );
+  } catch (error) {
+    console.error('Error fetching all event templates:', error);
+    throw error;
+  }
+};
+
+// テンプレート作成/更新
+export const saveEventTemplate = async (template: EventTemplate): Promise<string> => {
+  try {
+    if (template.durationDays < 1) {
+      throw new Error('Event template duration must be at least 1 day');
+    }
+    
+    // Firestoreはundefinedを保存できないため、未設定の項目は除外
+    const { recurrence, ...rest } = template;
+    const templateToSave = {
+      ...rest,
+      notes: template.notes || '',
+      ...(recurrence && { recurrence: convertRecurrenceDates(recurrence) })
+    };
+    
+    // 型アサーションを使用して型エラーを回避
+    return await firestoreService.setDocument<any>(
+      EVENT_TEMPLATES_COLLECTION,
+      templateToSave as any,
+      template.id || undefined
+    );
+  } catch (error) {
+    console.error('Error saving event template:', error);
+    throw error;
+  }
+};
+
+// テンプレート削除（作成済みのイベントは削除しない）
+export const deleteEventTemplate = async (templateId: string): Promise<void> => {
+  try {
+    await firestoreService.deleteDocument(EVENT_TEMPLATES_COLLECTION, templateId);
+  } catch (error) {
+    console.error('Error deleting event template:', error);
+    throw error;
+  }
+};
+
+// テンプレートからイベントを作成（開始日を指定、店舗・予測来客数・繰り返し設定は上書き可能）
+export const createEventFromTemplate = async (
+  templateId: string,
+  startDate: Date,
+  overrides: Partial<Pick<Event, 'name' | 'affectedStores' | 'customerPrediction' | 'recurrence'>> = {}
+): Promise<string> => {
+  try {
+    const template = await getEventTemplateById(templateId);
+    if (!template) {
+      throw new Error(`Event template with ID ${templateId} not found`);
+    }
+    
+    const start = startOfDay(startDate);
+    const recurrence = overrides.recurrence || template.recurrence;
+    
+    const event: Omit<Event, 'id'> = {
+      name: overrides.name || template.name,
+      startDate: start,
+      endDate: addDays(start, template.durationDays - 1),
+      affectedStores: overrides.affectedStores || template.affectedStores,
+      customerPrediction: overrides.customerPrediction ?? template.customerPrediction,
+      templateId,
+      ...(recurrence && { recurrence })
+    };
+    
+    return await saveEvent({ ...event, id: '' });
+  } catch (error) {
+    console.error('Error creating event from template:', error);
+    throw error;
+  }
+};
+
 // ========== 季節情報関連機能 ==========
 
 // 季節情報取得
@@ -568,7 +800,90 @@ export const getDashboardSummary = async (): Promise<{
   }
 };
 
+// ========== 季節情報の履歴関連機能 ==========
+
+// 進捗履歴の日付データの変換
+const convertProgressRecordTimestamps = (record: SeasonalProgressRecord): SeasonalProgressRecord => {
+  const convertedRecord = { ...record };
+  
+  if (convertedRecord.recordedAt instanceof Timestamp) {
+    convertedRecord.recordedAt = firestoreService.convertTimestampToDate(convertedRecord.recordedAt);
+  }
+  
+  convertedRecord.areas = (convertedRecord.areas || []).map(area => {
+    if (!area.bestViewingPeriod) return area;
+    
+    const { start, end } = area.bestViewingPeriod;
+    return {
+      ...area,
+      bestViewingPeriod: {
+        start: start instanceof Timestamp ? firestoreService.convertTimestampToDate(start) : start,
+        end: end instanceof Timestamp ? firestoreService.convertTimestampToDate(end) : end
+      }
+    };
+  });
+  
+  return convertedRecord;
+};
+
+// 季節情報の進捗を履歴に記録
+export const recordSeasonalProgress = async (
+  info: Omit<SeasonalInfo, 'lastUpdated'>,
+  recordedAt: Date = new Date()
+): Promise<string> => {
+  try {
+    const recordToSave = {
+      seasonalInfoId: info.id,
+      type: info.type,
+      season: recordedAt.getFullYear(),
+      progress: info.progress,
+      areas: info.areas.map(area => ({
+        name: area.name,
+        status: area.status,
+        ...(area.bestViewingPeriod && {
+          bestViewingPeriod: {
+            start: firestoreService.convertDateToTimestamp(area.bestViewingPeriod.start),
+            end: firestoreService.convertDateToTimestamp(area.bestViewingPeriod.end)
+          }
+        })
+      })),
+      recordedAt: firestoreService.convertDateToTimestamp(recordedAt)
+    };
+    
+    // 型アサーションを使用して型エラーを回避
+    return await firestoreService.setDocument<any>(SEASONAL_HISTORY_COLLECTION, recordToSave as any);
+  } catch (error) {
+    console.error('Error recording seasonal progress:', error);
+    throw error;
+  }
+};
+
+// タイプ別の進捗履歴取得（記録日時順、シーズンを指定した場合はその年のみ）
+export const getSeasonalProgressHistory = async (
+  type: 'sakura' | 'azalea' | 'other',
+  season?: number
+): Promise<SeasonalProgressRecord[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('type', '==', type),
+      ...(season !== undefined ? [firestoreService.createWhereConstraint('season', '==', season)] : []),
+      firestoreService.createOrderConstraint('recordedAt')
+    ];
+    
+    const records = await firestoreService.getCollection<SeasonalProgressRecord>(
+      SEASONAL_HISTORY_COLLECTION,
+      constraints
+    );
+    
+    return records.map(convertProgressRecordTimestamps);
+  } catch (error) {
+    console.error(`Error fetching seasonal progress history for ${type}:`, error);
+    throw error;
+  }
+};
+
 // 季節情報の更新 (外部から取得した情報を元に)
+// 最新の情報を更新し、更新内容を進捗履歴にも記録する（前年以前の情報は上書きせず新規作成）
 export const updateSeasonalInfoFromExternalSource = async (
   type: 'sakura' | 'azalea' | 'other',
   name: string,
@@ -580,6 +895,8 @@ export const updateSeasonalInfoFromExternalSource = async (
   }>
 ): Promise<string> => {
   try {
+    const now = new Date();
+    
     // 現在の季節情報を取得
     const existingInfo = await getLatestSeasonalInfoByType(type);
     
@@ -591,15 +908,22 @@ export const updateSeasonalInfoFromExternalSource = async (
       areas
     };
     
-    // IDの決定（既存情報があれば更新、なければ新規作成）
-    const infoId = existingInfo ? existingInfo.id : undefined;
+    // IDの決定（同じシーズンの既存情報があれば更新、なければ新規作成）
+    const isSameSeason = existingInfo?.lastUpdated instanceof Date &&
+      existingInfo.lastUpdated.getFullYear() === now.getFullYear();
+    const infoId = existingInfo && isSameSeason ? existingInfo.id : undefined;
     
     // 保存
-    return await saveSeasonalInfo({
+    const savedId = await saveSeasonalInfo({
       ...newInfo,
       id: infoId || '',
-      lastUpdated: new Date()
+      lastUpdated: now
     });
+    
+    // 進捗履歴に記録
+    await recordSeasonalProgress({ ...newInfo, id: savedId }, now);
+    
+    return savedId;
   } catch (error) {
     console.error('Error updating seasonal info from external source:', error);
     throw error;
@@ -616,6 +940,14 @@ export default {
   updateEvent,
   deleteEvent,
   getUpcomingEvents,
+  expandEventOccurrences,
+  
+  // イベントテンプレート関連
+  getEventTemplateById,
+  getAllEventTemplates,
+  saveEventTemplate,
+  deleteEventTemplate,
+  createEventFromTemplate,
   
   // 季節情報関連
   getSeasonalInfoById,
@@ -626,5 +958,9 @@ export default {
   deleteSeasonalInfo,
   getAreasInBestViewingPeriod,
   getDashboardSummary,
-  updateSeasonalInfoFromExternalSource
+  updateSeasonalInfoFromExternalSource,
+  
+  // 季節情報の履歴関連
+  recordSeasonalProgress,
+  getSeasonalProgressHistory
 };
\ No newline at end of file
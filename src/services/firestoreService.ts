@@ -30,11 +30,22 @@ export type CollectionName =
   | 'users' 
   | 'stores' 
   | 'shifts' 
+  | 'shiftPlans'
+  | 'shiftPlanCounters'
+  | 'shiftSwaps'
+  | 'shiftAuditLogs'
   | 'shiftPreferences' 
+  | 'preferenceWindows'
+  | 'preferenceProfiles'
   | 'attendances' 
+  | 'attendanceCorrections'
+  | 'payrollSettings'
   | 'events'
+  | 'eventTemplates'
   | 'seasonalInfos'
-  | 'relationshipConstraints';
+  | 'seasonalInfoHistory'
+  | 'relationshipConstraints'
+  | 'aiConversations';
 
 // Timestampと日付の変換ユーティリティ
 export const convertTimestampToDate = (timestamp: Timestamp): Date => {
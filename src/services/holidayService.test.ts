@@ -0,0 +1,86 @@
+import { getHolidayName, getHolidaysForYear, getHolidaysInRange, isHoliday } from './holidayService';
+
+const formatHolidays = (holidays: Array<{ date: Date; name: string }>): string[] =>
+  holidays.map(({ date, name }) => `${date.getMonth() + 1}/${date.getDate()} ${name}`);
+
+describe('getHolidaysForYear', () => {
+  test('lists the holidays of a year in date order', () => {
+    expect(formatHolidays(getHolidaysForYear(2025))).toEqual([
+      '1/1 元日',
+      '1/13 成人の日',
+      '2/11 建国記念の日',
+      '2/23 天皇誕生日',
+      '2/24 振替休日',
+      '3/20 春分の日',
+      '4/29 昭和の日',
+      '5/3 憲法記念日',
+      '5/4 みどりの日',
+      '5/5 こどもの日',
+      '5/6 振替休日',
+      '7/21 海の日',
+      '8/11 山の日',
+      '9/15 敬老の日',
+      '9/23 秋分の日',
+      '10/13 スポーツの日',
+      '11/3 文化の日',
+      '11/23 勤労感謝の日',
+      '11/24 振替休日'
+    ]);
+  });
+
+  test('applies the special dates of 2020', () => {
+    const holidays = formatHolidays(getHolidaysForYear(2020));
+
+    expect(holidays).toEqual(expect.arrayContaining(['7/23 海の日', '7/24 スポーツの日', '8/10 山の日']));
+    expect(holidays).not.toContain('8/11 山の日');
+  });
+});
+
+describe('substitute holidays', () => {
+  test('moves a Sunday holiday to the next day', () => {
+    // 2024-09-22（日）秋分の日
+    expect(getHolidayName(new Date(2024, 8, 23))).toBe('振替休日');
+  });
+
+  test('skips over consecutive holidays', () => {
+    // 2019-05-05（日）こどもの日 → 5/6
+    expect(getHolidayName(new Date(2019, 4, 6))).toBe('振替休日');
+    // 2025-05-04（日）みどりの日 → 5/5はこどもの日のため5/6
+    expect(getHolidayName(new Date(2025, 4, 5))).toBe('こどもの日');
+    expect(getHolidayName(new Date(2025, 4, 6))).toBe('振替休日');
+  });
+});
+
+describe("citizen's holidays", () => {
+  test('marks a weekday between two holidays', () => {
+    // 2026-09-21（月）敬老の日、9/23（水）秋分の日
+    expect(getHolidayName(new Date(2026, 8, 22))).toBe('国民の休日');
+  });
+
+  test('marks both days of the 2019 enthronement holidays', () => {
+    expect(getHolidayName(new Date(2019, 3, 30))).toBe('国民の休日');
+    expect(getHolidayName(new Date(2019, 4, 1))).toBe('即位の日');
+    expect(getHolidayName(new Date(2019, 4, 2))).toBe('国民の休日');
+  });
+
+  test('does not mark a day next to only one holiday', () => {
+    // 2025-09-23（火）秋分の日、9/21は日曜日で祝日ではない
+    expect(isHoliday(new Date(2025, 8, 22))).toBe(false);
+  });
+});
+
+describe('getHolidaysInRange', () => {
+  test('includes both ends and spans years', () => {
+    const holidays = getHolidaysInRange(new Date(2024, 11, 23, 15), new Date(2025, 0, 13, 9));
+
+    expect(holidays.map(holiday => holiday.name)).toEqual(['元日', '成人の日']);
+    expect(holidays[0].date).toEqual(new Date(2025, 0, 1));
+  });
+});
+
+describe('isHoliday', () => {
+  test('ignores the time of day', () => {
+    expect(isHoliday(new Date(2025, 0, 1, 23, 59))).toBe(true);
+    expect(isHoliday(new Date(2025, 0, 2))).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+// src/services/holidayService.ts
+// 日本の祝日計算（外部APIを使用せずに算出）
+// 春分・秋分の日は1980〜2099年の近似式で計算
+
+// 祝日情報
+export interface JapaneseHoliday {
+  date: Date;
+  name: string;
+}
+
+// 年ごとの祝日のキャッシュ（キーはYYYY-MM-DD）
+const holidayCache = new Map<number, Map<string, string>>();
+
+// 日付キー（YYYY-MM-DD、ローカル時刻）
+const toDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const dateToKey = (date: Date): string =>
+  toDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+
+// 第n月曜日の日付（ハッピーマンデー）
+const getNthMonday = (year: number, month: number, nth: number): number => {
+  const firstDayOfWeek = new Date(year, month - 1, 1).getDay();
+  const firstMonday = 1 + ((8 - firstDayOfWeek) % 7);
+  return firstMonday + (nth - 1) * 7;
+};
+
+// 春分の日
+const getVernalEquinoxDay = (year: number): number =>
+  Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// 秋分の日
+const getAutumnalEquinoxDay = (year: number): number =>
+  Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// 国民の祝日に関する法律で定められた祝日（振替休日・国民の休日を除く）
+const getStatutoryHolidays = (year: number): Array<[number, number, string]> => {
+  const holidays: Array<[number, number, string]> = [];
+  const add = (month: number, day: number, name: string) => holidays.push([month, day, name]);
+
+  add(1, 1, '元日');
+  add(1, year >= 2000 ? getNthMonday(year, 1, 2) : 15, '成人の日');
+  add(2, 11, '建国記念の日');
+
+  if (year >= 2020) {
+    add(2, 23, '天皇誕生日');
+  } else if (year >= 1989 && year <= 2018) {
+    add(12, 23, '天皇誕生日');
+  }
+
+  add(3, getVernalEquinoxDay(year), '春分の日');
+  add(4, 29, year >= 2007 ? '昭和の日' : 'みどりの日');
+  add(5, 3, '憲法記念日');
+  if (year >= 2007) {
+    add(5, 4, 'みどりの日');
+  }
+  add(5, 5, 'こどもの日');
+
+  // 東京オリンピック・パラリンピックによる特例（2020年・2021年）
+  if (year === 2020) {
+    add(7, 23, '海の日');
+    add(7, 24, 'スポーツの日');
+    add(8, 10, '山の日');
+  } else if (year === 2021) {
+    add(7, 22, '海の日');
+    add(7, 23, 'スポーツの日');
+    add(8, 8, '山の日');
+  } else {
+    if (year >= 2003) {
+      add(7, getNthMonday(year, 7, 3), '海の日');
+    } else if (year >= 1996) {
+      add(7, 20, '海の日');
+    }
+    if (year >= 2016) {
+      add(8, 11, '山の日');
+    }
+    if (year >= 2000) {
+      add(10, getNthMonday(year, 10, 2), year >= 2020 ? 'スポーツの日' : '体育の日');
+    } else {
+      add(10, 10, '体育の日');
+    }
+  }
+
+  add(9, year >= 2003 ? getNthMonday(year, 9, 3) : 15, '敬老の日');
+  add(9, getAutumnalEquinoxDay(year), '秋分の日');
+  add(11, 3, '文化の日');
+  add(11, 23, '勤労感謝の日');
+
+  // 天皇の即位に伴う祝日（2019年）
+  if (year === 2019) {
+    add(5, 1, '即位の日');
+    add(10, 22, '即位礼正殿の儀の行われる日');
+  }
+
+  return holidays;
+};
+
+// 年の祝日一覧を計算（日付キー → 祝日名）
+const calculateHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  const statutory = getStatutoryHolidays(year);
+
+  statutory.forEach(([month, day, name]) => {
+    holidays.set(toDateKey(year, month, day), name);
+  });
+
+  const isStatutoryHoliday = (date: Date): boolean =>
+    date.getFullYear() === year && holidays.has(dateToKey(date));
+
+  // 国民の休日: 前日と翌日が祝日に挟まれた平日
+  const sandwichedDays: string[] = [];
+  statutory.forEach(([month, day]) => {
+    const nextDay = new Date(year, month - 1, day + 1);
+    const dayAfterNext = new Date(year, month - 1, day + 2);
+    if (
+      !isStatutoryHoliday(nextDay) &&
+      nextDay.getDay() !== 0 &&
+      isStatutoryHoliday(dayAfterNext)
+    ) {
+      sandwichedDays.push(dateToKey(nextDay));
+    }
+  });
+  sandwichedDays.forEach(key => holidays.set(key, '国民の休日'));
+
+  // 振替休日: 祝日が日曜日の場合、その後の最初の祝日でない日
+  statutory.forEach(([month, day]) => {
+    const date = new Date(year, month - 1, day);
+    if (date.getDay() !== 0) return;
+
+    const substitute = new Date(date);
+    do {
+      substitute.setDate(substitute.getDate() + 1);
+    } while (holidays.has(dateToKey(substitute)));
+
+    // 12月31日以降にずれることはないが、年をまたぐ場合は対象外
+    if (substitute.getFullYear() === year) {
+      holidays.set(dateToKey(substitute), '振替休日');
+    }
+  });
+
+  return holidays;
+};
+
+// 年の祝日（キャッシュあり）
+const getHolidayMap = (year: number): Map<string, string> => {
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    holidays = calculateHolidays(year);
+    holidayCache.set(year, holidays);
+  }
+  return holidays;
+};
+
+// 年の祝日一覧（日付順）
+export const getHolidaysForYear = (year: number): JapaneseHoliday[] => {
+  return Array.from(getHolidayMap(year).entries())
+    .map(([key, name]) => {
+      const [, month, day] = key.split('-').map(Number);
+      return { date: new Date(year, month - 1, day), name };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// 期間内の祝日一覧（開始日・終了日を含む）
+export const getHolidaysInRange = (startDate: Date, endDate: Date): JapaneseHoliday[] => {
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+  const holidays: JapaneseHoliday[] = [];
+
+  for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+    getHolidaysForYear(year).forEach(holiday => {
+      if (holiday.date.getTime() >= start.getTime() && holiday.date.getTime() <= end.getTime()) {
+        holidays.push(holiday);
+      }
+    });
+  }
+
+  return holidays;
+};
+
+// 祝日名を取得（祝日でない場合はnull）
+export const getHolidayName = (date: Date): string | null => {
+  return getHolidayMap(date.getFullYear()).get(dateToKey(date)) || null;
+};
+
+// 祝日かどうか
+export const isHoliday = (date: Date): boolean => getHolidayName(date) !== null;
+
+export default {
+  getHolidaysForYear,
+  getHolidaysInRange,
+  getHolidayName,
+  isHoliday
+};
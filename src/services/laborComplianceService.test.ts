@@ -0,0 +1,147 @@
+import {
+  checkAttendanceCompliance,
+  checkShiftCompliance,
+  getLaborRules,
+  getRequiredBreakMinutes
+} from './laborComplianceService';
+import { createTestUser } from './testFixtures';
+import { Attendance, Shift, User } from '../types/models';
+
+const employee = (id: string, employmentType: User['employmentType'] = 'parttime'): User =>
+  createTestUser(id, { employmentType });
+
+const shift = (userId: string, date: Date, startTime: string, endTime: string): Omit<Shift, 'id'> => ({
+  userId,
+  storeId: 'store1',
+  date,
+  startTime,
+  endTime,
+  status: 'planned'
+});
+
+const at = (day: number, hours: number, minutes: number = 0): Date => new Date(2025, 3, day, hours, minutes);
+
+describe('getRequiredBreakMinutes', () => {
+  test('applies the statutory break thresholds', () => {
+    const rules = getLaborRules('parttime');
+
+    expect(getRequiredBreakMinutes(rules, 6 * 60)).toBe(0);
+    expect(getRequiredBreakMinutes(rules, 6 * 60 + 1)).toBe(45);
+    expect(getRequiredBreakMinutes(rules, 8 * 60)).toBe(45);
+    expect(getRequiredBreakMinutes(rules, 8 * 60 + 1)).toBe(60);
+  });
+});
+
+describe('checkShiftCompliance', () => {
+  test('assumes the statutory break when computing daily hours', () => {
+    const user = employee('user1');
+
+    // 9時間の拘束（休憩60分）は8時間労働で上限内、10時間の拘束は9時間労働で上限超
+    const findings = checkShiftCompliance(
+      [shift('user1', at(7, 0), '09:00', '18:00'), shift('user1', at(8, 0), '08:00', '18:00')],
+      [user]
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      type: 'dailyLimitExceeded',
+      source: 'shift',
+      workMinutes: 9 * 60,
+      limitMinutes: 8 * 60
+    });
+    expect(findings[0].type === 'dailyLimitExceeded' && findings[0].date).toEqual(at(8, 0));
+  });
+
+  test('reports a short rest interval after an overnight shift', () => {
+    const findings = checkShiftCompliance(
+      [shift('user1', at(7, 0), '18:00', '01:00'), shift('user1', at(8, 0), '08:00', '12:00')],
+      [employee('user1')]
+    );
+
+    const rest = findings.find(finding => finding.type === 'shortRestInterval');
+    expect(rest).toMatchObject({ restMinutes: 7 * 60, requiredRestMinutes: 9 * 60 });
+  });
+
+  test('uses the longer rest interval for full-time employees', () => {
+    const shifts = [shift('user1', at(7, 0), '09:00', '22:00'), shift('user1', at(8, 0), '08:00', '12:00')];
+
+    expect(checkShiftCompliance(shifts, [employee('user1', 'parttime')])
+      .some(finding => finding.type === 'shortRestInterval')).toBe(false);
+    expect(checkShiftCompliance(shifts, [employee('user1', 'fulltime')])
+      .some(finding => finding.type === 'shortRestInterval')).toBe(true);
+  });
+
+  test('reports weeks without a day off and over the weekly limit', () => {
+    // 2025-04-06（日）〜04-12（土）の毎日8時間労働
+    const shifts = [6, 7, 8, 9, 10, 11, 12].map(day => shift('user1', at(day, 0), '09:00', '17:45'));
+
+    const findings = checkShiftCompliance(shifts, [employee('user1')], {
+      period: { startDate: at(6, 0), endDate: at(12, 0) }
+    });
+
+    expect(findings.map(finding => finding.type).sort()).toEqual(['noWeeklyDayOff', 'weeklyLimitExceeded']);
+    expect(findings.find(finding => finding.type === 'weeklyLimitExceeded')).toMatchObject({
+      weekStartDate: at(6, 0),
+      workMinutes: 7 * 8 * 60
+    });
+  });
+
+  test('only checks weeks that fit in the period', () => {
+    const shifts = [6, 7, 8, 9, 10, 11, 12].map(day => shift('user1', at(day, 0), '09:00', '12:00'));
+
+    const findings = checkShiftCompliance(shifts, [employee('user1')], {
+      period: { startDate: at(7, 0), endDate: at(13, 0) }
+    });
+
+    expect(findings).toEqual([]);
+  });
+
+  test('applies rule overrides for the employment type', () => {
+    const findings = checkShiftCompliance(
+      [shift('user1', at(7, 0), '09:00', '16:00')],
+      [employee('user1')],
+      { rules: { parttime: { dailyLimitMinutes: 6 * 60 } } }
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({ type: 'dailyLimitExceeded', workMinutes: 6 * 60 + 15, limitMinutes: 6 * 60 })
+    ]);
+  });
+});
+
+describe('checkAttendanceCompliance', () => {
+  const attendance = (
+    clockInTime: Date,
+    clockOutTime: Date | undefined,
+    breakMinutes: number
+  ): Attendance => ({
+    id: `attendance-${clockInTime.getTime()}`,
+    userId: 'user1',
+    date: new Date(clockInTime.getFullYear(), clockInTime.getMonth(), clockInTime.getDate()),
+    clockInTime,
+    clockOutTime,
+    breakTimes: breakMinutes > 0
+      ? [{ startTime: at(clockInTime.getDate(), 12), endTime: at(clockInTime.getDate(), 12, breakMinutes) }]
+      : [],
+    storeId: 'store1',
+    status: 'normal'
+  });
+
+  test('reports a break shorter than the statutory minimum', () => {
+    const findings = checkAttendanceCompliance([attendance(at(7, 9), at(7, 16, 30), 30)], [employee('user1')]);
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        type: 'insufficientBreak',
+        source: 'attendance',
+        workMinutes: 7 * 60,
+        breakMinutes: 30,
+        requiredBreakMinutes: 45
+      })
+    ]);
+  });
+
+  test('ignores attendances without a clock-out', () => {
+    expect(checkAttendanceCompliance([attendance(at(7, 9), undefined, 0)], [employee('user1')])).toEqual([]);
+  });
+});
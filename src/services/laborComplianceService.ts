@@ -0,0 +1,432 @@
+// src/services/laborComplianceService.ts
+import { Shift, Attendance, User } from '../types/models';
+import * as shiftService from './shiftService';
+
+// 雇用形態
+export type EmploymentType = User['employmentType'];
+
+// 休憩の基準（労働時間がworkMinutesOverを超える場合にrequiredBreakMinutes以上の休憩が必要）
+export interface BreakRule {
+  workMinutesOver: number;
+  requiredBreakMinutes: number;
+}
+
+// 労働基準法に基づく判定ルール
+export interface LaborRuleSet {
+  /** 休憩の基準（労働基準法第34条） */
+  breakRules: BreakRule[];
+  /** 1日の労働時間の上限（分） */
+  dailyLimitMinutes: number;
+  /** 1週間の労働時間の上限（分） */
+  weeklyLimitMinutes: number;
+  /** 毎週少なくとも1日の休日が必要か（労働基準法第35条） */
+  requireWeeklyDayOff: boolean;
+  /** 勤務間インターバル（前日の終業から翌日の始業までの最低休息時間、分） */
+  minRestIntervalMinutes: number;
+}
+
+// 法定の休憩時間（6時間超は45分、8時間超は60分）
+const STATUTORY_BREAK_RULES: BreakRule[] = [
+  { workMinutesOver: 6 * 60, requiredBreakMinutes: 45 },
+  { workMinutesOver: 8 * 60, requiredBreakMinutes: 60 }
+];
+
+// 雇用形態ごとのデフォルトルール
+// 法定の基準は雇用形態によらず共通。勤務間インターバルは正社員のみ11時間、その他は9時間を目安とする
+export const DEFAULT_LABOR_RULES: Record<EmploymentType, LaborRuleSet> = {
+  fulltime: {
+    breakRules: STATUTORY_BREAK_RULES,
+    dailyLimitMinutes: 8 * 60,
+    weeklyLimitMinutes: 40 * 60,
+    requireWeeklyDayOff: true,
+    minRestIntervalMinutes: 11 * 60
+  },
+  parttime: {
+    breakRules: STATUTORY_BREAK_RULES,
+    dailyLimitMinutes: 8 * 60,
+    weeklyLimitMinutes: 40 * 60,
+    requireWeeklyDayOff: true,
+    minRestIntervalMinutes: 9 * 60
+  },
+  temporary: {
+    breakRules: STATUTORY_BREAK_RULES,
+    dailyLimitMinutes: 8 * 60,
+    weeklyLimitMinutes: 40 * 60,
+    requireWeeklyDayOff: true,
+    minRestIntervalMinutes: 9 * 60
+  }
+};
+
+// 判定のオプション
+export interface LaborComplianceOptions {
+  /** 判定対象期間（週1日の休日は期間内に収まる週のみ判定） */
+  period?: { startDate: Date; endDate: Date };
+  /** 週の開始曜日（0: 日曜日〜6: 土曜日、デフォルト: 日曜日） */
+  weekStartsOn?: number;
+  /** 雇用形態ごとのルールの上書き */
+  rules?: Partial<Record<EmploymentType, Partial<LaborRuleSet>>>;
+}
+
+// 判定結果の出所（予定シフト・勤怠記録）
+export type LaborComplianceSource = 'shift' | 'attendance';
+
+interface LaborComplianceFindingBase {
+  userId: string;
+  source: LaborComplianceSource;
+  message: string;
+}
+
+// 労働基準法に関する警告（typeで判別）
+export type LaborComplianceFinding =
+  | (LaborComplianceFindingBase & {
+      type: 'insufficientBreak';
+      date: Date;
+      workMinutes: number;
+      breakMinutes: number;
+      requiredBreakMinutes: number;
+    })
+  | (LaborComplianceFindingBase & {
+      type: 'dailyLimitExceeded';
+      date: Date;
+      workMinutes: number;
+      limitMinutes: number;
+    })
+  | (LaborComplianceFindingBase & {
+      type: 'weeklyLimitExceeded';
+      weekStartDate: Date;
+      workMinutes: number;
+      limitMinutes: number;
+    })
+  | (LaborComplianceFindingBase & {
+      type: 'noWeeklyDayOff';
+      weekStartDate: Date;
+    })
+  | (LaborComplianceFindingBase & {
+      type: 'shortRestInterval';
+      date: Date;
+      previousEndTime: Date;
+      nextStartTime: Date;
+      restMinutes: number;
+      requiredRestMinutes: number;
+    });
+
+export type LaborComplianceFindingType = LaborComplianceFinding['type'];
+
+// 判定用に正規化した勤務（予定シフト・勤怠記録の共通形式）
+interface WorkInterval {
+  userId: string;
+  /** 勤務日（開始日） */
+  date: Date;
+  start: Date;
+  end: Date;
+  /** 休憩時間（分）。予定シフトは法定の休憩を取る前提 */
+  breakMinutes: number;
+  /** 休憩時間を判定するか（実績のある勤怠記録のみ） */
+  checkBreak: boolean;
+}
+
+// 雇用形態のルールを取得（上書き設定を反映）
+export const getLaborRules = (
+  employmentType: EmploymentType,
+  overrides: LaborComplianceOptions['rules'] = {}
+): LaborRuleSet => {
+  return {
+    ...DEFAULT_LABOR_RULES[employmentType],
+    ...(overrides[employmentType] || {})
+  };
+};
+
+// 労働時間に対して必要な休憩時間（分）
+export const getRequiredBreakMinutes = (rules: LaborRuleSet, workMinutes: number): number => {
+  return rules.breakRules.reduce(
+    (required, rule) => workMinutes > rule.workMinutesOver
+      ? Math.max(required, rule.requiredBreakMinutes)
+      : required,
+    0
+  );
+};
+
+// 拘束時間のうち法定の基準を満たす最小の休憩時間（分）
+// 休憩を差し引いて基準ちょうどの労働時間になる場合はその分だけ休憩とする
+const estimateBreakMinutes = (rules: LaborRuleSet, grossMinutes: number): number => {
+  const candidates = [
+    0,
+    ...rules.breakRules.map(rule => rule.requiredBreakMinutes),
+    ...rules.breakRules.map(rule => grossMinutes - rule.workMinutesOver)
+  ]
+    .filter(minutes => minutes >= 0 && minutes <= grossMinutes)
+    .sort((a, b) => a - b);
+
+  const breakMinutes = candidates.find(minutes =>
+    getRequiredBreakMinutes(rules, grossMinutes - minutes) <= minutes
+  );
+  return breakMinutes ?? 0;
+};
+
+const minutesBetween = (start: Date, end: Date): number =>
+  Math.round((end.getTime() - start.getTime()) / (60 * 1000));
+
+const workMinutesOf = (interval: WorkInterval): number =>
+  minutesBetween(interval.start, interval.end) - interval.breakMinutes;
+
+// 日付（時刻なし）
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 週の開始日
+const startOfWeek = (date: Date, weekStartsOn: number): Date => {
+  const day = startOfDay(date);
+  const diff = (day.getDay() - weekStartsOn + 7) % 7;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - diff);
+};
+
+// 勤務がかかる日付（日付をまたぐ勤務は翌日も含む）
+const getWorkedDateKeys = (interval: WorkInterval): string[] => {
+  const keys: string[] = [];
+  const endExclusive = new Date(interval.end.getTime() - 1);
+  let day = startOfDay(interval.start);
+  while (day.getTime() <= endExclusive.getTime()) {
+    keys.push(shiftService.formatDateKey(day));
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  }
+  return keys;
+};
+
+// 従業員ごとの勤務を判定
+const checkEmployeeIntervals = (
+  employee: User,
+  intervals: WorkInterval[],
+  source: LaborComplianceSource,
+  options: LaborComplianceOptions
+): LaborComplianceFinding[] => {
+  const findings: LaborComplianceFinding[] = [];
+  const rules = getLaborRules(employee.employmentType, options.rules);
+  const weekStartsOn = options.weekStartsOn ?? 0;
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  if (sorted.length === 0) {
+    return findings;
+  }
+
+  // 休憩時間
+  sorted
+    .filter(interval => interval.checkBreak)
+    .forEach(interval => {
+      const workMinutes = workMinutesOf(interval);
+      const requiredBreakMinutes = getRequiredBreakMinutes(rules, workMinutes);
+      if (interval.breakMinutes < requiredBreakMinutes) {
+        findings.push({
+          type: 'insufficientBreak',
+          userId: employee.id,
+          source,
+          message: `${employee.name}さんの${shiftService.formatDateKey(interval.date)}の休憩が${interval.breakMinutes}分です（必要: ${requiredBreakMinutes}分）`,
+          date: interval.date,
+          workMinutes,
+          breakMinutes: interval.breakMinutes,
+          requiredBreakMinutes
+        });
+      }
+    });
+
+  // 1日の労働時間（日付をまたぐ勤務は開始日に計上）
+  const minutesByDate = new Map<string, { date: Date; minutes: number }>();
+  sorted.forEach(interval => {
+    const key = shiftService.formatDateKey(interval.date);
+    const entry = minutesByDate.get(key) || { date: interval.date, minutes: 0 };
+    entry.minutes += workMinutesOf(interval);
+    minutesByDate.set(key, entry);
+  });
+
+  minutesByDate.forEach(({ date, minutes }, key) => {
+    if (minutes > rules.dailyLimitMinutes) {
+      findings.push({
+        type: 'dailyLimitExceeded',
+        userId: employee.id,
+        source,
+        message: `${employee.name}さんの${key}の労働時間が${Math.round(minutes / 6) / 10}時間で、1日の上限（${rules.dailyLimitMinutes / 60}時間）を超えています`,
+        date,
+        workMinutes: minutes,
+        limitMinutes: rules.dailyLimitMinutes
+      });
+    }
+  });
+
+  // 1週間の労働時間
+  const minutesByWeek = new Map<string, { weekStartDate: Date; minutes: number }>();
+  sorted.forEach(interval => {
+    const weekStartDate = startOfWeek(interval.date, weekStartsOn);
+    const key = shiftService.formatDateKey(weekStartDate);
+    const entry = minutesByWeek.get(key) || { weekStartDate, minutes: 0 };
+    entry.minutes += workMinutesOf(interval);
+    minutesByWeek.set(key, entry);
+  });
+
+  minutesByWeek.forEach(({ weekStartDate, minutes }, key) => {
+    if (minutes > rules.weeklyLimitMinutes) {
+      findings.push({
+        type: 'weeklyLimitExceeded',
+        userId: employee.id,
+        source,
+        message: `${employee.name}さんの${key}からの週の労働時間が${Math.round(minutes / 6) / 10}時間で、週の上限（${rules.weeklyLimitMinutes / 60}時間）を超えています`,
+        weekStartDate,
+        workMinutes: minutes,
+        limitMinutes: rules.weeklyLimitMinutes
+      });
+    }
+  });
+
+  // 週1日の休日（期間内に収まる週のみ）
+  if (rules.requireWeeklyDayOff) {
+    const workedDateKeys = new Set<string>();
+    sorted.forEach(interval => {
+      getWorkedDateKeys(interval).forEach(key => workedDateKeys.add(key));
+    });
+
+    const periodStart = startOfDay(options.period?.startDate || sorted[0].date);
+    const periodEnd = startOfDay(options.period?.endDate || sorted[sorted.length - 1].date);
+    let weekStartDate = startOfWeek(periodStart, weekStartsOn);
+    if (weekStartDate.getTime() < periodStart.getTime()) {
+      weekStartDate = new Date(weekStartDate.getFullYear(), weekStartDate.getMonth(), weekStartDate.getDate() + 7);
+    }
+
+    while (true) {
+      const weekEndDate = new Date(weekStartDate.getFullYear(), weekStartDate.getMonth(), weekStartDate.getDate() + 6);
+      if (weekEndDate.getTime() > periodEnd.getTime()) break;
+
+      const hasDayOff = shiftService
+        .getDatesInRange(weekStartDate, weekEndDate)
+        .some(date => !workedDateKeys.has(shiftService.formatDateKey(date)));
+
+      if (!hasDayOff) {
+        findings.push({
+          type: 'noWeeklyDayOff',
+          userId: employee.id,
+          source,
+          message: `${employee.name}さんの${shiftService.formatDateKey(weekStartDate)}からの週に休日がありません`,
+          weekStartDate
+        });
+      }
+
+      weekStartDate = new Date(weekStartDate.getFullYear(), weekStartDate.getMonth(), weekStartDate.getDate() + 7);
+    }
+  }
+
+  // 勤務間インターバル（勤務日が異なる勤務の間のみ判定）
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const next = sorted[i];
+    if (shiftService.formatDateKey(previous.date) === shiftService.formatDateKey(next.date)) continue;
+
+    const restMinutes = minutesBetween(previous.end, next.start);
+    // 重なっている勤務は二重登録として別途判定
+    if (restMinutes < 0) continue;
+
+    if (restMinutes < rules.minRestIntervalMinutes) {
+      findings.push({
+        type: 'shortRestInterval',
+        userId: employee.id,
+        source,
+        message: `${employee.name}さんの${shiftService.formatDateKey(next.date)}の勤務まで休息が${Math.round(restMinutes / 6) / 10}時間しかありません（必要: ${rules.minRestIntervalMinutes / 60}時間）`,
+        date: next.date,
+        previousEndTime: previous.end,
+        nextStartTime: next.start,
+        restMinutes,
+        requiredRestMinutes: rules.minRestIntervalMinutes
+      });
+    }
+  }
+
+  return findings;
+};
+
+// 従業員ごとに勤務をまとめて判定
+const checkIntervals = (
+  intervals: WorkInterval[],
+  employees: User[],
+  source: LaborComplianceSource,
+  options: LaborComplianceOptions
+): LaborComplianceFinding[] => {
+  return employees.flatMap(employee =>
+    checkEmployeeIntervals(
+      employee,
+      intervals.filter(interval => interval.userId === employee.id),
+      source,
+      options
+    )
+  );
+};
+
+// 予定シフトの判定（休憩は法定どおり取る前提で労働時間を算出）
+export const checkShiftCompliance = (
+  shifts: Array<Omit<Shift, 'id'> & { id?: string }>,
+  employees: User[],
+  options: LaborComplianceOptions = {}
+): LaborComplianceFinding[] => {
+  const employeeMap = new Map(employees.map(employee => [employee.id, employee]));
+
+  const intervals: WorkInterval[] = shifts
+    .filter(shift =>
+      employeeMap.has(shift.userId) &&
+      shiftService.isValidTimeString(shift.startTime) &&
+      shiftService.isValidTimeString(shift.endTime)
+    )
+    .map(shift => {
+      const employee = employeeMap.get(shift.userId) as User;
+      const rules = getLaborRules(employee.employmentType, options.rules);
+      const grossMinutes = shiftService.getShiftDurationInMinutes(shift);
+      return {
+        userId: shift.userId,
+        date: shift.date,
+        start: shiftService.getShiftStartDateTime(shift),
+        end: shiftService.getShiftEndDateTime(shift),
+        breakMinutes: estimateBreakMinutes(rules, grossMinutes),
+        checkBreak: false
+      };
+    });
+
+  return checkIntervals(intervals, employees, 'shift', options);
+};
+
+// 勤怠記録の判定（退勤済みの記録のみ）
+export const checkAttendanceCompliance = (
+  attendances: Attendance[],
+  employees: User[],
+  options: LaborComplianceOptions = {}
+): LaborComplianceFinding[] => {
+  const intervals: WorkInterval[] = attendances
+    .filter(attendance => !!attendance.clockOutTime)
+    .map(attendance => ({
+      userId: attendance.userId,
+      date: attendance.date,
+      start: attendance.clockInTime,
+      end: attendance.clockOutTime as Date,
+      breakMinutes: attendance.breakTimes.reduce(
+        (total, breakTime) => breakTime.endTime
+          ? total + minutesBetween(breakTime.startTime, breakTime.endTime)
+          : total,
+        0
+      ),
+      checkBreak: true
+    }));
+
+  return checkIntervals(intervals, employees, 'attendance', options);
+};
+
+// 従業員ごとにまとめる
+export const groupFindingsByEmployee = (
+  findings: LaborComplianceFinding[]
+): Record<string, LaborComplianceFinding[]> => {
+  const grouped: Record<string, LaborComplianceFinding[]> = {};
+  findings.forEach(finding => {
+    grouped[finding.userId] = [...(grouped[finding.userId] || []), finding];
+  });
+  return grouped;
+};
+
+export default {
+  getLaborRules,
+  getRequiredBreakMinutes,
+  checkShiftCompliance,
+  checkAttendanceCompliance,
+  groupFindingsByEmployee
+};
@@ -0,0 +1,327 @@
+// src/services/llmProviderService.ts
+// LLMの呼び出しを抽象化（OpenAI・OpenAI互換のローカルエンドポイント・テスト用のモック）
+import OpenAI from 'openai';
+import * as openaiService from './openaiService';
+
+// ツール呼び出し
+export interface LLMToolCall {
+  /** 呼び出しID（ツールの結果と対応づける） */
+  id: string;
+  name: string;
+  /** 引数（JSON文字列） */
+  arguments: string;
+}
+
+// メッセージ
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** assistantが要求したツール呼び出し */
+  toolCalls?: LLMToolCall[];
+  /** toolメッセージが応答する呼び出しID */
+  toolCallId?: string;
+}
+
+// ツール定義（JSON Schema形式のパラメータ）
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+// チャットのリクエスト
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  /** 指定しない場合はプロバイダーの既定のモデル */
+  model?: string;
+}
+
+// チャットのオプション
+export interface LLMChatOptions {
+  /** 指定した場合はストリーミングで受信し、本文の差分ごとに呼び出す */
+  onToken?: (delta: string) => void;
+  /** 中断用のシグナル（中断時はnameがAbortErrorのエラー） */
+  signal?: AbortSignal;
+}
+
+// チャットの応答
+export interface LLMChatResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+// JSONモードのリクエスト
+export interface LLMJSONRequest {
+  messages: LLMMessage[];
+  model?: string;
+}
+
+// LLMプロバイダー
+export interface LLMProvider {
+  name: string;
+  /** ツール呼び出しを含むチャット */
+  chat: (request: LLMChatRequest, options?: LLMChatOptions) => Promise<LLMChatResult>;
+  /** JSONオブジェクトを返す補完（応答はJSON文字列） */
+  completeJSON: (request: LLMJSONRequest) => Promise<string>;
+}
+
+// OpenAI互換エンドポイントの設定
+export interface OpenAICompatibleProviderConfig {
+  /** 例: http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  name?: string;
+}
+
+// モックの応答（関数の場合はリクエストから応答を作成）
+export type ScriptedLLMStep =
+  | LLMChatResult
+  | ((request: LLMChatRequest | LLMJSONRequest) => LLMChatResult);
+
+// モックのプロバイダー（受け取ったリクエストを記録）
+export interface ScriptedLLMProvider extends LLMProvider {
+  requests: Array<LLMChatRequest | LLMJSONRequest>;
+  /** 未使用の応答の数 */
+  remaining: () => number;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+// OpenAIのメッセージ形式に変換
+const toOpenAIMessages = (messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] => {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId || '',
+        content: message.content
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(toolCall => ({
+          id: toolCall.id,
+          type: 'function',
+          function: { name: toolCall.name, arguments: toolCall.arguments }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content } as OpenAI.Chat.ChatCompletionMessageParam;
+  });
+};
+
+// OpenAIの応答から変換
+const fromOpenAICompletion = (completion: OpenAI.Chat.ChatCompletion): LLMChatResult => {
+  const message = completion.choices[0]?.message;
+  if (!message) {
+    throw new Error('Empty response from LLM');
+  }
+
+  return {
+    content: message.content || '',
+    toolCalls: (message.tool_calls || []).map(toolCall => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments
+    }))
+  };
+};
+
+// ストリーミングのチャンクを応答にまとめる
+// ツール呼び出しはindexごとに引数の断片が届くため連結する
+const accumulateChunks = () => {
+  let content = '';
+  const toolCalls: LLMToolCall[] = [];
+
+  return {
+    add: (chunk: OpenAI.Chat.ChatCompletionChunk): string => {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) return '';
+
+      (delta.tool_calls || []).forEach(toolCallDelta => {
+        const toolCall = toolCalls[toolCallDelta.index] ||
+          (toolCalls[toolCallDelta.index] = { id: '', name: '', arguments: '' });
+        if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+        if (toolCallDelta.function?.name) toolCall.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) toolCall.arguments += toolCallDelta.function.arguments;
+      });
+
+      content += delta.content || '';
+      return delta.content || '';
+    },
+    result: (): LLMChatResult => ({ content, toolCalls: toolCalls.filter(Boolean) })
+  };
+};
+
+// OpenAI形式のAPIへの送信
+interface OpenAIWireTransport {
+  send: (params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming) => Promise<OpenAI.Chat.ChatCompletion>;
+  stream: (
+    params: openaiService.ChatCompletionStreamParams,
+    onChunk: (chunk: OpenAI.Chat.ChatCompletionChunk) => void,
+    signal?: AbortSignal
+  ) => Promise<void>;
+}
+
+// OpenAI形式のAPIを使うプロバイダーの共通部分
+const createOpenAIWireProvider = (
+  name: string,
+  defaultModel: string,
+  transport: OpenAIWireTransport
+): LLMProvider => ({
+  name,
+
+  chat: async (request, options = {}) => {
+    const tools = request.tools || [];
+    const params = {
+      model: request.model || defaultModel,
+      messages: toOpenAIMessages(request.messages),
+      ...(tools.length > 0 && {
+        tools: tools.map(tool => ({ type: 'function' as const, function: tool })),
+        tool_choice: 'auto' as const
+      })
+    };
+
+    if (!options.onToken) {
+      return fromOpenAICompletion(await transport.send(params));
+    }
+
+    const onToken = options.onToken;
+    const accumulator = accumulateChunks();
+    await transport.stream(params, chunk => {
+      const delta = accumulator.add(chunk);
+      if (delta) onToken(delta);
+    }, options.signal);
+    return accumulator.result();
+  },
+
+  completeJSON: async request => {
+    const completion = await transport.send({
+      model: request.model || defaultModel,
+      messages: toOpenAIMessages(request.messages),
+      response_format: { type: 'json_object' }
+    });
+    return fromOpenAICompletion(completion).content || '{}';
+  }
+});
+
+// OpenAI（Electronのメインプロセスまたは開発用プロキシ経由）
+export const createOpenAIProvider = (model: string = DEFAULT_OPENAI_MODEL): LLMProvider =>
+  createOpenAIWireProvider('openai', model, {
+    send: openaiService.createChatCompletion,
+    stream: openaiService.streamChatCompletion
+  });
+
+// OpenAI互換のローカルエンドポイント（社内サーバーのモデルなど）
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleProviderConfig): LLMProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (params: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+      },
+      body: JSON.stringify(params),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request to ${endpoint} failed: ${response.status} ${await response.text()}`);
+    }
+
+    return response;
+  };
+
+  return createOpenAIWireProvider(config.name || 'openai-compatible', config.model, {
+    send: async params => (await post(params)).json(),
+    stream: async (params, onChunk, signal) => {
+      const response = await post({ ...params, stream: true }, signal);
+      await openaiService.readChatCompletionStream(response, onChunk);
+    }
+  });
+};
+
+// テスト用のモック（用意した応答を順番に返す、ネットワークは使用しない）
+export const createScriptedLLMProvider = (steps: ScriptedLLMStep[]): ScriptedLLMProvider => {
+  const queue = [...steps];
+  const requests: Array<LLMChatRequest | LLMJSONRequest> = [];
+
+  const next = (request: LLMChatRequest | LLMJSONRequest): LLMChatResult => {
+    requests.push(request);
+    const step = queue.shift();
+    if (!step) {
+      throw new Error(`Scripted LLM provider has no response for request #${requests.length}`);
+    }
+    const result = typeof step === 'function' ? step(request) : step;
+    return { content: result.content, toolCalls: result.toolCalls || [] };
+  };
+
+  return {
+    name: 'scripted',
+    requests,
+    remaining: () => queue.length,
+    chat: async (request, options = {}) => {
+      if (options.signal?.aborted) {
+        throw openaiService.createAbortError();
+      }
+
+      const result = next(request);
+
+      // ストリーミングの場合は1文字ずつ送信
+      if (options.onToken) {
+        for (const char of Array.from(result.content)) {
+          if (options.signal?.aborted) {
+            throw openaiService.createAbortError();
+          }
+          options.onToken(char);
+        }
+      }
+
+      return result;
+    },
+    completeJSON: async request => next(request).content
+  };
+};
+
+// 環境変数REACT_APP_LLM_BASE_URLが設定されている場合はローカルエンドポイントを使用
+const createDefaultProvider = (): LLMProvider => {
+  const baseUrl = process.env.REACT_APP_LLM_BASE_URL;
+  if (baseUrl) {
+    return createOpenAICompatibleProvider({
+      baseUrl,
+      model: process.env.REACT_APP_LLM_MODEL || DEFAULT_OPENAI_MODEL
+    });
+  }
+  return createOpenAIProvider();
+};
+
+let activeProvider: LLMProvider | null = null;
+
+// 使用中のプロバイダー
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+// プロバイダーの切り替え（nullで既定に戻す）
+export const setLLMProvider = (provider: LLMProvider | null): void => {
+  activeProvider = provider;
+};
+
+export default {
+  createOpenAIProvider,
+  createOpenAICompatibleProvider,
+  createScriptedLLMProvider,
+  getLLMProvider,
+  setLLMProvider
+};
@@ -0,0 +1,186 @@
+// src/services/openaiService.ts
+// OpenAI APIの呼び出し窓口
+// APIキーをレンダラーのバンドルに含めないため、Electronではメインプロセス（IPC）、
+// ブラウザの開発環境ではローカルのプロキシ（src/setupProxy.js）を経由する
+import OpenAI from 'openai';
+
+// 開発用プロキシのエンドポイント
+const DEV_PROXY_ENDPOINT = '/api/openai/chat/completions';
+
+// Electron上で実行されているか
+export const isElectron = (): boolean => !!window.electronAPI;
+
+// チャット補完
+export const createChatCompletion = async (
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming
+): Promise<OpenAI.Chat.ChatCompletion> => {
+  try {
+    if (window.electronAPI) {
+      return await window.electronAPI.openai.createChatCompletion(params);
+    }
+
+    const response = await fetch(DEV_PROXY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI proxy request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating chat completion:', error);
+    throw error;
+  }
+};
+
+// ストリーミングのパラメータ（streamは自動で指定）
+export type ChatCompletionStreamParams = Omit<OpenAI.Chat.ChatCompletionCreateParamsStreaming, 'stream'>;
+
+// 中断時のエラー（fetchの中断と同じname）
+export const createAbortError = (): Error => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Server-Sent Events形式のチャット補完を読み込み（OpenAI互換のエンドポイント共通）
+export const readChatCompletionStream = async (
+  response: Response,
+  onChunk: (chunk: OpenAI.Chat.ChatCompletionChunk) => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+      onChunk(JSON.parse(data));
+    }
+  }
+};
+
+// ストリーミングのチャット補完（チャンクごとにonChunkを呼び出す、signalで中断）
+export const streamChatCompletion = async (
+  params: ChatCompletionStreamParams,
+  onChunk: (chunk: OpenAI.Chat.ChatCompletionChunk) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  try {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const electronAPI = window.electronAPI;
+    if (electronAPI) {
+      const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const unsubscribe = electronAPI.openai.onChatCompletionChunk((id, chunk) => {
+        if (id === requestId && !signal?.aborted) {
+          onChunk(chunk);
+        }
+      });
+      const cancel = () => {
+        electronAPI.openai.cancelChatCompletion(requestId);
+      };
+      signal?.addEventListener('abort', cancel);
+
+      try {
+        await electronAPI.openai.streamChatCompletion(requestId, params);
+      } finally {
+        unsubscribe();
+        signal?.removeEventListener('abort', cancel);
+      }
+
+      // メインプロセス側は中断しても正常終了するため、ここで判定
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      return;
+    }
+
+    const response = await fetch(DEV_PROXY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...params, stream: true }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI proxy request failed: ${response.status} ${await response.text()}`);
+    }
+
+    await readChatCompletionStream(response, onChunk);
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error streaming chat completion:', error);
+    }
+    throw error;
+  }
+};
+
+// APIキーが設定済みかどうか（ブラウザではプロキシ側の環境変数で管理するため常にtrue）
+export const hasApiKey = async (): Promise<boolean> => {
+  try {
+    return window.electronAPI ? await window.electronAPI.openai.hasApiKey() : true;
+  } catch (error) {
+    console.error('Error checking OpenAI API key:', error);
+    throw error;
+  }
+};
+
+// APIキーの保存（Electronのみ）
+export const setApiKey = async (apiKey: string): Promise<void> => {
+  try {
+    if (!window.electronAPI) {
+      throw new Error('API key can only be stored in the desktop app');
+    }
+    await window.electronAPI.openai.setApiKey(apiKey);
+  } catch (error) {
+    console.error('Error saving OpenAI API key:', error);
+    throw error;
+  }
+};
+
+// APIキーの削除（Electronのみ）
+export const clearApiKey = async (): Promise<void> => {
+  try {
+    if (!window.electronAPI) {
+      throw new Error('API key can only be cleared in the desktop app');
+    }
+    await window.electronAPI.openai.clearApiKey();
+  } catch (error) {
+    console.error('Error clearing OpenAI API key:', error);
+    throw error;
+  }
+};
+
+export default {
+  isElectron,
+  createChatCompletion,
+  streamChatCompletion,
+  readChatCompletionStream,
+  hasApiKey,
+  setApiKey,
+  clearApiKey
+};
@@ -0,0 +1,136 @@
+import {
+  calculateEmployeePayroll,
+  calculatePayrollMinutes,
+  exportPayrollCsv,
+  resolvePayRates
+} from './payrollService';
+import { createTestUser } from './testFixtures';
+import { Attendance } from '../types/models';
+
+const employee = createTestUser('user1', { name: '岩井 太郎' });
+
+const rates = { hourlyWage: 1200, overtimePremium: 0.25, lateNightPremium: 0.25, holidayPremium: 0.35 };
+
+// 2025年4月（4/6・4/13が日曜日）
+const at = (day: number, hours: number, minutes: number = 0): Date => new Date(2025, 3, day, hours, minutes);
+
+const attendance = (
+  clockIn: Date,
+  clockOut: Date,
+  breakTime?: { start: Date; end: Date }
+): Attendance => ({
+  id: `attendance-${clockIn.getTime()}`,
+  userId: 'user1',
+  date: new Date(clockIn.getFullYear(), clockIn.getMonth(), clockIn.getDate()),
+  clockInTime: clockIn,
+  clockOutTime: clockOut,
+  breakTimes: breakTime ? [{ startTime: breakTime.start, endTime: breakTime.end }] : [],
+  storeId: 'store1',
+  status: 'normal'
+});
+
+describe('calculatePayrollMinutes', () => {
+  test('counts minutes over the daily limit as overtime', () => {
+    const minutes = calculatePayrollMinutes([
+      attendance(at(8, 9), at(8, 19), { start: at(8, 12), end: at(8, 13) })
+    ]);
+
+    expect(minutes).toEqual({
+      totalMinutes: 9 * 60,
+      regularMinutes: 8 * 60,
+      overtimeMinutes: 60,
+      lateNightMinutes: 0,
+      holidayMinutes: 0
+    });
+  });
+
+  test('counts late-night minutes on top of the other categories', () => {
+    const minutes = calculatePayrollMinutes([attendance(at(8, 18), at(8, 23, 30))]);
+
+    expect(minutes.totalMinutes).toBe(5 * 60 + 30);
+    expect(minutes.regularMinutes).toBe(5 * 60 + 30);
+    expect(minutes.lateNightMinutes).toBe(90);
+  });
+
+  test('splits an overnight shift into the legal holiday by calendar day', () => {
+    // 土曜20時〜日曜2時：0時以降は法定休日、22時以降は深夜
+    const minutes = calculatePayrollMinutes([attendance(at(12, 20), at(13, 2))]);
+
+    expect(minutes).toEqual({
+      totalMinutes: 6 * 60,
+      regularMinutes: 4 * 60,
+      overtimeMinutes: 0,
+      lateNightMinutes: 4 * 60,
+      holidayMinutes: 2 * 60
+    });
+  });
+
+  test('counts minutes over the weekly limit as overtime', () => {
+    const attendances = [7, 8, 9, 10, 11, 12].map(day => attendance(at(day, 9), at(day, 17)));
+
+    const minutes = calculatePayrollMinutes(attendances);
+
+    expect(minutes.totalMinutes).toBe(48 * 60);
+    expect(minutes.regularMinutes).toBe(40 * 60);
+    expect(minutes.overtimeMinutes).toBe(8 * 60);
+  });
+
+  test('uses days before countFrom only for the weekly total', () => {
+    // 3/31（月）〜4/5（土）の6日間、4/1から集計
+    const attendances = [
+      attendance(new Date(2025, 2, 31, 9), new Date(2025, 2, 31, 17)),
+      ...[1, 2, 3, 4, 5].map(day => attendance(at(day, 9), at(day, 17)))
+    ];
+
+    const minutes = calculatePayrollMinutes(attendances, {}, new Date(2025, 3, 1));
+
+    expect(minutes.totalMinutes).toBe(5 * 8 * 60);
+    expect(minutes.regularMinutes).toBe(4 * 8 * 60);
+    expect(minutes.overtimeMinutes).toBe(8 * 60);
+  });
+
+  test('ignores attendances without a clock-out', () => {
+    const openAttendance = { ...attendance(at(8, 9), at(8, 17)), clockOutTime: undefined };
+
+    expect(calculatePayrollMinutes([openAttendance]).totalMinutes).toBe(0);
+  });
+});
+
+describe('calculateEmployeePayroll', () => {
+  test('applies the premiums to each category', () => {
+    const entry = calculateEmployeePayroll(employee, [attendance(at(12, 20), at(13, 2))], rates);
+
+    expect(entry).toMatchObject({
+      workDays: 1,
+      basePay: 7200,
+      overtimePay: 0,
+      lateNightPay: 1200,
+      holidayPay: 840,
+      totalPay: 9240
+    });
+  });
+
+  test('prefers the employee pay rates over the employment type rates', () => {
+    expect(resolvePayRates({ ...employee, payRates: { hourlyWage: 1500 } }, rates)).toEqual({
+      ...rates,
+      hourlyWage: 1500
+    });
+  });
+});
+
+describe('exportPayrollCsv', () => {
+  test('writes hours with two decimals and escapes values', () => {
+    const entry = calculateEmployeePayroll(
+      { ...employee, name: '岩井, 太郎' },
+      [attendance(at(8, 9), at(8, 9, 20))],
+      rates
+    );
+
+    const csv = exportPayrollCsv([entry], { includeBom: true });
+    const [header, row] = csv.slice(1).split('\r\n');
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(header.split(',')[0]).toBe('従業員ID');
+    expect(row).toBe('user1,"岩井, 太郎",パート・アルバイト,1,0.33,0.33,0,0,0,1200,400,0,0,0,400');
+  });
+});
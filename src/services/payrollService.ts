@@ -0,0 +1,356 @@
+// src/services/payrollService.ts
+import { Attendance, User, PayRates, PayrollSettings } from '../types/models';
+import * as firestoreService from './firestoreService';
+import * as userService from './userService';
+import * as attendanceService from './attendanceService';
+import * as shiftService from './shiftService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'payrollSettings';
+
+// デフォルトの時給・割増率（時間外25%、深夜25%、法定休日35%）
+export const DEFAULT_PAY_RATES: PayRates = {
+  hourlyWage: 1100,
+  overtimePremium: 0.25,
+  lateNightPremium: 0.25,
+  holidayPremium: 0.35
+};
+
+// 集計のオプション
+export interface PayrollOptions {
+  /** 1日の法定労働時間（分、デフォルト: 8時間） */
+  dailyLimitMinutes?: number;
+  /** 1週間の法定労働時間（分、デフォルト: 40時間） */
+  weeklyLimitMinutes?: number;
+  /** 週の開始曜日（0: 日曜日〜6: 土曜日、デフォルト: 日曜日） */
+  weekStartsOn?: number;
+  /** 法定休日の曜日（0: 日曜日〜6: 土曜日、デフォルト: 日曜日） */
+  legalHolidayWeekday?: number;
+  /** 深夜時間帯の開始・終了（時、デフォルト: 22時〜5時） */
+  lateNightStartHour?: number;
+  lateNightEndHour?: number;
+}
+
+// 区分ごとの労働時間（分）
+// regular + overtime + holiday = total、lateNightはそれらと重複して計上
+export interface PayrollMinutes {
+  totalMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  lateNightMinutes: number;
+  holidayMinutes: number;
+}
+
+// 従業員ごとの給与計算用データ
+export interface PayrollEntry extends PayrollMinutes {
+  userId: string;
+  userName: string;
+  employmentType: User['employmentType'];
+  workDays: number;
+  rates: PayRates;
+  basePay: number;
+  overtimePay: number;
+  lateNightPay: number;
+  holidayPay: number;
+  totalPay: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// 日付（時刻なし）
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 週の開始日
+const startOfWeek = (date: Date, weekStartsOn: number): Date => {
+  const day = startOfDay(date);
+  const diff = (day.getDay() - weekStartsOn + 7) % 7;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - diff);
+};
+
+// 深夜時間帯か（開始時が終了時より大きい場合は日付をまたぐ時間帯）
+const isLateNight = (time: Date, startHour: number, endHour: number): boolean => {
+  const hour = time.getHours();
+  return startHour > endHour
+    ? hour >= startHour || hour < endHour
+    : hour >= startHour && hour < endHour;
+};
+
+// 時間を小数第2位までに丸める
+const toHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
+
+// 雇用形態ごとの給与設定取得（未設定の項目はデフォルト値）
+export const getPayrollSettings = async (employmentType: User['employmentType']): Promise<PayRates> => {
+  try {
+    const settings = await firestoreService.getDocument<PayrollSettings>(COLLECTION_NAME, employmentType);
+    return {
+      ...DEFAULT_PAY_RATES,
+      ...(settings ? {
+        hourlyWage: settings.hourlyWage,
+        overtimePremium: settings.overtimePremium,
+        lateNightPremium: settings.lateNightPremium,
+        holidayPremium: settings.holidayPremium
+      } : {})
+    };
+  } catch (error) {
+    console.error('Error fetching payroll settings:', error);
+    throw error;
+  }
+};
+
+// 雇用形態ごとの給与設定更新
+export const updatePayrollSettings = async (
+  employmentType: User['employmentType'],
+  rates: Partial<PayRates>
+): Promise<void> => {
+  try {
+    const current = await getPayrollSettings(employmentType);
+    await firestoreService.setDocument<PayrollSettings>(
+      COLLECTION_NAME,
+      { ...current, ...rates, id: employmentType },
+      employmentType
+    );
+  } catch (error) {
+    console.error('Error updating payroll settings:', error);
+    throw error;
+  }
+};
+
+// 従業員個別の設定を雇用形態の設定に重ねる
+export const resolvePayRates = (user: User, employmentTypeRates: PayRates): PayRates => {
+  return {
+    ...employmentTypeRates,
+    ...(user.payRates || {})
+  };
+};
+
+// 勤怠記録から区分ごとの労働時間を集計
+// 時間外は1日の法定労働時間超、または週の法定労働時間超（1日の時間外を除く）
+// 法定休日の労働は時間外に含めず休日労働として計上
+// countFromが指定された場合、それより前の勤務日は週の労働時間の累計にのみ使用
+export const calculatePayrollMinutes = (
+  attendances: Attendance[],
+  options: PayrollOptions = {},
+  countFrom?: Date
+): PayrollMinutes => {
+  const dailyLimitMinutes = options.dailyLimitMinutes ?? 8 * 60;
+  const weeklyLimitMinutes = options.weeklyLimitMinutes ?? 40 * 60;
+  const weekStartsOn = options.weekStartsOn ?? 0;
+  const legalHolidayWeekday = options.legalHolidayWeekday ?? 0;
+  const lateNightStartHour = options.lateNightStartHour ?? 22;
+  const lateNightEndHour = options.lateNightEndHour ?? 5;
+
+  const result: PayrollMinutes = {
+    totalMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+    lateNightMinutes: 0,
+    holidayMinutes: 0
+  };
+
+  const dailyMinutes = new Map<string, number>();
+  const weeklyMinutes = new Map<string, number>();
+
+  const sorted = attendances
+    .filter(attendance => !!attendance.clockOutTime)
+    .sort((a, b) => a.clockInTime.getTime() - b.clockInTime.getTime());
+
+  sorted.forEach(attendance => {
+    const clockOutTime = attendance.clockOutTime as Date;
+    const dateKey = shiftService.formatDateKey(attendance.date);
+    const weekKey = shiftService.formatDateKey(startOfWeek(attendance.date, weekStartsOn));
+    const counted = !countFrom || startOfDay(attendance.date).getTime() >= startOfDay(countFrom).getTime();
+
+    const breaks = attendance.breakTimes
+      .filter(breakTime => !!breakTime.endTime)
+      .map(breakTime => ({
+        start: breakTime.startTime.getTime(),
+        end: (breakTime.endTime as Date).getTime()
+      }));
+
+    // 1分ごとに区分を判定
+    for (let time = attendance.clockInTime.getTime(); time + MINUTE_MS <= clockOutTime.getTime(); time += MINUTE_MS) {
+      if (breaks.some(breakTime => breakTime.start <= time && time < breakTime.end)) continue;
+
+      const minute = new Date(time);
+      // 法定休日は暦日で判定（前日からの勤務が0時を過ぎた部分も休日労働）
+      const isHoliday = minute.getDay() === legalHolidayWeekday;
+
+      let category: 'regular' | 'overtime' | 'holiday';
+      if (isHoliday) {
+        category = 'holiday';
+      } else {
+        const day = (dailyMinutes.get(dateKey) || 0) + 1;
+        dailyMinutes.set(dateKey, day);
+
+        if (day > dailyLimitMinutes) {
+          category = 'overtime';
+        } else {
+          const week = (weeklyMinutes.get(weekKey) || 0) + 1;
+          weeklyMinutes.set(weekKey, week);
+          category = week > weeklyLimitMinutes ? 'overtime' : 'regular';
+        }
+      }
+
+      if (!counted) continue;
+
+      result.totalMinutes++;
+      if (category === 'holiday') {
+        result.holidayMinutes++;
+      } else if (category === 'overtime') {
+        result.overtimeMinutes++;
+      } else {
+        result.regularMinutes++;
+      }
+
+      if (isLateNight(minute, lateNightStartHour, lateNightEndHour)) {
+        result.lateNightMinutes++;
+      }
+    }
+  });
+
+  return result;
+};
+
+// 従業員の給与計算用データ作成（金額は円未満を四捨五入）
+export const calculateEmployeePayroll = (
+  user: User,
+  attendances: Attendance[],
+  rates: PayRates,
+  options: PayrollOptions = {},
+  countFrom?: Date
+): PayrollEntry => {
+  const minutes = calculatePayrollMinutes(attendances, options, countFrom);
+  const workDays = new Set(
+    attendances
+      .filter(attendance => !!attendance.clockOutTime)
+      .filter(attendance => !countFrom || startOfDay(attendance.date).getTime() >= startOfDay(countFrom).getTime())
+      .map(attendance => shiftService.formatDateKey(attendance.date))
+  ).size;
+
+  const hourlyPay = (value: number, multiplier: number): number =>
+    Math.round((value / 60) * rates.hourlyWage * multiplier);
+
+  const basePay = hourlyPay(minutes.totalMinutes, 1);
+  const overtimePay = hourlyPay(minutes.overtimeMinutes, rates.overtimePremium);
+  const lateNightPay = hourlyPay(minutes.lateNightMinutes, rates.lateNightPremium);
+  const holidayPay = hourlyPay(minutes.holidayMinutes, rates.holidayPremium);
+
+  return {
+    userId: user.id,
+    userName: user.name,
+    employmentType: user.employmentType,
+    workDays,
+    rates,
+    ...minutes,
+    basePay,
+    overtimePay,
+    lateNightPay,
+    holidayPay,
+    totalPay: basePay + overtimePay + lateNightPay + holidayPay
+  };
+};
+
+// 月間の給与計算用データ（全従業員）
+// 月をまたぐ週の時間外を判定するため、月初を含む週の開始日から勤怠記録を取得する
+export const getMonthlyPayroll = async (
+  year: number,
+  month: number,
+  options: PayrollOptions = {}
+): Promise<PayrollEntry[]> => {
+  try {
+    const monthStart = new Date(year, month - 1, 1);
+    const monthEnd = new Date(year, month, 0, 23, 59, 59, 999);
+    const fetchStart = startOfWeek(monthStart, options.weekStartsOn ?? 0);
+
+    const users = await userService.getAllUsers();
+
+    // 雇用形態ごとの設定をまとめて取得
+    const employmentTypes = Array.from(new Set(users.map(user => user.employmentType)));
+    const settingsList = await Promise.all(employmentTypes.map(type => getPayrollSettings(type)));
+    const settingsMap = new Map(employmentTypes.map((type, index) => [type, settingsList[index]]));
+
+    const entries = await Promise.all(users.map(async user => {
+      const attendances = await attendanceService.getUserAttendancesForPeriod(user.id, fetchStart, monthEnd);
+      const rates = resolvePayRates(user, settingsMap.get(user.employmentType) || DEFAULT_PAY_RATES);
+      return calculateEmployeePayroll(user, attendances, rates, options, monthStart);
+    }));
+
+    // 勤務のない従業員は除外
+    return entries.filter(entry => entry.totalMinutes > 0);
+  } catch (error) {
+    console.error('Error calculating monthly payroll:', error);
+    throw error;
+  }
+};
+
+// CSVの値をエスケープ
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const EMPLOYMENT_TYPE_LABELS: Record<User['employmentType'], string> = {
+  fulltime: '正社員',
+  parttime: 'パート・アルバイト',
+  temporary: '臨時'
+};
+
+// 給与ソフト取り込み用のCSVを作成（時間は小数第2位までの時間単位）
+// includeBomを指定するとExcelで文字化けしないようBOMを付与
+export const exportPayrollCsv = (
+  entries: PayrollEntry[],
+  options: { includeBom?: boolean } = {}
+): string => {
+  const header = [
+    '従業員ID',
+    '氏名',
+    '雇用形態',
+    '勤務日数',
+    '総労働時間',
+    '通常労働時間',
+    '時間外労働時間',
+    '深夜労働時間',
+    '法定休日労働時間',
+    '時給',
+    '基本給',
+    '時間外手当',
+    '深夜手当',
+    '休日手当',
+    '支給合計'
+  ];
+
+  const rows = entries.map(entry => [
+    entry.userId,
+    entry.userName,
+    EMPLOYMENT_TYPE_LABELS[entry.employmentType],
+    entry.workDays,
+    toHours(entry.totalMinutes),
+    toHours(entry.regularMinutes),
+    toHours(entry.overtimeMinutes),
+    toHours(entry.lateNightMinutes),
+    toHours(entry.holidayMinutes),
+    entry.rates.hourlyWage,
+    entry.basePay,
+    entry.overtimePay,
+    entry.lateNightPay,
+    entry.holidayPay,
+    entry.totalPay
+  ]);
+
+  const csv = [header, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+
+  return options.includeBom ? `\uFEFF${csv}` : csv;
+};
+
+export default {
+  getPayrollSettings,
+  updatePayrollSettings,
+  resolvePayRates,
+  calculatePayrollMinutes,
+  calculateEmployeePayroll,
+  getMonthlyPayroll,
+  exportPayrollCsv
+};
@@ -0,0 +1,72 @@
+// src/services/preferenceProfileService.ts
+import { PreferenceProfile, ShiftPreference } from '../types/models';
+import * as firestoreService from './firestoreService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'preferenceProfiles';
+
+// 標準プロフィール取得（IDはユーザーID）
+export const getPreferenceProfile = async (userId: string): Promise<PreferenceProfile | null> => {
+  try {
+    return await firestoreService.getDocument<PreferenceProfile>(COLLECTION_NAME, userId);
+  } catch (error) {
+    console.error('Error fetching preference profile:', error);
+    throw error;
+  }
+};
+
+// 標準プロフィールの作成/更新
+export const savePreferenceProfile = async (
+  userId: string,
+  profile: Omit<PreferenceProfile, 'id' | 'userId'>
+): Promise<string> => {
+  try {
+    // Firestoreはundefinedを保存できないため、未設定の項目は除外
+    const profileToSave: Omit<PreferenceProfile, 'id'> = {
+      userId,
+      desiredDaysPerWeek: profile.desiredDaysPerWeek,
+      preferredWeekdays: profile.preferredWeekdays,
+      notes: profile.notes,
+      ...(profile.weekdayAvailability && { weekdayAvailability: profile.weekdayAvailability }),
+      ...(profile.preferredStoreIds && { preferredStoreIds: profile.preferredStoreIds })
+    };
+
+    return await firestoreService.setDocument<any>(COLLECTION_NAME, profileToSave as any, userId);
+  } catch (error) {
+    console.error('Error saving preference profile:', error);
+    throw error;
+  }
+};
+
+// 月のシフト希望を標準プロフィールとして保存（日付ごとの項目は含めない）
+export const savePreferenceProfileFromPreference = async (preference: ShiftPreference): Promise<string> => {
+  try {
+    return await savePreferenceProfile(preference.userId, {
+      desiredDaysPerWeek: preference.desiredDaysPerWeek,
+      preferredWeekdays: preference.preferredWeekdays,
+      weekdayAvailability: preference.weekdayAvailability,
+      preferredStoreIds: preference.preferredStoreIds,
+      notes: preference.notes
+    });
+  } catch (error) {
+    console.error('Error saving preference profile from preference:', error);
+    throw error;
+  }
+};
+
+// 標準プロフィール削除
+export const deletePreferenceProfile = async (userId: string): Promise<void> => {
+  try {
+    await firestoreService.deleteDocument(COLLECTION_NAME, userId);
+  } catch (error) {
+    console.error('Error deleting preference profile:', error);
+    throw error;
+  }
+};
+
+export default {
+  getPreferenceProfile,
+  savePreferenceProfile,
+  savePreferenceProfileFromPreference,
+  deletePreferenceProfile
+};
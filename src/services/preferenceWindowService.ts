@@ -0,0 +1,254 @@
+// src/services/preferenceWindowService.ts
+import { Timestamp } from 'firebase/firestore';
+import { PreferenceWindow, PreferenceWindowReopening } from '../types/models';
+import * as firestoreService from './firestoreService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'preferenceWindows';
+
+// 提出期間の状態
+// notOpen: 受付前、open: 受付中、late: 締切後（遅延提出として受付）、locked: ロック済み
+export type PreferenceWindowState = 'notOpen' | 'open' | 'late' | 'locked';
+
+// 年月から提出期間のIDを作成（YYYY-MM）
+export const getPreferenceWindowId = (year: number, month: number): string =>
+  `${year}-${String(month).padStart(2, '0')}`;
+
+const toDate = (value: Date | Timestamp): Date =>
+  value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+
+// タイムスタンプ変換ユーティリティ
+const convertTimestamps = (preferenceWindow: PreferenceWindow): PreferenceWindow => {
+  const convertedWindow = { ...preferenceWindow };
+
+  convertedWindow.opensAt = toDate(convertedWindow.opensAt);
+  convertedWindow.deadline = toDate(convertedWindow.deadline);
+
+  if (convertedWindow.lockAt) {
+    convertedWindow.lockAt = toDate(convertedWindow.lockAt);
+  }
+
+  if (convertedWindow.lockedAt) {
+    convertedWindow.lockedAt = toDate(convertedWindow.lockedAt);
+  }
+
+  convertedWindow.reopenings = (convertedWindow.reopenings || []).map(reopening => ({
+    ...reopening,
+    until: toDate(reopening.until)
+  }));
+
+  return convertedWindow;
+};
+
+// 保存用にDate型をTimestamp型に変換
+const convertDates = (data: Partial<PreferenceWindow>): any => {
+  const converted: any = { ...data };
+
+  (['opensAt', 'deadline', 'lockAt', 'lockedAt'] as const).forEach(key => {
+    const value = data[key];
+    if (value instanceof Date) {
+      converted[key] = firestoreService.convertDateToTimestamp(value);
+    }
+  });
+
+  if (data.reopenings) {
+    converted.reopenings = data.reopenings.map(reopening => ({
+      ...reopening,
+      until: firestoreService.convertDateToTimestamp(reopening.until)
+    }));
+  }
+
+  return converted;
+};
+
+// 提出期間の状態を判定（従業員を指定した場合は個別の再開を考慮）
+export const getPreferenceWindowState = (
+  preferenceWindow: PreferenceWindow,
+  now: Date = new Date(),
+  userId?: string
+): PreferenceWindowState => {
+  if (userId && getActiveReopening(preferenceWindow, userId, now)) {
+    return now.getTime() > preferenceWindow.deadline.getTime() ? 'late' : 'open';
+  }
+
+  if (preferenceWindow.locked || (preferenceWindow.lockAt && now.getTime() >= preferenceWindow.lockAt.getTime())) {
+    return 'locked';
+  }
+
+  if (now.getTime() < preferenceWindow.opensAt.getTime()) {
+    return 'notOpen';
+  }
+
+  return now.getTime() > preferenceWindow.deadline.getTime() ? 'late' : 'open';
+};
+
+// 有効な個別再開を取得
+export const getActiveReopening = (
+  preferenceWindow: PreferenceWindow,
+  userId: string,
+  now: Date = new Date()
+): PreferenceWindowReopening | null => {
+  return preferenceWindow.reopenings.find(reopening =>
+    reopening.userId === userId && now.getTime() <= reopening.until.getTime()
+  ) || null;
+};
+
+// 締切までの時間（分、締切後は負の値）
+export const getMinutesToDeadline = (preferenceWindow: PreferenceWindow, now: Date = new Date()): number => {
+  return Math.floor((preferenceWindow.deadline.getTime() - now.getTime()) / (60 * 1000));
+};
+
+// 提出期間取得
+export const getPreferenceWindow = async (year: number, month: number): Promise<PreferenceWindow | null> => {
+  try {
+    const preferenceWindow = await firestoreService.getDocument<PreferenceWindow>(
+      COLLECTION_NAME,
+      getPreferenceWindowId(year, month)
+    );
+    return preferenceWindow ? convertTimestamps(preferenceWindow) : null;
+  } catch (error) {
+    console.error('Error fetching preference window:', error);
+    throw error;
+  }
+};
+
+// 提出期間の作成/更新
+export const savePreferenceWindow = async (
+  year: number,
+  month: number,
+  opensAt: Date,
+  deadline: Date,
+  lockAt?: Date
+): Promise<string> => {
+  try {
+    if (deadline.getTime() <= opensAt.getTime()) {
+      throw new Error('Preference deadline must be after the open date');
+    }
+    if (lockAt && lockAt.getTime() < deadline.getTime()) {
+      throw new Error('Preference lock date must not be before the deadline');
+    }
+
+    const existingWindow = await getPreferenceWindow(year, month);
+    const windowId = getPreferenceWindowId(year, month);
+
+    const preferenceWindow: PreferenceWindow = {
+      id: windowId,
+      year,
+      month,
+      opensAt,
+      deadline,
+      // Firestoreはundefinedを保存できないため、指定がある場合のみ設定
+      ...(lockAt && { lockAt }),
+      locked: existingWindow?.locked || false,
+      ...(existingWindow?.lockedAt && { lockedAt: existingWindow.lockedAt }),
+      reopenings: existingWindow?.reopenings || []
+    };
+
+    return await firestoreService.setDocument<any>(COLLECTION_NAME, convertDates(preferenceWindow), windowId);
+  } catch (error) {
+    console.error('Error saving preference window:', error);
+    throw error;
+  }
+};
+
+// 提出期間の取得（存在しない場合はエラー）
+const requirePreferenceWindow = async (year: number, month: number): Promise<PreferenceWindow> => {
+  const preferenceWindow = await getPreferenceWindow(year, month);
+  if (!preferenceWindow) {
+    throw new Error(`Preference window for ${getPreferenceWindowId(year, month)} not found`);
+  }
+  return preferenceWindow;
+};
+
+// 提出期間のロック
+export const lockPreferenceWindow = async (year: number, month: number): Promise<void> => {
+  try {
+    await requirePreferenceWindow(year, month);
+    await firestoreService.updateDocument<any>(
+      COLLECTION_NAME,
+      getPreferenceWindowId(year, month),
+      convertDates({ locked: true, lockedAt: new Date() })
+    );
+  } catch (error) {
+    console.error('Error locking preference window:', error);
+    throw error;
+  }
+};
+
+// ロックの解除（全員の提出を再開）
+export const unlockPreferenceWindow = async (year: number, month: number): Promise<void> => {
+  try {
+    const preferenceWindow = await requirePreferenceWindow(year, month);
+    if (preferenceWindow.lockAt && preferenceWindow.lockAt.getTime() <= Date.now()) {
+      throw new Error('Preference window is past its lock date; reopen it for specific employees instead');
+    }
+
+    await firestoreService.updateDocument<any>(
+      COLLECTION_NAME,
+      getPreferenceWindowId(year, month),
+      { locked: false }
+    );
+  } catch (error) {
+    console.error('Error unlocking preference window:', error);
+    throw error;
+  }
+};
+
+// 特定の従業員に提出を再開（管理者用、同じ従業員の既存の再開は上書き）
+export const reopenPreferenceWindowForUsers = async (
+  year: number,
+  month: number,
+  userIds: string[],
+  until: Date,
+  reopenedBy: string
+): Promise<void> => {
+  try {
+    const preferenceWindow = await requirePreferenceWindow(year, month);
+
+    const reopenings: PreferenceWindowReopening[] = [
+      ...preferenceWindow.reopenings.filter(reopening => !userIds.includes(reopening.userId)),
+      ...userIds.map(userId => ({ userId, until, reopenedBy }))
+    ];
+
+    await firestoreService.updateDocument<any>(
+      COLLECTION_NAME,
+      getPreferenceWindowId(year, month),
+      convertDates({ reopenings })
+    );
+  } catch (error) {
+    console.error('Error reopening preference window:', error);
+    throw error;
+  }
+};
+
+// 提出を受け付けられるか確認（提出期間が未設定の月は常に受付）
+export const assertPreferenceWindowOpen = async (
+  userId: string,
+  year: number,
+  month: number,
+  now: Date = new Date()
+): Promise<void> => {
+  const preferenceWindow = await getPreferenceWindow(year, month);
+  if (!preferenceWindow) return;
+
+  const state = getPreferenceWindowState(preferenceWindow, now, userId);
+  if (state === 'locked') {
+    throw new Error(`Shift preferences for ${preferenceWindow.id} are locked`);
+  }
+  if (state === 'notOpen') {
+    throw new Error(`Shift preferences for ${preferenceWindow.id} are not open yet`);
+  }
+};
+
+export default {
+  getPreferenceWindowId,
+  getPreferenceWindowState,
+  getActiveReopening,
+  getMinutesToDeadline,
+  getPreferenceWindow,
+  savePreferenceWindow,
+  lockPreferenceWindow,
+  unlockPreferenceWindow,
+  reopenPreferenceWindowForUsers,
+  assertPreferenceWindowOpen
+};
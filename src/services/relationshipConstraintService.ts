@@ -0,0 +1,172 @@
+// src/services/relationshipConstraintService.ts
+import { QueryConstraint } from 'firebase/firestore';
+import { RelationshipConstraint } from '../types/models';
+import * as firestoreService from './firestoreService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'relationshipConstraints';
+
+// ペアの正規化（employee1Id < employee2Id の順に揃える）
+const normalizePair = (employeeId1: string, employeeId2: string): { employee1Id: string; employee2Id: string } => {
+  return employeeId1 < employeeId2
+    ? { employee1Id: employeeId1, employee2Id: employeeId2 }
+    : { employee1Id: employeeId2, employee2Id: employeeId1 };
+};
+
+// ペアを一意に識別するキー（順序に依存しない）
+export const getPairKey = (employeeId1: string, employeeId2: string): string => {
+  const { employee1Id, employee2Id } = normalizePair(employeeId1, employeeId2);
+  return `${employee1Id}|${employee2Id}`;
+};
+
+// 同じペアの重複を除外（先に登録されたものを優先）
+const deduplicateConstraints = (constraints: RelationshipConstraint[]): RelationshipConstraint[] => {
+  const seen = new Set<string>();
+  return constraints.filter(constraint => {
+    const key = getPairKey(constraint.employee1Id, constraint.employee2Id);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// 人間関係制約取得
+export const getRelationshipConstraintById = async (constraintId: string): Promise<RelationshipConstraint | null> => {
+  try {
+    return await firestoreService.getDocument<RelationshipConstraint>(COLLECTION_NAME, constraintId);
+  } catch (error) {
+    console.error('Error fetching relationship constraint:', error);
+    throw error;
+  }
+};
+
+// 全人間関係制約取得
+export const getAllRelationshipConstraints = async (): Promise<RelationshipConstraint[]> => {
+  try {
+    const constraints = await firestoreService.getCollection<RelationshipConstraint>(COLLECTION_NAME);
+    return deduplicateConstraints(constraints);
+  } catch (error) {
+    console.error('Error fetching all relationship constraints:', error);
+    throw error;
+  }
+};
+
+// 特定の従業員に関係する人間関係制約取得（employee1Id・employee2Idのどちらでも検索）
+export const getRelationshipConstraintsByEmployee = async (employeeId: string): Promise<RelationshipConstraint[]> => {
+  try {
+    const asEmployee1: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('employee1Id', '==', employeeId)
+    ];
+    const asEmployee2: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('employee2Id', '==', employeeId)
+    ];
+
+    const [constraints1, constraints2] = await Promise.all([
+      firestoreService.getCollection<RelationshipConstraint>(COLLECTION_NAME, asEmployee1),
+      firestoreService.getCollection<RelationshipConstraint>(COLLECTION_NAME, asEmployee2)
+    ]);
+
+    return deduplicateConstraints([...constraints1, ...constraints2]);
+  } catch (error) {
+    console.error(`Error fetching relationship constraints for employee ${employeeId}:`, error);
+    throw error;
+  }
+};
+
+// 2人の従業員間の人間関係制約取得
+export const getRelationshipConstraintBetween = async (
+  employeeId1: string,
+  employeeId2: string
+): Promise<RelationshipConstraint | null> => {
+  try {
+    const constraints = await getRelationshipConstraintsByEmployee(employeeId1);
+    const key = getPairKey(employeeId1, employeeId2);
+
+    return constraints.find(constraint =>
+      getPairKey(constraint.employee1Id, constraint.employee2Id) === key
+    ) || null;
+  } catch (error) {
+    console.error('Error fetching relationship constraint between employees:', error);
+    throw error;
+  }
+};
+
+// 人間関係制約の作成（同じペアが既にある場合は理由を更新して既存IDを返す）
+export const createRelationshipConstraint = async (
+  employeeId1: string,
+  employeeId2: string,
+  reason: string
+): Promise<string> => {
+  try {
+    if (employeeId1 === employeeId2) {
+      throw new Error('Relationship constraint requires two different employees');
+    }
+
+    const existingConstraint = await getRelationshipConstraintBetween(employeeId1, employeeId2);
+    const pair = normalizePair(employeeId1, employeeId2);
+
+    if (existingConstraint) {
+      await firestoreService.updateDocument<RelationshipConstraint>(
+        COLLECTION_NAME,
+        existingConstraint.id,
+        { ...pair, reason }
+      );
+      return existingConstraint.id;
+    }
+
+    return await firestoreService.setDocument<any>(
+      COLLECTION_NAME,
+      { ...pair, reason } as any
+    );
+  } catch (error) {
+    console.error('Error creating relationship constraint:', error);
+    throw error;
+  }
+};
+
+// 人間関係制約の削除
+export const deleteRelationshipConstraint = async (constraintId: string): Promise<void> => {
+  try {
+    await firestoreService.deleteDocument(COLLECTION_NAME, constraintId);
+  } catch (error) {
+    console.error('Error deleting relationship constraint:', error);
+    throw error;
+  }
+};
+
+// 2人の従業員間の人間関係制約をすべて削除
+export const deleteRelationshipConstraintBetween = async (
+  employeeId1: string,
+  employeeId2: string
+): Promise<void> => {
+  try {
+    const key = getPairKey(employeeId1, employeeId2);
+    const asEmployee1 = await firestoreService.getCollection<RelationshipConstraint>(COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('employee1Id', '==', employeeId1)
+    ]);
+    const asEmployee2 = await firestoreService.getCollection<RelationshipConstraint>(COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('employee2Id', '==', employeeId1)
+    ]);
+
+    // 重複登録されたものも含めて削除
+    const targets = [...asEmployee1, ...asEmployee2].filter(constraint =>
+      getPairKey(constraint.employee1Id, constraint.employee2Id) === key
+    );
+
+    await Promise.all(targets.map(constraint => deleteRelationshipConstraint(constraint.id)));
+  } catch (error) {
+    console.error('Error deleting relationship constraint between employees:', error);
+    throw error;
+  }
+};
+
+export default {
+  getPairKey,
+  getRelationshipConstraintById,
+  getAllRelationshipConstraints,
+  getRelationshipConstraintsByEmployee,
+  getRelationshipConstraintBetween,
+  createRelationshipConstraint,
+  deleteRelationshipConstraint,
+  deleteRelationshipConstraintBetween
+};
@@ -0,0 +1,164 @@
+import {
+  buildSeasonalStaffingEvents,
+  estimateProgressTrend,
+  findPeakDate,
+  forecastAreaPeaks,
+  forecastSeasonalPeak,
+  getSeasonalStaffingWindows
+} from './seasonalForecastService';
+import { createTestStore } from './testFixtures';
+import { SeasonalProgressRecord } from '../types/models';
+
+const record = (
+  recordedAt: Date,
+  progress: number,
+  areas: SeasonalProgressRecord['areas'] = []
+): SeasonalProgressRecord => ({
+  id: `record-${recordedAt.getTime()}`,
+  seasonalInfoId: 'sakura',
+  type: 'sakura',
+  season: recordedAt.getFullYear(),
+  progress,
+  areas,
+  recordedAt
+});
+
+// 各日の正午の記録
+const noon = (year: number, month: number, day: number): Date => new Date(year, month - 1, day, 12);
+
+// 2023年は4/1に満開（年初から90日目）
+const pastRecords = [record(noon(2023, 3, 25), 50), record(noon(2023, 4, 1), 100)];
+
+// 2025年は1日に10ずつ進捗
+const currentRecords = [
+  record(noon(2025, 3, 20), 20),
+  record(noon(2025, 3, 21), 30),
+  record(noon(2025, 3, 22), 40)
+];
+
+const now = new Date(2025, 2, 22, 18);
+
+describe('findPeakDate', () => {
+  test('interpolates between the records around the peak', () => {
+    expect(findPeakDate([record(noon(2025, 3, 30), 120), record(noon(2025, 3, 28), 80)]))
+      .toEqual(noon(2025, 3, 29));
+  });
+
+  test('uses the first record when it has already reached the peak', () => {
+    expect(findPeakDate([record(noon(2025, 3, 28), 100)])).toEqual(noon(2025, 3, 28));
+    expect(findPeakDate(currentRecords)).toBeNull();
+  });
+});
+
+describe('estimateProgressTrend', () => {
+  test('returns the progress per day of the records before the peak', () => {
+    expect(estimateProgressTrend([...currentRecords, record(noon(2025, 3, 30), 100)])).toBeCloseTo(10);
+  });
+
+  test('returns null when progress is not increasing', () => {
+    expect(estimateProgressTrend([record(noon(2025, 3, 20), 40), record(noon(2025, 3, 21), 40)])).toBeNull();
+    expect(estimateProgressTrend([record(noon(2025, 3, 20), 40)])).toBeNull();
+  });
+});
+
+describe('forecastSeasonalPeak', () => {
+  test('blends the history and the trend by the current progress', () => {
+    // 過去の傾向は4/1、今季の推移は3/28 12時。進捗40%のため推移を0.4の重みで加味
+    const forecast = forecastSeasonalPeak('sakura', currentRecords, pastRecords, now);
+
+    expect(forecast).toMatchObject({
+      type: 'sakura',
+      season: 2025,
+      peakDate: new Date(2025, 2, 30),
+      endDate: new Date(2025, 3, 6),
+      basis: 'combined',
+      currentProgress: 40
+    });
+    expect(forecast?.progressPerDay).toBeCloseTo(10);
+  });
+
+  test('uses the trend or the history alone when only one is available', () => {
+    expect(forecastSeasonalPeak('sakura', currentRecords, [], now)).toMatchObject({
+      peakDate: new Date(2025, 2, 28),
+      endDate: new Date(2025, 3, 4),
+      basis: 'trend'
+    });
+    expect(forecastSeasonalPeak('azalea', [], pastRecords, now)).toMatchObject({
+      peakDate: new Date(2025, 3, 1),
+      endDate: new Date(2025, 3, 15),
+      basis: 'history'
+    });
+    expect(forecastSeasonalPeak('sakura', [], [], now)).toBeNull();
+  });
+
+  test('uses the reported peak and best viewing period once the season has peaked', () => {
+    const areas = [{ name: '宇治川', status: '満開', bestViewingPeriod: { start: noon(2025, 3, 26), end: noon(2025, 4, 8) } }];
+    const records = [record(noon(2025, 3, 24), 80), record(noon(2025, 3, 26), 120, areas)];
+
+    expect(forecastSeasonalPeak('sakura', records, pastRecords, now)).toMatchObject({
+      peakDate: new Date(2025, 2, 25),
+      endDate: new Date(2025, 3, 8),
+      basis: 'reported'
+    });
+  });
+});
+
+describe('forecastAreaPeaks', () => {
+  test('shifts areas without a reported period by their past offset', () => {
+    const forecast = forecastSeasonalPeak('sakura', currentRecords, pastRecords, now)!;
+    const past = [
+      ...pastRecords.slice(0, 1),
+      record(noon(2023, 4, 1), 100, [
+        { name: '平等院', status: '満開', bestViewingPeriod: { start: noon(2023, 4, 3), end: noon(2023, 4, 8) } }
+      ])
+    ];
+
+    const areas = forecastAreaPeaks(forecast, {
+      areas: [{ name: '平等院', status: 'つぼみ' }, { name: '宇治川', status: 'つぼみ' }]
+    }, past);
+
+    expect(areas).toEqual([
+      { type: 'sakura', areaName: '平等院', peakDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 6), basis: 'combined' },
+      { type: 'sakura', areaName: '宇治川', peakDate: new Date(2025, 2, 30), endDate: new Date(2025, 3, 6), basis: 'combined' }
+    ]);
+  });
+});
+
+describe('seasonal staffing', () => {
+  test('creates one event per area for the nearby stores', () => {
+    const windows = getSeasonalStaffingWindows(
+      [
+        createTestStore('store1', { nearbySeasonalAreas: ['平等院'] }),
+        createTestStore('store2', { address: '京都府宇治市宇治川沿い' }),
+        createTestStore('store3', { nearbySeasonalAreas: ['平等院'] })
+      ],
+      [
+        { type: 'sakura', areaName: '平等院', peakDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 6), basis: 'combined' },
+        { type: 'sakura', areaName: '宇治川', peakDate: new Date(2025, 2, 30), endDate: new Date(2025, 3, 6), basis: 'combined' }
+      ]
+    );
+
+    expect(windows.map(staffingWindow => [staffingWindow.storeId, staffingWindow.startDate])).toEqual([
+      ['store2', new Date(2025, 2, 27)],
+      ['store1', new Date(2025, 2, 29)],
+      ['store3', new Date(2025, 2, 29)]
+    ]);
+
+    expect(buildSeasonalStaffingEvents(windows, 50)).toEqual([
+      {
+        name: '宇治川の桜の見頃',
+        startDate: new Date(2025, 2, 27),
+        endDate: new Date(2025, 3, 6),
+        affectedStores: ['store2'],
+        customerPrediction: 50
+      },
+      {
+        name: '平等院の桜の見頃',
+        startDate: new Date(2025, 2, 29),
+        endDate: new Date(2025, 3, 6),
+        affectedStores: ['store1', 'store3'],
+        customerPrediction: 50
+      }
+    ]);
+  });
+});
@@ -0,0 +1,415 @@
+// src/services/seasonalForecastService.ts
+// 季節情報の進捗履歴から見頃（満開）・終了日を予測し、近隣店舗の増員期間を提案
+import { Event, SeasonalInfo, SeasonalProgressRecord, Store } from '../types/models';
+import * as eventService from './eventService';
+import * as storeService from './storeService';
+
+type SeasonalType = SeasonalInfo['type'];
+
+// 満開とみなす進捗
+const PEAK_PROGRESS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 満開から見頃終了までのデフォルト日数（過去の履歴がない場合に使用）
+export const DEFAULT_BLOOM_DURATION_DAYS: Record<SeasonalType, number> = {
+  sakura: 7,
+  azalea: 14,
+  other: 10
+};
+
+const SEASONAL_TYPE_LABELS: Record<SeasonalType, string> = {
+  sakura: '桜',
+  azalea: 'ツツジ',
+  other: '季節'
+};
+
+// 予測オプション
+export interface SeasonalForecastOptions {
+  /** 予測に使用する過去のシーズン数（デフォルト: 5） */
+  historySeasons?: number;
+  /** 満開の何日前から増員するか（デフォルト: 3） */
+  leadDays?: number;
+  /** 基準日時（デフォルト: 現在） */
+  now?: Date;
+}
+
+// 予測の根拠
+// reported: 報告済み（満開済み・見頃期間の発表あり）、history: 過去の傾向、trend: 今季の進捗の推移、combined: 過去の傾向と今季の推移の加重平均
+export type SeasonalForecastBasis = 'reported' | 'history' | 'trend' | 'combined';
+
+// シーズン全体の予測
+export interface SeasonalPeakForecast {
+  type: SeasonalType;
+  season: number;
+  peakDate: Date;
+  endDate: Date;
+  basis: SeasonalForecastBasis;
+  currentProgress: number;
+  /** 今季の1日あたりの進捗（推移が得られない場合はnull） */
+  progressPerDay: number | null;
+}
+
+// エリアごとの予測
+export interface AreaPeakForecast {
+  type: SeasonalType;
+  areaName: string;
+  peakDate: Date;
+  endDate: Date;
+  basis: SeasonalForecastBasis;
+}
+
+// 近隣店舗の増員推奨期間
+export interface SeasonalStaffingWindow {
+  storeId: string;
+  storeName: string;
+  type: SeasonalType;
+  areaName: string;
+  startDate: Date;
+  endDate: Date;
+  peakDate: Date;
+  basis: SeasonalForecastBasis;
+}
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 年初からの日数（0始まり、年をまたいだ比較用）
+const getDayOfYear = (date: Date): number =>
+  Math.round((startOfDay(date).getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / DAY_MS);
+
+const dateFromDayOfYear = (year: number, dayOfYear: number): Date =>
+  new Date(year, 0, 1 + Math.round(dayOfYear));
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + Math.round(days));
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// 満開に達した日時（直前の記録との線形補間）
+export const findPeakDate = (records: SeasonalProgressRecord[]): Date | null => {
+  const sorted = [...records].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const peakIndex = sorted.findIndex(record => record.progress >= PEAK_PROGRESS);
+  if (peakIndex < 0) return null;
+  if (peakIndex === 0) return sorted[0].recordedAt;
+
+  const before = sorted[peakIndex - 1];
+  const after = sorted[peakIndex];
+  const ratio = (PEAK_PROGRESS - before.progress) / (after.progress - before.progress);
+  return new Date(before.recordedAt.getTime() + ratio * (after.recordedAt.getTime() - before.recordedAt.getTime()));
+};
+
+// シーズン中に発表された見頃期間の終了日（最も遅いエリア）
+const findReportedEndDate = (records: SeasonalProgressRecord[]): Date | null => {
+  const endDates = records.flatMap(record =>
+    record.areas
+      .filter(area => area.bestViewingPeriod)
+      .map(area => area.bestViewingPeriod!.end.getTime())
+  );
+  return endDates.length > 0 ? new Date(Math.max(...endDates)) : null;
+};
+
+// 今季の1日あたりの進捗（満開前の直近の記録から最小二乗法で算出、増加していない場合はnull）
+export const estimateProgressTrend = (records: SeasonalProgressRecord[], sampleSize: number = 5): number | null => {
+  const samples = [...records]
+    .filter(record => record.progress < PEAK_PROGRESS)
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    .slice(-sampleSize);
+  if (samples.length < 2) return null;
+
+  const origin = samples[0].recordedAt.getTime();
+  const xs = samples.map(record => (record.recordedAt.getTime() - origin) / DAY_MS);
+  const ys = samples.map(record => record.progress);
+  const meanX = average(xs)!;
+  const meanY = average(ys)!;
+
+  const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) * (x - meanX), 0);
+  if (variance === 0) return null;
+
+  const slope = covariance / variance;
+  return slope > 0 ? slope : null;
+};
+
+// シーズンごとに履歴をグループ化
+const groupBySeason = (records: SeasonalProgressRecord[]): Map<number, SeasonalProgressRecord[]> => {
+  const seasons = new Map<number, SeasonalProgressRecord[]>();
+  records.forEach(record => {
+    seasons.set(record.season, [...(seasons.get(record.season) || []), record]);
+  });
+  return seasons;
+};
+
+// 過去のシーズンの満開日（年初からの日数）と満開から見頃終了までの日数の平均
+const summarizePastSeasons = (
+  pastRecords: SeasonalProgressRecord[]
+): { peakDayOfYear: number | null; durationDays: number | null } => {
+  const peakDays: number[] = [];
+  const durations: number[] = [];
+
+  groupBySeason(pastRecords).forEach(records => {
+    const peakDate = findPeakDate(records);
+    if (!peakDate) return;
+    peakDays.push(getDayOfYear(peakDate));
+
+    const endDate = findReportedEndDate(records);
+    if (endDate && endDate.getTime() > peakDate.getTime()) {
+      durations.push((startOfDay(endDate).getTime() - startOfDay(peakDate).getTime()) / DAY_MS);
+    }
+  });
+
+  return { peakDayOfYear: average(peakDays), durationDays: average(durations) };
+};
+
+// シーズン全体の満開日・終了日を予測（予測できない場合はnull）
+// 今季の進捗が進むほど今季の推移を重視する
+export const forecastSeasonalPeak = (
+  type: SeasonalType,
+  currentRecords: SeasonalProgressRecord[],
+  pastRecords: SeasonalProgressRecord[],
+  now: Date = new Date()
+): SeasonalPeakForecast | null => {
+  const season = now.getFullYear();
+  const sorted = [...currentRecords].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const latest = sorted[sorted.length - 1];
+  const currentProgress = latest ? latest.progress : 0;
+  const progressPerDay = estimateProgressTrend(sorted);
+
+  const past = summarizePastSeasons(pastRecords);
+  const durationDays = past.durationDays ?? DEFAULT_BLOOM_DURATION_DAYS[type];
+  const reportedEnd = findReportedEndDate(sorted);
+
+  const buildForecast = (peakDate: Date, basis: SeasonalForecastBasis): SeasonalPeakForecast => ({
+    type,
+    season,
+    peakDate: startOfDay(peakDate),
+    endDate: reportedEnd && reportedEnd.getTime() > peakDate.getTime()
+      ? startOfDay(reportedEnd)
+      : addDays(peakDate, durationDays),
+    basis,
+    currentProgress,
+    progressPerDay
+  });
+
+  // 満開済み
+  const reportedPeak = findPeakDate(sorted);
+  if (reportedPeak) {
+    return buildForecast(reportedPeak, 'reported');
+  }
+
+  const historyPeak = past.peakDayOfYear !== null ? dateFromDayOfYear(season, past.peakDayOfYear) : null;
+  const trendPeak = latest && progressPerDay
+    ? new Date(latest.recordedAt.getTime() + ((PEAK_PROGRESS - latest.progress) / progressPerDay) * DAY_MS)
+    : null;
+
+  if (historyPeak && trendPeak) {
+    const trendWeight = Math.min(Math.max(currentProgress / PEAK_PROGRESS, 0), 1);
+    const blended = historyPeak.getTime() * (1 - trendWeight) + trendPeak.getTime() * trendWeight;
+    return buildForecast(new Date(blended), 'combined');
+  }
+  if (trendPeak) {
+    return buildForecast(trendPeak, 'trend');
+  }
+  if (historyPeak) {
+    return buildForecast(historyPeak, 'history');
+  }
+  return null;
+};
+
+// エリアごとの見頃を予測
+// 見頃期間が発表済みのエリアはその期間、未発表のエリアは過去のシーズン全体の満開日との差を予測に加味
+export const forecastAreaPeaks = (
+  forecast: SeasonalPeakForecast,
+  currentInfo: Pick<SeasonalInfo, 'areas'>,
+  pastRecords: SeasonalProgressRecord[]
+): AreaPeakForecast[] => {
+  const forecastDuration = (forecast.endDate.getTime() - forecast.peakDate.getTime()) / DAY_MS;
+
+  // 過去のシーズンのエリアごとの満開日との差・見頃日数
+  const areaOffsets = new Map<string, { offsets: number[]; durations: number[] }>();
+  groupBySeason(pastRecords).forEach(records => {
+    const seasonPeak = findPeakDate(records);
+    if (!seasonPeak) return;
+
+    const latestAreas = [...records].sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())[0].areas;
+    latestAreas.forEach(area => {
+      if (!area.bestViewingPeriod) return;
+      const entry = areaOffsets.get(area.name) || { offsets: [], durations: [] };
+      entry.offsets.push(getDayOfYear(area.bestViewingPeriod.start) - getDayOfYear(seasonPeak));
+      entry.durations.push(
+        (startOfDay(area.bestViewingPeriod.end).getTime() - startOfDay(area.bestViewingPeriod.start).getTime()) / DAY_MS
+      );
+      areaOffsets.set(area.name, entry);
+    });
+  });
+
+  return currentInfo.areas.map(area => {
+    if (area.bestViewingPeriod) {
+      return {
+        type: forecast.type,
+        areaName: area.name,
+        peakDate: startOfDay(area.bestViewingPeriod.start),
+        endDate: startOfDay(area.bestViewingPeriod.end),
+        basis: 'reported' as SeasonalForecastBasis
+      };
+    }
+
+    const history = areaOffsets.get(area.name);
+    const offset = history ? average(history.offsets)! : 0;
+    const duration = history ? average(history.durations)! : forecastDuration;
+    const peakDate = addDays(forecast.peakDate, offset);
+
+    return {
+      type: forecast.type,
+      areaName: area.name,
+      peakDate,
+      endDate: addDays(peakDate, duration),
+      basis: forecast.basis
+    };
+  });
+};
+
+// 店舗がエリアの近隣か（近隣エリアが未設定の場合は住所にエリア名を含むか）
+const isStoreNearArea = (store: Store, areaName: string): boolean => {
+  if (store.nearbySeasonalAreas && store.nearbySeasonalAreas.length > 0) {
+    return store.nearbySeasonalAreas.includes(areaName);
+  }
+  return !!store.address && store.address.includes(areaName);
+};
+
+// エリアの見頃予測から近隣店舗の増員推奨期間を作成（満開のleadDays日前から見頃終了まで）
+export const getSeasonalStaffingWindows = (
+  stores: Store[],
+  areaForecasts: AreaPeakForecast[],
+  leadDays: number = 3
+): SeasonalStaffingWindow[] => {
+  const windows: SeasonalStaffingWindow[] = [];
+
+  areaForecasts.forEach(areaForecast => {
+    stores
+      .filter(store => isStoreNearArea(store, areaForecast.areaName))
+      .forEach(store => {
+        windows.push({
+          storeId: store.id,
+          storeName: store.name,
+          type: areaForecast.type,
+          areaName: areaForecast.areaName,
+          startDate: addDays(areaForecast.peakDate, -leadDays),
+          endDate: areaForecast.endDate,
+          peakDate: areaForecast.peakDate,
+          basis: areaForecast.basis
+        });
+      });
+  });
+
+  return windows.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+};
+
+// 増員推奨期間をイベントに変換（登録するとシフト生成時の増員に反映される）
+// エリアごとに1件のイベントとし、対象店舗をまとめる
+export const buildSeasonalStaffingEvents = (
+  windows: SeasonalStaffingWindow[],
+  customerPrediction: number
+): Omit<Event, 'id'>[] => {
+  const eventsByArea = new Map<string, Omit<Event, 'id'>>();
+
+  windows.forEach(staffingWindow => {
+    const key = `${staffingWindow.type}|${staffingWindow.areaName}`;
+    const existing = eventsByArea.get(key);
+
+    if (existing) {
+      existing.affectedStores = Array.from(new Set([...existing.affectedStores, staffingWindow.storeId]));
+      existing.startDate = new Date(Math.min(existing.startDate.getTime(), staffingWindow.startDate.getTime()));
+      existing.endDate = new Date(Math.max(existing.endDate.getTime(), staffingWindow.endDate.getTime()));
+      return;
+    }
+
+    eventsByArea.set(key, {
+      name: `${staffingWindow.areaName}の${SEASONAL_TYPE_LABELS[staffingWindow.type]}の見頃`,
+      startDate: staffingWindow.startDate,
+      endDate: staffingWindow.endDate,
+      affectedStores: [staffingWindow.storeId],
+      customerPrediction
+    });
+  });
+
+  return Array.from(eventsByArea.values());
+};
+
+// 今季と過去のシーズンの履歴を取得
+const fetchSeasonHistory = async (
+  type: SeasonalType,
+  now: Date,
+  historySeasons: number = 5
+): Promise<{ currentRecords: SeasonalProgressRecord[]; pastRecords: SeasonalProgressRecord[] }> => {
+  const season = now.getFullYear();
+  const history = await eventService.getSeasonalProgressHistory(type);
+
+  return {
+    currentRecords: history.filter(record =>
+      record.season === season && record.recordedAt.getTime() <= now.getTime()
+    ),
+    pastRecords: history.filter(record =>
+      record.season < season && record.season >= season - historySeasons
+    )
+  };
+};
+
+// タイプ別のシーズン予測（今季の履歴と過去のシーズンの履歴を取得して予測）
+export const forecastSeasonalPeakForType = async (
+  type: SeasonalType,
+  options: SeasonalForecastOptions = {}
+): Promise<SeasonalPeakForecast | null> => {
+  try {
+    const now = options.now || new Date();
+    const { currentRecords, pastRecords } = await fetchSeasonHistory(type, now, options.historySeasons);
+    return forecastSeasonalPeak(type, currentRecords, pastRecords, now);
+  } catch (error) {
+    console.error(`Error forecasting seasonal peak for ${type}:`, error);
+    throw error;
+  }
+};
+
+// 近隣店舗の増員推奨期間を取得（桜・ツツジ・その他の最新の季節情報ごとに予測）
+export const recommendSeasonalStaffingWindows = async (
+  options: SeasonalForecastOptions = {}
+): Promise<SeasonalStaffingWindow[]> => {
+  try {
+    const now = options.now || new Date();
+    const stores = await storeService.getAllStores();
+    const types: SeasonalType[] = ['sakura', 'azalea', 'other'];
+    const windows: SeasonalStaffingWindow[] = [];
+
+    for (const type of types) {
+      const info = await eventService.getLatestSeasonalInfoByType(type);
+      if (!info || info.lastUpdated.getFullYear() !== now.getFullYear()) continue;
+
+      const { currentRecords, pastRecords } = await fetchSeasonHistory(type, now, options.historySeasons);
+      const forecast = forecastSeasonalPeak(type, currentRecords, pastRecords, now);
+      if (!forecast) continue;
+
+      const areaForecasts = forecastAreaPeaks(forecast, info, pastRecords);
+      windows.push(...getSeasonalStaffingWindows(stores, areaForecasts, options.leadDays));
+    }
+
+    // 見頃が終了した期間は除外
+    return windows
+      .filter(staffingWindow => staffingWindow.endDate.getTime() >= startOfDay(now).getTime())
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  } catch (error) {
+    console.error('Error recommending seasonal staffing windows:', error);
+    throw error;
+  }
+};
+
+export default {
+  findPeakDate,
+  estimateProgressTrend,
+  forecastSeasonalPeak,
+  forecastAreaPeaks,
+  getSeasonalStaffingWindows,
+  buildSeasonalStaffingEvents,
+  forecastSeasonalPeakForType,
+  recommendSeasonalStaffingWindows
+};
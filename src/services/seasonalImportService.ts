@@ -0,0 +1,447 @@
+// src/services/seasonalImportService.ts
+// 開花情報ファイル（JSON/CSV）の取り込み
+// 形式ごとの取り込み処理（インポーター）を登録し、updateSeasonalInfoFromExternalSource経由で保存する
+import { SeasonalInfo } from '../types/models';
+import * as eventService from './eventService';
+
+type SeasonalType = SeasonalInfo['type'];
+
+// 取り込み対象のエリア（店舗のnearbySeasonalAreasもこの名前を使用）
+export const KNOWN_SEASONAL_AREAS: string[] = [
+  '平等院周辺',
+  '宇治市周辺',
+  '祇園エリア',
+  '嵐山エリア',
+  '京都府立植物園'
+];
+
+// 取り込み1件分（updateSeasonalInfoFromExternalSourceの引数に対応）
+export interface SeasonalImportRecord {
+  type: SeasonalType;
+  name: string;
+  progress: number;
+  areas: SeasonalInfo['areas'];
+}
+
+// 取り込み時の問題（errorの行・エリアは取り込まない）
+export interface SeasonalImportIssue {
+  severity: 'error' | 'warning';
+  /** CSVの行番号（1始まり、ヘッダー行を含む） */
+  line?: number;
+  message: string;
+}
+
+export interface SeasonalImportResult {
+  records: SeasonalImportRecord[];
+  issues: SeasonalImportIssue[];
+}
+
+export interface SeasonalImportOptions {
+  /** 有効なエリア名（デフォルト: KNOWN_SEASONAL_AREAS） */
+  knownAreas?: string[];
+}
+
+// インポーター（形式ごとに文字列を取り込み1件分の配列に変換）
+export interface SeasonalDataImporter {
+  format: string;
+  /** 対応する拡張子（ドット付き、小文字） */
+  extensions: string[];
+  parse: (content: string, options?: SeasonalImportOptions) => SeasonalImportResult;
+}
+
+// 種類の表記ゆれ
+const TYPE_ALIASES: Record<string, SeasonalType> = {
+  sakura: 'sakura',
+  '桜': 'sakura',
+  'さくら': 'sakura',
+  azalea: 'azalea',
+  'ツツジ': 'azalea',
+  'つつじ': 'azalea',
+  other: 'other',
+  'その他': 'other'
+};
+
+// 状況の表記から進捗（0〜100、100が満開）への変換規則（上から順に判定）
+const STATUS_PROGRESS_RULES: Array<{ pattern: RegExp; progress: number }> = [
+  { pattern: /(満開|見頃)(間近|前)/, progress: 80 },
+  { pattern: /満開|見頃|散り始め|葉桜|終了/, progress: 100 },
+  { pattern: /未開花|開花前/, progress: 0 },
+  { pattern: /咲き始め|一部開花|開花/, progress: 30 },
+  { pattern: /つぼみ(が)?(膨らむ|ふくらむ)/, progress: 20 },
+  { pattern: /つぼみ|蕾/, progress: 10 }
+];
+
+// 全角英数字を半角に変換し前後の空白を除去
+const normalizeText = (value: string): string => value.normalize('NFKC').trim();
+
+// 状況の表記を進捗に変換（変換できない場合はnull）
+// 「7分咲き」のような表記は分数×10とする
+export const mapStatusToProgress = (status: string): number | null => {
+  const normalized = normalizeText(status);
+
+  const partialBloom = normalized.match(/(\d+)\s*分咲/);
+  if (partialBloom) {
+    return Math.min(Number(partialBloom[1]) * 10, 100);
+  }
+
+  const rule = STATUS_PROGRESS_RULES.find(({ pattern }) => pattern.test(normalized));
+  return rule ? rule.progress : null;
+};
+
+// エリア名を既知のエリア名に合わせる（「嵐山」→「嵐山エリア」のように接尾辞の有無を許容）
+export const resolveAreaName = (name: string, knownAreas: string[] = KNOWN_SEASONAL_AREAS): string | null => {
+  const normalized = normalizeText(name);
+  const stripSuffix = (value: string) => value.replace(/(エリア|周辺)$/, '');
+
+  return knownAreas.find(area => area === normalized) ||
+    knownAreas.find(area => stripSuffix(area) === stripSuffix(normalized)) ||
+    null;
+};
+
+// 日付文字列（YYYY-MM-DD または YYYY/MM/DD）をローカル時刻の日付に変換
+const parseDate = (value: string): Date | null => {
+  const match = normalizeText(value).match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+};
+
+// 取り込み前のエリア情報
+interface RawArea {
+  name: string;
+  status: string;
+  bestViewingStart?: string;
+  bestViewingEnd?: string;
+}
+
+// 取り込み前の1件分
+interface RawRecord {
+  type: string;
+  name: string;
+  progress?: number | string;
+  areas: RawArea[];
+}
+
+// 取り込み前のデータを検証して1件分に変換（形式に依存しない共通処理）
+const buildRecord = (
+  raw: RawRecord,
+  knownAreas: string[],
+  issues: SeasonalImportIssue[],
+  line?: number
+): SeasonalImportRecord | null => {
+  const type = TYPE_ALIASES[normalizeText(String(raw.type || '')).toLowerCase()];
+  if (!type) {
+    issues.push({ severity: 'error', line, message: `不明な種類です（${raw.type}）` });
+    return null;
+  }
+
+  const name = normalizeText(String(raw.name || ''));
+  if (!name) {
+    issues.push({ severity: 'error', line, message: '名称が指定されていません' });
+    return null;
+  }
+
+  const areas: SeasonalInfo['areas'] = [];
+  const areaProgresses: number[] = [];
+
+  raw.areas.forEach(rawArea => {
+    const areaName = resolveAreaName(String(rawArea.name || ''), knownAreas);
+    if (!areaName) {
+      issues.push({ severity: 'error', line, message: `不明なエリアです（${rawArea.name}）` });
+      return;
+    }
+
+    const status = normalizeText(String(rawArea.status || ''));
+    const areaProgress = mapStatusToProgress(status);
+    if (areaProgress === null) {
+      issues.push({ severity: 'warning', line, message: `${areaName}の状況（${status}）を進捗に変換できません` });
+    } else {
+      areaProgresses.push(areaProgress);
+    }
+
+    const area: SeasonalInfo['areas'][number] = { name: areaName, status };
+
+    if (rawArea.bestViewingStart || rawArea.bestViewingEnd) {
+      const start = rawArea.bestViewingStart ? parseDate(rawArea.bestViewingStart) : null;
+      const end = rawArea.bestViewingEnd ? parseDate(rawArea.bestViewingEnd) : null;
+      if (start && end && start.getTime() <= end.getTime()) {
+        area.bestViewingPeriod = { start, end };
+      } else {
+        issues.push({
+          severity: 'warning',
+          line,
+          message: `${areaName}の見頃期間が不正なため無視しました（${rawArea.bestViewingStart || ''}〜${rawArea.bestViewingEnd || ''}）`
+        });
+      }
+    }
+
+    // 同じエリアが複数ある場合は後の行で上書き
+    const existingIndex = areas.findIndex(existing => existing.name === areaName);
+    if (existingIndex >= 0) {
+      areas[existingIndex] = area;
+    } else {
+      areas.push(area);
+    }
+  });
+
+  // 全体の進捗は指定があればその値、なければエリアの進捗の平均
+  let progress: number | null = null;
+  if (raw.progress !== undefined && String(raw.progress).trim() !== '') {
+    const parsed = Number(normalizeText(String(raw.progress)).replace(/%$/, ''));
+    if (Number.isFinite(parsed)) {
+      progress = Math.min(Math.max(parsed, 0), 100);
+    } else {
+      issues.push({ severity: 'warning', line, message: `進捗（${raw.progress}）が数値ではないためエリアの状況から算出しました` });
+    }
+  }
+  if (progress === null && areaProgresses.length > 0) {
+    progress = Math.round(areaProgresses.reduce((sum, value) => sum + value, 0) / areaProgresses.length);
+  }
+  if (progress === null) {
+    issues.push({ severity: 'error', line, message: `${name}の進捗を判定できません` });
+    return null;
+  }
+
+  return { type, name, progress, areas };
+};
+
+// JSON形式
+// {"type": "sakura", "name": "京都の桜", "progress": 70,
+//  "areas": [{"name": "嵐山", "status": "7分咲き", "bestViewingStart": "2026-03-30", "bestViewingEnd": "2026-04-07"}]}
+// 複数件の場合は配列
+export const jsonSeasonalImporter: SeasonalDataImporter = {
+  format: 'json',
+  extensions: ['.json'],
+  parse: (content, options = {}) => {
+    const knownAreas = options.knownAreas || KNOWN_SEASONAL_AREAS;
+    const issues: SeasonalImportIssue[] = [];
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      return { records: [], issues: [{ severity: 'error', message: 'JSONの形式が正しくありません' }] };
+    }
+
+    const rawRecords = (Array.isArray(data) ? data : [data]) as Array<Partial<RawRecord>>;
+    const records = rawRecords
+      .map(raw => buildRecord(
+        {
+          type: String(raw?.type ?? ''),
+          name: String(raw?.name ?? ''),
+          progress: raw?.progress,
+          areas: Array.isArray(raw?.areas) ? raw!.areas : []
+        },
+        knownAreas,
+        issues
+      ))
+      .filter((record): record is SeasonalImportRecord => record !== null);
+
+    return { records, issues };
+  }
+};
+
+// CSVの1行を列に分割（ダブルクォートで囲まれた列内のカンマと""によるエスケープに対応、列内の改行は非対応）
+const splitCsvLine = (line: string): string[] => {
+  const columns: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      columns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  columns.push(current);
+
+  return columns.map(column => column.trim());
+};
+
+// CSVのヘッダー（日本語の列名にも対応）
+const CSV_COLUMN_ALIASES: Record<string, keyof RawArea | 'type' | 'name' | 'progress' | 'area'> = {
+  type: 'type',
+  '種類': 'type',
+  name: 'name',
+  '名称': 'name',
+  progress: 'progress',
+  '進捗': 'progress',
+  area: 'area',
+  'エリア': 'area',
+  status: 'status',
+  '状況': 'status',
+  bestviewingstart: 'bestViewingStart',
+  '見頃開始': 'bestViewingStart',
+  bestviewingend: 'bestViewingEnd',
+  '見頃終了': 'bestViewingEnd'
+};
+
+// CSV形式（1行1エリア、種類・名称が同じ行を1件にまとめる）
+// type,name,area,status,bestViewingStart,bestViewingEnd,progress
+// sakura,京都の桜,嵐山,7分咲き,2026-03-30,2026-04-07,70
+export const csvSeasonalImporter: SeasonalDataImporter = {
+  format: 'csv',
+  extensions: ['.csv'],
+  parse: (content, options = {}) => {
+    const knownAreas = options.knownAreas || KNOWN_SEASONAL_AREAS;
+    const issues: SeasonalImportIssue[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    const header = splitCsvLine(lines[0] || '').map(column =>
+      CSV_COLUMN_ALIASES[column.toLowerCase()] || CSV_COLUMN_ALIASES[column]
+    );
+    const missingColumns = (['type', 'name', 'area', 'status'] as const).filter(column => !header.includes(column));
+    if (missingColumns.length > 0) {
+      return {
+        records: [],
+        issues: [{ severity: 'error', line: 1, message: `必須の列がありません（${missingColumns.join(', ')}）` }]
+      };
+    }
+
+    // 種類・名称ごとにまとめる（最初に出現した行番号をエラー表示に使用）
+    const grouped = new Map<string, { raw: RawRecord; line: number }>();
+    lines.slice(1).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const values: Record<string, string> = {};
+      splitCsvLine(line).forEach((value, columnIndex) => {
+        const column = header[columnIndex];
+        if (column) values[column] = value;
+      });
+
+      const typeKey = normalizeText(values.type || '').toLowerCase();
+      const key = `${TYPE_ALIASES[typeKey] || typeKey}|${normalizeText(values.name || '')}`;
+      const entry = grouped.get(key) || {
+        raw: { type: values.type, name: values.name, areas: [] },
+        line: index + 2
+      };
+
+      if (values.progress) {
+        entry.raw.progress = values.progress;
+      }
+      entry.raw.areas.push({
+        name: values.area || '',
+        status: values.status || '',
+        bestViewingStart: values.bestViewingStart || undefined,
+        bestViewingEnd: values.bestViewingEnd || undefined
+      });
+      grouped.set(key, entry);
+    });
+
+    const records = Array.from(grouped.values())
+      .map(({ raw, line }) => buildRecord(raw, knownAreas, issues, line))
+      .filter((record): record is SeasonalImportRecord => record !== null);
+
+    return { records, issues };
+  }
+};
+
+// 登録済みのインポーター
+const importers = new Map<string, SeasonalDataImporter>([
+  [jsonSeasonalImporter.format, jsonSeasonalImporter],
+  [csvSeasonalImporter.format, csvSeasonalImporter]
+]);
+
+// インポーターの登録（同じ形式は置き換え）
+export const registerSeasonalImporter = (importer: SeasonalDataImporter): void => {
+  importers.set(importer.format, importer);
+};
+
+// 形式からインポーターを取得
+export const getSeasonalImporter = (format: string): SeasonalDataImporter | undefined =>
+  importers.get(format);
+
+// ファイル名の拡張子からインポーターを判定
+export const findSeasonalImporterForFile = (fileName: string): SeasonalDataImporter | undefined => {
+  const lowerName = fileName.toLowerCase();
+  return Array.from(importers.values()).find(importer =>
+    importer.extensions.some(extension => lowerName.endsWith(extension))
+  );
+};
+
+// 取り込み結果
+export interface SeasonalImportSummary {
+  /** 保存した季節情報のID */
+  savedIds: string[];
+  records: SeasonalImportRecord[];
+  issues: SeasonalImportIssue[];
+}
+
+// 文字列を取り込んで保存（dryRunの場合は検証のみ）
+export const importSeasonalData = async (
+  content: string,
+  format: string,
+  options: SeasonalImportOptions & { dryRun?: boolean } = {}
+): Promise<SeasonalImportSummary> => {
+  try {
+    const importer = getSeasonalImporter(format);
+    if (!importer) {
+      throw new Error(`Unsupported seasonal data format: ${format}`);
+    }
+
+    const { records, issues } = importer.parse(content, options);
+    const savedIds: string[] = [];
+
+    if (!options.dryRun) {
+      for (const record of records) {
+        savedIds.push(await eventService.updateSeasonalInfoFromExternalSource(
+          record.type,
+          record.name,
+          record.progress,
+          record.areas
+        ));
+      }
+    }
+
+    return { savedIds, records, issues };
+  } catch (error) {
+    console.error('Error importing seasonal data:', error);
+    throw error;
+  }
+};
+
+// ファイルを取り込んで保存（形式は拡張子で判定）
+export const importSeasonalFile = async (
+  file: File,
+  options: SeasonalImportOptions & { dryRun?: boolean } = {}
+): Promise<SeasonalImportSummary> => {
+  try {
+    const importer = findSeasonalImporterForFile(file.name);
+    if (!importer) {
+      throw new Error(`Unsupported seasonal data file: ${file.name}`);
+    }
+
+    const content = await file.text();
+    return await importSeasonalData(content, importer.format, options);
+  } catch (error) {
+    console.error('Error importing seasonal file:', error);
+    throw error;
+  }
+};
+
+export default {
+  KNOWN_SEASONAL_AREAS,
+  mapStatusToProgress,
+  resolveAreaName,
+  registerSeasonalImporter,
+  getSeasonalImporter,
+  findSeasonalImporterForFile,
+  importSeasonalData,
+  importSeasonalFile
+};
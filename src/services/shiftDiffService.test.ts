@@ -0,0 +1,152 @@
+import { applyShiftDiff, diffShifts, groupChangesByDate } from './shiftDiffService';
+import * as shiftService from './shiftService';
+import { Shift } from '../types/models';
+
+jest.mock('./shiftService', () => ({
+  ...jest.requireActual('./shiftService'),
+  applyShiftChangesInBatch: jest.fn()
+}));
+
+const april = (day: number): Date => new Date(2025, 3, day);
+
+const shift = (
+  id: string,
+  userId: string,
+  date: Date,
+  storeId: string,
+  startTime: string = '09:00',
+  endTime: string = '17:00',
+  extra: Partial<Shift> = {}
+): Shift => ({ id, userId, date, storeId, startTime, endTime, status: 'planned', ...extra });
+
+// 提案段階のシフト（idなし）
+const proposed = (...args: Parameters<typeof shift>): Omit<Shift, 'id'> => {
+  const { id, ...rest } = shift(...args);
+  return rest;
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('diffShifts', () => {
+  test('classifies added, removed, time changes and store moves', () => {
+    const current = [
+      shift('s1', 'user1', april(8), 'store1'),
+      shift('s2', 'user2', april(8), 'store1'),
+      shift('s3', 'user3', april(8), 'store1'),
+      shift('s4', 'user4', april(8), 'store1')
+    ];
+    const next = [
+      proposed('', 'user1', april(8), 'store1'),
+      proposed('', 'user2', april(8), 'store1', '10:00', '18:00'),
+      proposed('', 'user3', april(8), 'store2'),
+      proposed('', 'user5', april(8), 'store1')
+    ];
+
+    const diff = diffShifts(current, next);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, timeChanged: 1, storeMoved: 1 });
+    expect(diff.changes.map(change => [change.type, change.userId, change.storeId])).toEqual([
+      ['timeChanged', 'user2', 'store1'],
+      ['storeMoved', 'user3', 'store2'],
+      ['removed', 'user4', 'store1'],
+      ['added', 'user5', 'store1']
+    ]);
+  });
+
+  test('gives each split shift at the same store its own change id', () => {
+    const diff = diffShifts(
+      [
+        shift('morning', 'user1', april(8), 'store1', '09:00', '12:00'),
+        shift('evening', 'user1', april(8), 'store1', '17:00', '20:00')
+      ],
+      [
+        proposed('', 'user1', april(8), 'store1', '09:00', '13:00'),
+        proposed('', 'user1', april(8), 'store1', '16:00', '20:00')
+      ]
+    );
+
+    const changeIds = diff.changes.map(change => change.changeId);
+    expect(changeIds).toHaveLength(2);
+    expect(new Set(changeIds).size).toBe(2);
+    expect(diff.changes.map(change => change.before?.id)).toEqual(['morning', 'evening']);
+  });
+});
+
+describe('groupChangesByDate', () => {
+  test('groups changes by date key', () => {
+    const diff = diffShifts(
+      [shift('s1', 'user1', april(8), 'store1'), shift('s2', 'user1', april(9), 'store1')],
+      [proposed('', 'user2', april(8), 'store1')]
+    );
+
+    const grouped = groupChangesByDate(diff);
+
+    expect(Object.keys(grouped).sort()).toEqual(['2025-04-08', '2025-04-09']);
+    expect(grouped['2025-04-08'].map(change => change.type).sort()).toEqual(['added', 'removed']);
+  });
+});
+
+describe('applyShiftDiff', () => {
+  const current = [
+    shift('s1', 'user1', april(8), 'store1', '09:00', '17:00', { timeSlotId: 'store1-morning' }),
+    shift('s2', 'user2', april(8), 'store1', '09:00', '17:00', { timeSlotId: 'store1-morning' }),
+    shift('s3', 'user3', april(8), 'store1')
+  ];
+  const next = [
+    proposed('', 'user1', april(8), 'store2', '10:00', '18:00'),
+    proposed('', 'user2', april(8), 'store1', '12:00', '20:00', { timeSlotId: 'store1-evening' }),
+    proposed('', 'user4', april(8), 'store1')
+  ];
+
+  test('applies accepted changes in a single batch and skips the rest', async () => {
+    (shiftService.applyShiftChangesInBatch as jest.Mock).mockResolvedValue(['new1']);
+    const diff = diffShifts(current, next);
+    const decisions = Object.fromEntries(diff.changes.map(change => [
+      change.changeId,
+      change.type === 'added' ? 'reject' as const : 'accept' as const
+    ]));
+
+    const result = await applyShiftDiff(diff, decisions, { relationshipCheck: 'reject' });
+
+    expect(shiftService.applyShiftChangesInBatch).toHaveBeenCalledTimes(1);
+    const [changeSet, options] = (shiftService.applyShiftChangesInBatch as jest.Mock).mock.calls[0];
+    expect(options).toEqual({ relationshipCheck: 'reject' });
+    expect(changeSet.create).toEqual([]);
+    expect(changeSet.deleteIds).toEqual(['s3']);
+
+    // 店舗移動は移動前の店舗の時間帯を残さず、時間変更は変更後の時間帯に置き換える
+    const updates = Object.fromEntries(changeSet.update.map((update: Shift) => [update.id, update]));
+    expect(updates.s1).toMatchObject({ storeId: 'store2', startTime: '10:00', endTime: '18:00', timeSlotId: undefined });
+    expect(updates.s2).toMatchObject({ storeId: 'store1', startTime: '12:00', timeSlotId: 'store1-evening' });
+
+    expect(result).toEqual({
+      createdShiftIds: ['new1'],
+      updatedShiftIds: expect.arrayContaining(['s1', 's2']),
+      deletedShiftIds: ['s3'],
+      skippedChangeIds: [diff.changes.find(change => change.type === 'added')?.changeId]
+    });
+  });
+
+  test('does not write when nothing is accepted', async () => {
+    const diff = diffShifts(current, next);
+
+    const result = await applyShiftDiff(diff, {});
+
+    expect(shiftService.applyShiftChangesInBatch).not.toHaveBeenCalled();
+    expect(result.skippedChangeIds).toHaveLength(diff.changes.length);
+  });
+
+  test('propagates a failed batch without applying changes one by one', async () => {
+    (shiftService.applyShiftChangesInBatch as jest.Mock).mockRejectedValue(new Error('Relationship constraint violated'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const diff = diffShifts(current, next);
+    const decisions = Object.fromEntries(diff.changes.map(change => [change.changeId, 'accept' as const]));
+
+    await expect(applyShiftDiff(diff, decisions)).rejects.toThrow('Relationship constraint violated');
+    expect(shiftService.applyShiftChangesInBatch).toHaveBeenCalledTimes(1);
+    (console.error as jest.Mock).mockRestore();
+  });
+});
@@ -0,0 +1,283 @@
+// src/services/shiftDiffService.ts
+import { Shift } from '../types/models';
+import * as shiftService from './shiftService';
+import * as shiftPlanService from './shiftPlanService';
+
+// 変更の種類（追加・削除・時間変更・店舗移動）
+export type ShiftChangeType = 'added' | 'removed' | 'timeChanged' | 'storeMoved';
+
+// 比較対象のシフト（提案段階のシフトはidを持たない）
+export type ShiftLike = Omit<Shift, 'id'> & { id?: string };
+
+// シフトの変更1件
+export interface ShiftChange {
+  /** 変更の識別子（採用・却下の指定に使用） */
+  changeId: string;
+  type: ShiftChangeType;
+  userId: string;
+  date: Date;
+  /** 変更後の店舗（削除の場合は変更前の店舗） */
+  storeId: string;
+  /** 変更前のシフト（追加の場合はなし） */
+  before?: Shift;
+  /** 変更後のシフト（削除の場合はなし） */
+  after?: ShiftLike;
+}
+
+// 2つのシフト一覧の差分
+export interface ShiftDiff {
+  changes: ShiftChange[];
+  unchangedCount: number;
+  summary: Record<ShiftChangeType, number>;
+}
+
+// 変更ごとの採否
+export type ShiftChangeDecision = 'accept' | 'reject';
+
+// 差分の適用結果
+export interface ShiftMergeResult {
+  createdShiftIds: string[];
+  updatedShiftIds: string[];
+  deletedShiftIds: string[];
+  skippedChangeIds: string[];
+}
+
+// 従業員・日付のキー
+const userDateKey = (shift: ShiftLike): string =>
+  `${shift.userId}|${shiftService.formatDateKey(shift.date)}`;
+
+const isSameTime = (a: ShiftLike, b: ShiftLike): boolean =>
+  a.startTime === b.startTime &&
+  a.endTime === b.endTime &&
+  shiftService.getEndDayOffset(a) === shiftService.getEndDayOffset(b);
+
+// シフト一覧の差分を計算（従業員・店舗・日付をキーに比較）
+// current: 現在のシフト（保存済み）、proposed: 新しいシフト案
+export const diffShifts = (current: Shift[], proposed: ShiftLike[]): ShiftDiff => {
+  const changes: ShiftChange[] = [];
+  let unchangedCount = 0;
+
+  // 従業員・日付ごとにグループ化
+  const groups = new Map<string, { current: Shift[]; proposed: ShiftLike[] }>();
+  current.forEach(shift => {
+    const key = userDateKey(shift);
+    const group = groups.get(key) || { current: [], proposed: [] };
+    group.current.push(shift);
+    groups.set(key, group);
+  });
+  proposed.forEach(shift => {
+    const key = userDateKey(shift);
+    const group = groups.get(key) || { current: [], proposed: [] };
+    group.proposed.push(shift);
+    groups.set(key, group);
+  });
+
+  const sortedKeys = Array.from(groups.keys()).sort();
+
+  sortedKeys.forEach(key => {
+    const group = groups.get(key);
+    if (!group) return;
+
+    const remainingCurrent = [...group.current];
+    const remainingProposed: ShiftLike[] = [];
+
+    // 1. 同じ店舗のシフト同士を対応付け（時間が異なれば時間変更）
+    group.proposed.forEach(proposedShift => {
+      const index = remainingCurrent.findIndex(shift => shift.storeId === proposedShift.storeId);
+      if (index === -1) {
+        remainingProposed.push(proposedShift);
+        return;
+      }
+
+      const [currentShift] = remainingCurrent.splice(index, 1);
+      if (isSameTime(currentShift, proposedShift)) {
+        unchangedCount++;
+      } else {
+        changes.push({
+          changeId: `timeChanged|${key}|${currentShift.storeId}|${currentShift.id}`,
+          type: 'timeChanged',
+          userId: currentShift.userId,
+          date: currentShift.date,
+          storeId: currentShift.storeId,
+          before: currentShift,
+          after: proposedShift
+        });
+      }
+    });
+
+    // 2. 残りを順に対応付け（店舗移動）
+    while (remainingCurrent.length > 0 && remainingProposed.length > 0) {
+      const currentShift = remainingCurrent.shift() as Shift;
+      const proposedShift = remainingProposed.shift() as ShiftLike;
+      changes.push({
+        changeId: `storeMoved|${key}|${currentShift.storeId}>${proposedShift.storeId}|${currentShift.id}`,
+        type: 'storeMoved',
+        userId: currentShift.userId,
+        date: currentShift.date,
+        storeId: proposedShift.storeId,
+        before: currentShift,
+        after: proposedShift
+      });
+    }
+
+    // 3. 対応しないものは追加・削除
+    remainingProposed.forEach((proposedShift, index) => {
+      changes.push({
+        changeId: `added|${key}|${proposedShift.storeId}|${index}`,
+        type: 'added',
+        userId: proposedShift.userId,
+        date: proposedShift.date,
+        storeId: proposedShift.storeId,
+        after: proposedShift
+      });
+    });
+    remainingCurrent.forEach((currentShift, index) => {
+      changes.push({
+        changeId: `removed|${key}|${currentShift.storeId}|${index}`,
+        type: 'removed',
+        userId: currentShift.userId,
+        date: currentShift.date,
+        storeId: currentShift.storeId,
+        before: currentShift
+      });
+    });
+  });
+
+  const summary: Record<ShiftChangeType, number> = {
+    added: 0,
+    removed: 0,
+    timeChanged: 0,
+    storeMoved: 0
+  };
+  changes.forEach(change => {
+    summary[change.type]++;
+  });
+
+  return { changes, unchangedCount, summary };
+};
+
+// 差分を日付ごとにまとめる（カレンダー表示用、キーはYYYY-MM-DD）
+export const groupChangesByDate = (diff: ShiftDiff): Record<string, ShiftChange[]> => {
+  const grouped: Record<string, ShiftChange[]> = {};
+  diff.changes.forEach(change => {
+    const dateKey = shiftService.formatDateKey(change.date);
+    grouped[dateKey] = [...(grouped[dateKey] || []), change];
+  });
+  return grouped;
+};
+
+// 現在のシフトと新しいシフト案の差分
+export const diffAgainstCurrentSchedule = async (
+  proposed: ShiftLike[],
+  startDate: Date,
+  endDate: Date,
+  storeId?: string
+): Promise<ShiftDiff> => {
+  try {
+    const current = storeId
+      ? await shiftService.getStoreShifts(storeId, startDate, endDate)
+      : await shiftService.getAllShifts(startDate, endDate);
+
+    const targetProposed = storeId
+      ? proposed.filter(shift => shift.storeId === storeId)
+      : proposed;
+
+    return diffShifts(current, targetProposed);
+  } catch (error) {
+    console.error('Error diffing against current schedule:', error);
+    throw error;
+  }
+};
+
+// 2つのシフト計画の差分（baseからtargetへの変更）
+export const diffShiftPlans = async (
+  basePlanId: string,
+  targetPlanId: string
+): Promise<ShiftDiff> => {
+  try {
+    const [baseShifts, targetShifts] = await Promise.all([
+      shiftPlanService.getPlanShifts(basePlanId),
+      shiftPlanService.getPlanShifts(targetPlanId)
+    ]);
+
+    return diffShifts(baseShifts, targetShifts);
+  } catch (error) {
+    console.error('Error diffing shift plans:', error);
+    throw error;
+  }
+};
+
+// 採用された変更のみを反映（採否が指定されていない変更は反映しない）
+// 削除・更新・追加を1つのバッチで反映し、途中で失敗した場合は何も反映しない
+export const applyShiftDiff = async (
+  diff: ShiftDiff,
+  decisions: Record<string, ShiftChangeDecision>,
+  options: shiftService.ShiftWriteOptions = {}
+): Promise<ShiftMergeResult> => {
+  const result: ShiftMergeResult = {
+    createdShiftIds: [],
+    updatedShiftIds: [],
+    deletedShiftIds: [],
+    skippedChangeIds: []
+  };
+
+  try {
+    const accepted = diff.changes.filter(change => decisions[change.changeId] === 'accept');
+    result.skippedChangeIds = diff.changes
+      .filter(change => decisions[change.changeId] !== 'accept')
+      .map(change => change.changeId);
+
+    // 追加
+    const shiftsToCreate = accepted
+      .filter(change => change.type === 'added' && change.after)
+      .map(change => {
+        const { id, ...shift } = change.after as ShiftLike;
+        return shift;
+      });
+
+    // 時間変更・店舗移動は既存シフトを更新
+    // 時間帯枠は変更後のものに置き換え（変更後にない場合は削除、移動前の店舗の枠は残さない）
+    const shiftsToUpdate = accepted
+      .filter(change => (change.type === 'timeChanged' || change.type === 'storeMoved') && change.before && change.after)
+      .map(change => {
+        const before = change.before as Shift;
+        const after = change.after as ShiftLike;
+        return {
+          ...before,
+          storeId: after.storeId,
+          startTime: after.startTime,
+          endTime: after.endTime,
+          endDayOffset: shiftService.getEndDayOffset(after),
+          timeSlotId: after.timeSlotId
+        };
+      });
+
+    const shiftIdsToDelete = accepted
+      .filter(change => change.type === 'removed' && change.before)
+      .map(change => (change.before as Shift).id);
+
+    if (shiftsToCreate.length + shiftsToUpdate.length + shiftIdsToDelete.length === 0) {
+      return result;
+    }
+
+    result.createdShiftIds = await shiftService.applyShiftChangesInBatch(
+      { create: shiftsToCreate, update: shiftsToUpdate, deleteIds: shiftIdsToDelete },
+      options
+    );
+    result.updatedShiftIds = shiftsToUpdate.map(shift => shift.id);
+    result.deletedShiftIds = shiftIdsToDelete;
+
+    return result;
+  } catch (error) {
+    console.error('Error applying shift diff:', error);
+    throw error;
+  }
+};
+
+export default {
+  diffShifts,
+  groupChangesByDate,
+  diffAgainstCurrentSchedule,
+  diffShiftPlans,
+  applyShiftDiff
+};
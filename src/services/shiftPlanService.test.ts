@@ -0,0 +1,212 @@
+import {
+  archiveShiftPlan,
+  publishShiftPlan,
+  returnShiftPlanToDraft,
+  submitShiftPlanForReview
+} from './shiftPlanService';
+import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
+import { Shift } from '../types/models';
+
+jest.mock('./firestoreService', () => ({
+  ...jest.requireActual('./firestoreService'),
+  getDocument: jest.fn(),
+  getCollection: jest.fn(),
+  setDocument: jest.fn(),
+  updateDocument: jest.fn(),
+  deleteDocument: jest.fn(),
+  getDocumentRef: jest.fn(),
+  createWhereConstraint: jest.fn(),
+  createBatch: jest.fn(),
+  runFirestoreTransaction: jest.fn()
+}));
+
+type DocumentRef = { collection: string; id: string };
+
+// コレクション名 → ドキュメントID → データ（メモリ上のFirestore）
+let collections: Record<string, Record<string, any>>;
+let batchCommit: jest.Mock;
+
+const readDocument = (collection: string, id: string) => {
+  const data = collections[collection]?.[id];
+  return data ? { ...data, id } : null;
+};
+
+const writeDocument = ({ collection, id }: DocumentRef, data: any, merge: boolean = true) => {
+  collections[collection] = collections[collection] || {};
+  collections[collection][id] = merge ? { ...collections[collection][id], ...data } : { ...data };
+};
+
+const matchesConstraint = (item: any, constraint: any): boolean => {
+  if (constraint?.operator === '==') return item[constraint.field] === constraint.value;
+  if (constraint?.operator === 'in') return constraint.value.includes(item[constraint.field]);
+  return true;
+};
+
+const mocked = (fn: unknown) => fn as jest.Mock;
+
+const planStatus = (planId: string) => collections.shiftPlans[planId].status;
+
+const april = (day: number): Date => new Date(2025, 3, day);
+
+const shift = (storeId: string, date: Date, planId?: string): Omit<Shift, 'id'> => ({
+  userId: 'user1',
+  storeId,
+  date,
+  startTime: '09:00',
+  endTime: '17:00',
+  status: 'planned',
+  ...(planId && { planId })
+});
+
+beforeEach(() => {
+  // 2025年4月の宇治本店：バージョン1が公開中、バージョン2が下書き
+  collections = {
+    shiftPlans: {
+      plan1: { storeId: 'store1', year: 2025, month: 4, version: 1, status: 'published', createdBy: 'admin' },
+      plan2: { storeId: 'store1', year: 2025, month: 4, version: 2, status: 'draft', createdBy: 'admin' }
+    },
+    shiftPlanCounters: {
+      store1_2025_4: { latestVersion: 2, publishedPlanId: 'plan1' }
+    },
+    shifts: {
+      published: shift('store1', april(8), 'plan1'),
+      draft: shift('store1', april(8), 'plan2'),
+      legacy: shift('store1', april(9)),
+      nextMonth: shift('store1', new Date(2025, 4, 1)),
+      otherStore: shift('store2', april(9))
+    }
+  };
+  batchCommit = jest.fn().mockResolvedValue(undefined);
+
+  mocked(firestoreService.getDocumentRef).mockImplementation((collection: string, id: string) => ({ collection, id }));
+  mocked(firestoreService.getDocument).mockImplementation(async (collection: string, id: string) =>
+    readDocument(collection, id)
+  );
+  mocked(firestoreService.createWhereConstraint).mockImplementation(
+    (field: string, operator: string, value: unknown) => ({ field, operator, value })
+  );
+  mocked(firestoreService.getCollection).mockImplementation(async (collection: string, constraints: any[] = []) =>
+    Object.keys(collections[collection] || {})
+      .map(id => readDocument(collection, id))
+      .filter(item => constraints.every(constraint => matchesConstraint(item, constraint)))
+  );
+  mocked(firestoreService.setDocument).mockImplementation(async (collection: string, data: any, id: string) => {
+    writeDocument({ collection, id }, data, false);
+    return id;
+  });
+  mocked(firestoreService.updateDocument).mockImplementation(async (collection: string, id: string, data: any) => {
+    writeDocument({ collection, id }, data);
+  });
+  mocked(firestoreService.createBatch).mockImplementation(() => ({
+    set: (ref: DocumentRef, data: any) => writeDocument(ref, data, false),
+    update: (ref: DocumentRef, data: any) => writeDocument(ref, data),
+    delete: jest.fn(),
+    commit: batchCommit
+  }));
+  mocked(firestoreService.runFirestoreTransaction).mockImplementation(async callback => callback({
+    get: async (ref: DocumentRef) => {
+      const data = readDocument(ref.collection, ref.id);
+      return { exists: () => !!data, data: () => data };
+    },
+    update: (ref: DocumentRef, data: any) => writeDocument(ref, data),
+    set: (ref: DocumentRef, data: any, options?: { merge?: boolean }) => writeDocument(ref, data, !!options?.merge)
+  }));
+
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+});
+
+describe('shift plan status flow', () => {
+  test('moves a plan from draft to review, published and archived', async () => {
+    await submitShiftPlanForReview('plan2');
+    expect(planStatus('plan2')).toBe('review');
+
+    await returnShiftPlanToDraft('plan2');
+    expect(planStatus('plan2')).toBe('draft');
+
+    await submitShiftPlanForReview('plan2');
+    await publishShiftPlan('plan2', 'admin');
+    expect(planStatus('plan2')).toBe('published');
+    expect(collections.shiftPlans.plan2.publishedBy).toBe('admin');
+    expect(collections.shiftPlanCounters.store1_2025_4.publishedPlanId).toBe('plan2');
+
+    // 以前の公開版はアーカイブ
+    expect(planStatus('plan1')).toBe('archived');
+
+    await archiveShiftPlan('plan2');
+    expect(planStatus('plan2')).toBe('archived');
+  });
+
+  test('rejects transitions that skip a step', async () => {
+    await expect(publishShiftPlan('plan2', 'admin')).rejects.toThrow('Cannot change shift plan plan2 from draft to published');
+    await expect(archiveShiftPlan('plan2')).rejects.toThrow('Cannot change shift plan plan2 from draft to archived');
+    expect(planStatus('plan1')).toBe('published');
+  });
+
+  test('archives a version published after the plan list was read', async () => {
+    collections.shiftPlans.plan2.status = 'review';
+    // 一覧の取得時点ではplan1が公開されていなかった場合もカウンターの記録からアーカイブする
+    mocked(firestoreService.getCollection).mockResolvedValueOnce([]);
+
+    await publishShiftPlan('plan2', 'admin');
+
+    expect(planStatus('plan1')).toBe('archived');
+    expect(planStatus('plan2')).toBe('published');
+  });
+
+  test('does not publish a plan whose status changed before the transaction', async () => {
+    // 確認中として読み込んだ後に差し戻された場合
+    mocked(firestoreService.getDocument).mockResolvedValueOnce({ ...readDocument('shiftPlans', 'plan2'), status: 'review' });
+
+    await expect(publishShiftPlan('plan2', 'admin')).rejects.toThrow('from draft to published');
+    expect(planStatus('plan1')).toBe('published');
+    expect(planStatus('plan2')).toBe('draft');
+  });
+});
+
+describe('shift queries by plan', () => {
+  const shiftIds = (shifts: Shift[]): string[] => shifts.map(item => item.id).sort();
+
+  test('returns only published shifts by default', async () => {
+    const shifts = await shiftService.getAllShifts(april(1), new Date(2025, 4, 31));
+
+    // 計画のある月の計画外のシフトは非表示
+    expect(shiftIds(shifts)).toEqual(['nextMonth', 'otherStore', 'published']);
+  });
+
+  test('includes unpublished shifts or filters by plan on request', async () => {
+    expect(shiftIds(await shiftService.getAllShifts(april(1), april(30), { includeUnpublished: true })))
+      .toEqual(['draft', 'legacy', 'nextMonth', 'otherStore', 'published']);
+    expect(shiftIds(await shiftService.getAllShifts(april(1), april(30), { planId: 'plan2' }))).toEqual(['draft']);
+  });
+});
+
+describe('shift plan edit lock', () => {
+  test('rejects writes to shifts of a published plan', async () => {
+    const locked = 'Shifts in shift plan plan1 are not editable (status: published)';
+
+    await expect(shiftService.saveShift({ ...shift('store1', april(10), 'plan1'), id: '' })).rejects.toThrow(locked);
+    await expect(shiftService.updateShift('published', { startTime: '10:00' })).rejects.toThrow(locked);
+    await expect(shiftService.deleteShift('published')).rejects.toThrow(locked);
+    await expect(shiftService.createShiftsInBatch([shift('store1', april(10))], { planId: 'plan1' })).rejects.toThrow(locked);
+
+    // 下書きのシフトを公開中の計画に移すことも不可
+    await expect(shiftService.updateShift('draft', { planId: 'plan1' })).rejects.toThrow(locked);
+
+    expect(firestoreService.setDocument).not.toHaveBeenCalled();
+    expect(firestoreService.updateDocument).not.toHaveBeenCalled();
+    expect(firestoreService.deleteDocument).not.toHaveBeenCalled();
+    expect(batchCommit).not.toHaveBeenCalled();
+  });
+
+  test('allows writes to shifts of a draft plan', async () => {
+    await shiftService.updateShift('draft', { startTime: '10:00' });
+
+    expect(collections.shifts.draft.startTime).toBe('10:00');
+  });
+});
@@ -0,0 +1,434 @@
+// src/services/shiftPlanService.ts
+import {
+  QueryConstraint,
+  Timestamp,
+  doc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { Shift, ShiftPlan, ShiftPlanStatus } from '../types/models';
+import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'shiftPlans';
+const SHIFTS_COLLECTION_NAME: firestoreService.CollectionName = 'shifts';
+const COUNTER_COLLECTION_NAME: firestoreService.CollectionName = 'shiftPlanCounters';
+
+// 状態遷移の定義（遷移元 → 許可される遷移先）
+const STATUS_TRANSITIONS: Record<ShiftPlanStatus, ShiftPlanStatus[]> = {
+  draft: ['review'],
+  review: ['draft', 'published'],
+  published: ['archived'],
+  archived: []
+};
+
+// タイムスタンプ変換ユーティリティ
+const convertTimestamps = (plan: ShiftPlan): ShiftPlan => {
+  const convertedPlan = { ...plan };
+
+  if (convertedPlan.createdAt instanceof Timestamp) {
+    convertedPlan.createdAt = firestoreService.convertTimestampToDate(convertedPlan.createdAt);
+  }
+
+  if (convertedPlan.submittedAt instanceof Timestamp) {
+    convertedPlan.submittedAt = firestoreService.convertTimestampToDate(convertedPlan.submittedAt);
+  }
+
+  if (convertedPlan.publishedAt instanceof Timestamp) {
+    convertedPlan.publishedAt = firestoreService.convertTimestampToDate(convertedPlan.publishedAt);
+  }
+
+  if (convertedPlan.archivedAt instanceof Timestamp) {
+    convertedPlan.archivedAt = firestoreService.convertTimestampToDate(convertedPlan.archivedAt);
+  }
+
+  return convertedPlan;
+};
+
+// 状態遷移の検証
+const assertTransition = (plan: ShiftPlan, nextStatus: ShiftPlanStatus): void => {
+  if (!STATUS_TRANSITIONS[plan.status].includes(nextStatus)) {
+    throw new Error(`Cannot change shift plan ${plan.id} from ${plan.status} to ${nextStatus}`);
+  }
+};
+
+// 計画の取得（存在しない場合はエラー）
+const requirePlan = async (planId: string): Promise<ShiftPlan> => {
+  const plan = await getShiftPlanById(planId);
+  if (!plan) {
+    throw new Error(`Shift plan with ID ${planId} not found`);
+  }
+  return plan;
+};
+
+// シフト計画取得
+export const getShiftPlanById = async (planId: string): Promise<ShiftPlan | null> => {
+  try {
+    const planData = await firestoreService.getDocument<ShiftPlan>(COLLECTION_NAME, planId);
+    return planData ? convertTimestamps(planData) : null;
+  } catch (error) {
+    console.error('Error fetching shift plan:', error);
+    throw error;
+  }
+};
+
+// 店舗・年月のシフト計画一覧（新しいバージョン順）
+export const getShiftPlans = async (
+  storeId: string,
+  year: number,
+  month: number
+): Promise<ShiftPlan[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('storeId', '==', storeId),
+      firestoreService.createWhereConstraint('year', '==', year),
+      firestoreService.createWhereConstraint('month', '==', month)
+    ];
+
+    const plans = await firestoreService.getCollection<ShiftPlan>(COLLECTION_NAME, constraints);
+
+    return plans
+      .map(plan => convertTimestamps(plan))
+      .sort((a, b) => b.version - a.version);
+  } catch (error) {
+    console.error('Error fetching shift plans:', error);
+    throw error;
+  }
+};
+
+// 公開中のシフト計画取得
+export const getPublishedShiftPlan = async (
+  storeId: string,
+  year: number,
+  month: number
+): Promise<ShiftPlan | null> => {
+  try {
+    const plans = await getShiftPlans(storeId, year, month);
+    return plans.find(plan => plan.status === 'published') || null;
+  } catch (error) {
+    console.error('Error fetching published shift plan:', error);
+    throw error;
+  }
+};
+
+// 計画に属するシフト取得
+export const getPlanShifts = async (planId: string): Promise<Shift[]> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      firestoreService.createWhereConstraint('planId', '==', planId)
+    ];
+
+    const shifts = await firestoreService.getCollection<Shift>(SHIFTS_COLLECTION_NAME, constraints);
+
+    // Timestamp型のdateをDate型に変換
+    return shifts
+      .map(shift => {
+        if (shift.date instanceof Timestamp) {
+          shift.date = firestoreService.convertTimestampToDate(shift.date);
+        }
+        return shift;
+      })
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  } catch (error) {
+    console.error('Error fetching plan shifts:', error);
+    throw error;
+  }
+};
+
+// 新規シフト計画（下書き）の作成
+// バージョン番号は店舗・年月ごとのカウンターからトランザクション内で採番（同時に作成しても重複しない）
+export const createShiftPlan = async (
+  storeId: string,
+  year: number,
+  month: number,
+  createdBy: string,
+  note: string = ''
+): Promise<string> => {
+  try {
+    // カウンター導入前に作成された計画がある場合は、その最新バージョンから採番
+    const plans = await getShiftPlans(storeId, year, month);
+    const existingVersion = plans.length > 0 ? plans[0].version : 0;
+
+    const counterRef = firestoreService.getDocumentRef(COUNTER_COLLECTION_NAME, `${storeId}_${year}_${month}`);
+    const planRef = doc(firestoreService.getCollectionRef(COLLECTION_NAME));
+
+    await firestoreService.runFirestoreTransaction(async transaction => {
+      const counterDoc = await transaction.get(counterRef);
+      const latestVersion = counterDoc.exists()
+        ? Math.max(counterDoc.data().latestVersion || 0, existingVersion)
+        : existingVersion;
+      const nextVersion = latestVersion + 1;
+
+      transaction.set(counterRef, {
+        storeId,
+        year,
+        month,
+        latestVersion: nextVersion,
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+
+      transaction.set(planRef, {
+        storeId,
+        year,
+        month,
+        version: nextVersion,
+        status: 'draft',
+        createdBy,
+        note,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    });
+
+    return planRef.id;
+  } catch (error) {
+    console.error('Error creating shift plan:', error);
+    throw error;
+  }
+};
+
+// 既存の計画を複製して新しいバージョンの下書きを作成
+export const duplicateShiftPlan = async (
+  sourcePlanId: string,
+  createdBy: string,
+  note: string = ''
+): Promise<string> => {
+  try {
+    const sourcePlan = await requirePlan(sourcePlanId);
+    const planId = await createShiftPlan(sourcePlan.storeId, sourcePlan.year, sourcePlan.month, createdBy, note);
+    await firestoreService.updateDocument<ShiftPlan>(COLLECTION_NAME, planId, { sourcePlanId });
+
+    const sourceShifts = await getPlanShifts(sourcePlanId);
+    if (sourceShifts.length > 0) {
+      await shiftService.createShiftsInBatch(
+        sourceShifts.map(({ id, planId: _planId, ...shift }) => shift),
+        { planId }
+      );
+    }
+
+    return planId;
+  } catch (error) {
+    console.error('Error duplicating shift plan:', error);
+    throw error;
+  }
+};
+
+// 下書きの計画にシフトを追加
+export const addShiftsToPlan = async (
+  planId: string,
+  shifts: Omit<Shift, 'id'>[],
+  options: Omit<shiftService.ShiftWriteOptions, 'planId'> = {}
+): Promise<string[]> => {
+  try {
+    const plan = await requirePlan(planId);
+    if (plan.status !== 'draft') {
+      throw new Error(`Shift plan ${planId} is not editable (status: ${plan.status})`);
+    }
+
+    // 計画の店舗・年月以外のシフトは追加しない
+    const outOfScope = shifts.filter(shift =>
+      shift.storeId !== plan.storeId ||
+      shift.date.getFullYear() !== plan.year ||
+      shift.date.getMonth() + 1 !== plan.month
+    );
+    if (outOfScope.length > 0) {
+      throw new Error(`${outOfScope.length} shifts do not belong to shift plan ${planId}`);
+    }
+
+    return await shiftService.createShiftsInBatch(shifts, { ...options, planId });
+  } catch (error) {
+    console.error('Error adding shifts to plan:', error);
+    throw error;
+  }
+};
+
+// 確認依頼（下書き → 確認中）
+export const submitShiftPlanForReview = async (planId: string): Promise<void> => {
+  try {
+    const plan = await requirePlan(planId);
+    assertTransition(plan, 'review');
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, planId, {
+      status: 'review',
+      submittedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error submitting shift plan for review:', error);
+    throw error;
+  }
+};
+
+// 差し戻し（確認中 → 下書き）
+export const returnShiftPlanToDraft = async (planId: string): Promise<void> => {
+  try {
+    const plan = await requirePlan(planId);
+    assertTransition(plan, 'draft');
+
+    await firestoreService.updateDocument<ShiftPlan>(COLLECTION_NAME, planId, { status: 'draft' });
+  } catch (error) {
+    console.error('Error returning shift plan to draft:', error);
+    throw error;
+  }
+};
+
+// 公開済みの計画をアーカイブし、指定した計画を公開する
+// 店舗・年月のカウンターに公開中の計画を記録し、トランザクション内で状態を再確認して切り替える
+// （同時に公開・ロールバックしても公開中の版が複数にならない）
+const publishAndArchivePrevious = async (
+  plan: ShiftPlan,
+  publishedBy: string,
+  expectedStatus: ShiftPlanStatus
+): Promise<void> => {
+  // トランザクション内ではクエリを実行できないため、候補の計画を事前に取得
+  const plans = await getShiftPlans(plan.storeId, plan.year, plan.month);
+  const candidateIds = plans
+    .filter(other => other.id !== plan.id && other.status === 'published')
+    .map(other => other.id);
+
+  const counterRef = firestoreService.getDocumentRef(
+    COUNTER_COLLECTION_NAME,
+    `${plan.storeId}_${plan.year}_${plan.month}`
+  );
+  const planRef = firestoreService.getDocumentRef(COLLECTION_NAME, plan.id);
+
+  await firestoreService.runFirestoreTransaction(async transaction => {
+    const counterDoc = await transaction.get(counterRef);
+    const planDoc = await transaction.get(planRef);
+
+    if (!planDoc.exists()) {
+      throw new Error(`Shift plan with ID ${plan.id} not found`);
+    }
+    const currentStatus = planDoc.data().status as ShiftPlanStatus;
+    if (currentStatus !== expectedStatus) {
+      throw new Error(`Cannot change shift plan ${plan.id} from ${currentStatus} to published`);
+    }
+
+    // カウンターに記録された公開中の計画も対象（事前の取得後に公開された場合）
+    const recordedId: string | undefined = counterDoc.exists() ? counterDoc.data().publishedPlanId : undefined;
+    const previousIds = Array.from(new Set([...candidateIds, ...(recordedId ? [recordedId] : [])]))
+      .filter(previousId => previousId !== plan.id);
+
+    // 読み取りをすべて終えてから書き込む
+    const previousRefs = previousIds.map(previousId => firestoreService.getDocumentRef(COLLECTION_NAME, previousId));
+    const previousDocs = await Promise.all(previousRefs.map(previousRef => transaction.get(previousRef)));
+
+    previousRefs
+      .filter((_, index) => previousDocs[index].exists() && previousDocs[index].data().status === 'published')
+      .forEach(previousRef => {
+        transaction.update(previousRef, {
+          status: 'archived',
+          archivedAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+      });
+
+    transaction.update(planRef, {
+      status: 'published',
+      publishedAt: serverTimestamp(),
+      publishedBy,
+      updatedAt: serverTimestamp()
+    });
+
+    transaction.set(counterRef, {
+      storeId: plan.storeId,
+      year: plan.year,
+      month: plan.month,
+      publishedPlanId: plan.id,
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  });
+};
+
+// 公開（確認中 → 公開、以前の公開版はアーカイブ）
+export const publishShiftPlan = async (planId: string, publishedBy: string): Promise<void> => {
+  try {
+    const plan = await requirePlan(planId);
+    assertTransition(plan, 'published');
+
+    await publishAndArchivePrevious(plan, publishedBy, 'review');
+  } catch (error) {
+    console.error('Error publishing shift plan:', error);
+    throw error;
+  }
+};
+
+// アーカイブ（公開 → アーカイブ）
+export const archiveShiftPlan = async (planId: string): Promise<void> => {
+  try {
+    const plan = await requirePlan(planId);
+    assertTransition(plan, 'archived');
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, planId, {
+      status: 'archived',
+      archivedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error archiving shift plan:', error);
+    throw error;
+  }
+};
+
+// ロールバック（アーカイブ済みの版を新しいバージョンとして複製し、即時公開）
+export const rollbackShiftPlan = async (
+  archivedPlanId: string,
+  publishedBy: string
+): Promise<string> => {
+  try {
+    const archivedPlan = await requirePlan(archivedPlanId);
+    if (archivedPlan.status !== 'archived') {
+      throw new Error(`Only archived shift plans can be restored (status: ${archivedPlan.status})`);
+    }
+
+    const restoredPlanId = await duplicateShiftPlan(
+      archivedPlanId,
+      publishedBy,
+      `バージョン${archivedPlan.version}から復元`
+    );
+    const restoredPlan = await requirePlan(restoredPlanId);
+
+    await publishAndArchivePrevious(restoredPlan, publishedBy, 'draft');
+    return restoredPlanId;
+  } catch (error) {
+    console.error('Error rolling back shift plan:', error);
+    throw error;
+  }
+};
+
+// 下書きの計画を削除（所属するシフトも削除）
+export const deleteShiftPlan = async (planId: string): Promise<void> => {
+  try {
+    const plan = await requirePlan(planId);
+    if (plan.status !== 'draft') {
+      throw new Error(`Only draft shift plans can be deleted (status: ${plan.status})`);
+    }
+
+    const shifts = await getPlanShifts(planId);
+    const batch = firestoreService.createBatch();
+
+    shifts.forEach(shift => {
+      batch.delete(firestoreService.getDocumentRef(SHIFTS_COLLECTION_NAME, shift.id));
+    });
+    batch.delete(firestoreService.getDocumentRef(COLLECTION_NAME, planId));
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error deleting shift plan:', error);
+    throw error;
+  }
+};
+
+export default {
+  getShiftPlanById,
+  getShiftPlans,
+  getPublishedShiftPlan,
+  getPlanShifts,
+  createShiftPlan,
+  duplicateShiftPlan,
+  addShiftsToPlan,
+  submitShiftPlanForReview,
+  returnShiftPlanToDraft,
+  publishShiftPlan,
+  archiveShiftPlan,
+  rollbackShiftPlan,
+  deleteShiftPlan
+};
@@ -0,0 +1,243 @@
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+import {
+  generateDraftPreferencesForNonSubmitters,
+  getSubmissionStatusForMonth,
+  saveShiftPreference,
+  shiftDateToMonth,
+  updateShiftPreference
+} from './shiftPreferenceService';
+import * as firestoreService from './firestoreService';
+import { createTestUser } from './testFixtures';
+import { ShiftPreference } from '../types/models';
+
+jest.mock('./firestoreService', () => ({
+  ...jest.requireActual('./firestoreService'),
+  getDocument: jest.fn(),
+  getCollection: jest.fn(),
+  setDocument: jest.fn(),
+  updateDocument: jest.fn(),
+  createWhereConstraint: jest.fn(),
+  createOrderConstraint: jest.fn()
+}));
+
+// コレクション名 → ドキュメントID → データ（メモリ上のFirestore）
+let collections: Record<string, Record<string, any>>;
+let nextId: number;
+
+const readDocument = (collection: string, id: string) => {
+  const data = collections[collection]?.[id];
+  return data ? { ...data, id } : null;
+};
+
+const mocked = (fn: unknown) => fn as jest.Mock;
+
+const date = (month: number, day: number, hours: number = 0): Date => new Date(2025, month - 1, day, hours);
+
+const preference = (id: string, userId: string, overrides: Partial<ShiftPreference> = {}): ShiftPreference => ({
+  id,
+  userId,
+  year: 2025,
+  month: 5,
+  desiredDaysPerWeek: 3,
+  preferredWeekdays: ['monday', 'wednesday'],
+  unavailableDates: [],
+  notes: '',
+  submittedAt: date(4, 15),
+  ...overrides
+});
+
+// 2025年5月分の提出期間（4/20締切）
+const preferenceWindow = (overrides: Record<string, unknown> = {}) => ({
+  year: 2025,
+  month: 5,
+  opensAt: date(4, 1),
+  deadline: date(4, 20),
+  locked: false,
+  reopenings: [],
+  ...overrides
+});
+
+const storedPreference = (id: string) => collections.shiftPreferences[id];
+
+beforeEach(() => {
+  collections = {
+    users: {},
+    preferenceWindows: {},
+    preferenceProfiles: {},
+    shiftPreferences: {}
+  };
+  nextId = 1;
+
+  mocked(firestoreService.getDocument).mockImplementation(async (collection: string, id: string) =>
+    readDocument(collection, id)
+  );
+  mocked(firestoreService.createWhereConstraint).mockImplementation(
+    (field: string, operator: string, value: unknown) => ({ field, operator, value })
+  );
+  mocked(firestoreService.getCollection).mockImplementation(async (collection: string, constraints: any[] = []) =>
+    Object.keys(collections[collection] || {})
+      .map(id => readDocument(collection, id))
+      .filter(item => constraints.every(constraint => !constraint || item[constraint.field] === constraint.value))
+  );
+  mocked(firestoreService.setDocument).mockImplementation(async (collection: string, data: any, id?: string) => {
+    const documentId = id || `preference${nextId++}`;
+    collections[collection][documentId] = { ...data };
+    delete collections[collection][documentId].id;
+    return documentId;
+  });
+  mocked(firestoreService.updateDocument).mockImplementation(async (collection: string, id: string, data: any) => {
+    collections[collection][id] = { ...collections[collection][id], ...data };
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+});
+
+describe('preference window lock', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('rejects saving and updating while the window is locked', async () => {
+    collections.preferenceWindows['2025-05'] = preferenceWindow({ locked: true });
+    collections.shiftPreferences.preference1 = preference('preference1', 'user1');
+
+    await expect(saveShiftPreference(preference('', 'user2'))).rejects.toThrow('Shift preferences for 2025-05 are locked');
+    await expect(updateShiftPreference('preference1', { notes: '変更' })).rejects.toThrow('are locked');
+    expect(firestoreService.setDocument).not.toHaveBeenCalled();
+    expect(firestoreService.updateDocument).not.toHaveBeenCalled();
+  });
+
+  test('rejects saving before the window opens', async () => {
+    collections.preferenceWindows['2025-05'] = preferenceWindow({ opensAt: new Date(2100, 0, 1) });
+
+    await expect(saveShiftPreference(preference('', 'user1'))).rejects.toThrow('are not open yet');
+  });
+
+  test('accepts employees the window was reopened for and admin input', async () => {
+    collections.preferenceWindows['2025-05'] = preferenceWindow({
+      locked: true,
+      reopenings: [{ userId: 'user1', until: new Date(2100, 0, 1), reopenedBy: 'admin' }]
+    });
+
+    await saveShiftPreference(preference('', 'user1'));
+    await saveShiftPreference(preference('', 'user2'), { skipWindowCheck: true });
+
+    expect(Object.values(collections.shiftPreferences).map(item => item.userId)).toEqual(['user1', 'user2']);
+  });
+});
+
+describe('getSubmissionStatusForMonth', () => {
+  test('flags submissions after the deadline as late but not auto-filled drafts', async () => {
+    collections.preferenceWindows['2025-05'] = preferenceWindow();
+    ['user1', 'user2', 'user3', 'user4'].forEach(id => {
+      collections.users[id] = createTestUser(id);
+    });
+    collections.shiftPreferences = {
+      preference1: preference('preference1', 'user1', { submittedAt: date(4, 20) }),
+      preference2: preference('preference2', 'user2', { submittedAt: date(4, 20, 9) }),
+      preference3: preference('preference3', 'user3', { submittedAt: date(4, 25), autoFilled: true })
+    };
+
+    const status = await getSubmissionStatusForMonth(2025, 5, date(4, 21));
+
+    expect(status.userStatus.map(({ userId, submitted, late, autoFilled }) => ({ userId, submitted, late, autoFilled })))
+      .toEqual([
+        { userId: 'user1', submitted: true, late: false, autoFilled: false },
+        { userId: 'user2', submitted: true, late: true, autoFilled: false },
+        { userId: 'user3', submitted: false, late: false, autoFilled: true },
+        { userId: 'user4', submitted: false, late: false, autoFilled: false }
+      ]);
+    expect(status.lateUsers).toBe(1);
+    expect(status.pendingUserIds).toEqual(['user3', 'user4']);
+    expect(status.windowState).toBe('late');
+  });
+});
+
+describe('admin edits of auto-filled drafts', () => {
+  beforeEach(() => {
+    collections.shiftPreferences.preference1 = preference('preference1', 'user1', {
+      submittedAt: date(4, 25),
+      autoFilled: true
+    });
+  });
+
+  test('keep the draft state and submission time when saved by an admin', async () => {
+    await saveShiftPreference(preference('', 'user1', { notes: '管理者が入力' }), { adminEdit: true, skipWindowCheck: true });
+
+    const stored = storedPreference('preference1');
+    expect(stored.notes).toBe('管理者が入力');
+    expect(stored.autoFilled).toBe(true);
+    expect((stored.submittedAt as Timestamp).toDate()).toEqual(date(4, 25));
+
+    await updateShiftPreference('preference1', { notes: '再編集', autoFilled: false, submittedAt: date(4, 26) }, {
+      adminEdit: true,
+      skipWindowCheck: true
+    });
+
+    expect(storedPreference('preference1')).toMatchObject({ notes: '再編集', autoFilled: true });
+    expect((storedPreference('preference1').submittedAt as Timestamp).toDate()).toEqual(date(4, 25));
+  });
+
+  test('become a submission when the employee saves or updates', async () => {
+    await updateShiftPreference('preference1', { notes: '本人が更新' });
+
+    expect(storedPreference('preference1').autoFilled).toBe(false);
+    expect(storedPreference('preference1').submittedAt).toEqual(serverTimestamp());
+
+    collections.shiftPreferences.preference1.autoFilled = true;
+    await saveShiftPreference(preference('', 'user1'));
+
+    expect(storedPreference('preference1').autoFilled).toBe(false);
+    expect(storedPreference('preference1').submittedAt).toEqual(serverTimestamp());
+  });
+});
+
+describe('shiftDateToMonth', () => {
+  test('moves a date to the same nth weekday of the target month', () => {
+    // 4/8（第2火曜日） → 5/13
+    expect(shiftDateToMonth(date(4, 8), 2025, 5)).toEqual(date(5, 13));
+    // 12/1（第1月曜日） → 翌年1/5
+    expect(shiftDateToMonth(new Date(2025, 11, 1), 2026, 1)).toEqual(new Date(2026, 0, 5));
+  });
+
+  test('returns null for a 5th weekday the target month does not have', () => {
+    // 4/29（第5火曜日）、5月の火曜日は4回のみ
+    expect(shiftDateToMonth(date(4, 29), 2025, 5)).toBeNull();
+    // 12/31（第5水曜日）、2026年1月の水曜日は4回のみ
+    expect(shiftDateToMonth(new Date(2025, 11, 31), 2026, 1)).toBeNull();
+  });
+});
+
+describe('generateDraftPreferencesForNonSubmitters', () => {
+  test('creates auto-filled drafts from the previous month for employees who have not submitted', async () => {
+    collections.users = {
+      user1: createTestUser('user1'),
+      user2: createTestUser('user2'),
+      user3: createTestUser('user3'),
+      admin: createTestUser('admin', { role: 'admin' })
+    };
+    collections.shiftPreferences = {
+      submitted: preference('submitted', 'user1'),
+      autoFilled: preference('autoFilled', 'user3', { autoFilled: true }),
+      // user2の4月の希望（第5週の日付は5月に該当日がない）
+      april: preference('april', 'user2', {
+        month: 4,
+        unavailableDates: [date(4, 8), date(4, 29)],
+        dateAvailability: [{ date: date(4, 14), ranges: [{ startTime: '09:00', endTime: '13:00' }] }],
+        preferOffDates: [{ date: date(4, 30), level: 'high' }]
+      })
+    };
+
+    const preferenceIds = await generateDraftPreferencesForNonSubmitters(2025, 5);
+
+    expect(preferenceIds).toEqual(['preference1']);
+    const draft = storedPreference('preference1');
+    expect(draft).toMatchObject({ userId: 'user2', year: 2025, month: 5, autoFilled: true, seededFrom: 'previousMonth' });
+    expect(draft.unavailableDates.map((value: Timestamp) => value.toDate())).toEqual([date(5, 13)]);
+    expect(draft.dateAvailability.map((entry: { date: Timestamp }) => entry.date.toDate())).toEqual([date(5, 12)]);
+    expect(draft.preferOffDates).toEqual([]);
+  });
+});
@@ -7,33 +7,122 @@ import {
   Timestamp,
   serverTimestamp
 } from 'firebase/firestore';
-import { ShiftPreference } from '../types/models';
+import {
+  ShiftPreference,
+  Weekday,
+  TimeRange,
+  DateAvailability,
+  PreferOffDate,
+  PreferOffLevel,
+  PreferenceSeedSource
+} from '../types/models';
 import * as firestoreService from './firestoreService';
+import * as preferenceWindowService from './preferenceWindowService';
+import * as preferenceProfileService from './preferenceProfileService';
+import { PreferenceWindowState } from './preferenceWindowService';
 
 // コレクション名を定数化
 const COLLECTION_NAME: firestoreService.CollectionName = 'shiftPreferences';
 
+// シフト希望の保存オプション
+export interface ShiftPreferenceWriteOptions {
+  /** 提出期間の確認を省略するか（管理者による代理入力用） */
+  skipWindowCheck?: boolean;
+  /** 管理者による編集か（本人の提出として扱わず、自動作成の下書きの状態・提出日時を変更しない） */
+  adminEdit?: boolean;
+}
+
+// 従業員ごとの提出状況
+export interface PreferenceSubmissionUserStatus {
+  userId: string;
+  submitted: boolean;
+  submittedAt?: Date;
+  /** 締切後に提出されたか */
+  late: boolean;
+  /** 個別に提出が再開されているか */
+  reopened: boolean;
+  /** 管理者が自動作成した下書きのみで、本人は未提出か */
+  autoFilled: boolean;
+}
+
+// 曜日キー（Date.getDay()の順）
+const WEEKDAY_KEYS: Weekday[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+const isSameDate = (date1: Date, date2: Date): boolean =>
+  date1.getFullYear() === date2.getFullYear() &&
+  date1.getMonth() === date2.getMonth() &&
+  date1.getDate() === date2.getDate();
+
+const toDate = (value: Date | Timestamp): Date =>
+  value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+
+const toTimestamp = (value: Date | Timestamp): Timestamp =>
+  value instanceof Date ? firestoreService.convertDateToTimestamp(value) : value;
+
+// タイムスタンプ変換ユーティリティ（追加項目のない既存の希望もそのまま読み込む）
+const convertTimestamps = (preference: ShiftPreference): ShiftPreference => {
+  // submittedAtの変換
+  if (preference.submittedAt instanceof Timestamp) {
+    preference.submittedAt = firestoreService.convertTimestampToDate(preference.submittedAt);
+  }
+  
+  // unavailableDatesの変換
+  if (preference.unavailableDates && Array.isArray(preference.unavailableDates)) {
+    preference.unavailableDates = preference.unavailableDates.map(date => toDate(date));
+  }
+  
+  // dateAvailabilityの変換
+  if (Array.isArray(preference.dateAvailability)) {
+    preference.dateAvailability = preference.dateAvailability.map(availability => ({
+      ...availability,
+      date: toDate(availability.date)
+    }));
+  }
+  
+  // preferOffDatesの変換
+  if (Array.isArray(preference.preferOffDates)) {
+    preference.preferOffDates = preference.preferOffDates.map(preferOff => ({
+      ...preferOff,
+      date: toDate(preferOff.date)
+    }));
+  }
+  
+  return preference;
+};
+
+// 保存用に日付項目をTimestamp型に変換
+const convertDatesForSave = (data: Partial<ShiftPreference>): any => {
+  const converted: any = { ...data };
+  
+  if (data.unavailableDates) {
+    converted.unavailableDates = data.unavailableDates.map(date => toTimestamp(date));
+  }
+  
+  if (data.dateAvailability) {
+    converted.dateAvailability = data.dateAvailability.map(availability => ({
+      ...availability,
+      date: toTimestamp(availability.date)
+    }));
+  }
+  
+  if (data.preferOffDates) {
+    converted.preferOffDates = data.preferOffDates.map(preferOff => ({
+      ...preferOff,
+      date: toTimestamp(preferOff.date)
+    }));
+  }
+  
+  return converted;
+};
+
 // シフト希望情報取得
 export const getShiftPreferenceById = async (preferenceId: string): Promise<ShiftPreference | null> => {
   try {
     const preferenceData = await firestoreService.getDocument<ShiftPreference>(COLLECTION_NAME, preferenceId);
     
-    // 日付型データの変換
-    if (preferenceData) {
-      // submittedAtの変換
-      if (preferenceData.submittedAt instanceof Timestamp) {
-        preferenceData.submittedAt = firestoreService.convertTimestampToDate(preferenceData.submittedAt);
-      }
-      
-      // unavailableDatesの変換
-      if (preferenceData.unavailableDates && Array.isArray(preferenceData.unavailableDates)) {
-        preferenceData.unavailableDates = preferenceData.unavailableDates.map(date => 
-          date instanceof Timestamp ? firestoreService.convertTimestampToDate(date) : date
-        );
-      }
-    }
-    
-    return preferenceData;
+    return preferenceData ? convertTimestamps(preferenceData) : null;
   } catch (error) {
     console.error('Error fetching shift preference:', error);
     throw error;
@@ -59,21 +148,7 @@ export const getUserShiftPreference = async (
       return null;
     }
     
-    const preference = preferences[0];
-    
-    // submittedAtの変換
-    if (preference.submittedAt instanceof Timestamp) {
-      preference.submittedAt = firestoreService.convertTimestampToDate(preference.submittedAt);
-    }
-    
-    // unavailableDatesの変換
-    if (preference.unavailableDates && Array.isArray(preference.unavailableDates)) {
-      preference.unavailableDates = preference.unavailableDates.map(date => 
-        date instanceof Timestamp ? firestoreService.convertTimestampToDate(date) : date
-      );
-    }
-    
-    return preference;
+    return convertTimestamps(preferences[0]);
   } catch (error) {
     console.error('Error fetching user shift preference:', error);
     throw error;
@@ -95,21 +170,7 @@ export const getAllShiftPreferencesForMonth = async (
     const preferences = await firestoreService.getCollection<ShiftPreference>(COLLECTION_NAME, constraints);
     
     // 日付型データの変換
-    return preferences.map(preference => {
-      // submittedAtの変換
-      if (preference.submittedAt instanceof Timestamp) {
-        preference.submittedAt = firestoreService.convertTimestampToDate(preference.submittedAt);
-      }
-      
-      // unavailableDatesの変換
-      if (preference.unavailableDates && Array.isArray(preference.unavailableDates)) {
-        preference.unavailableDates = preference.unavailableDates.map(date => 
-          date instanceof Timestamp ? firestoreService.convertTimestampToDate(date) : date
-        );
-      }
-      
-      return preference;
-    });
+    return preferences.map(preference => convertTimestamps(preference));
   } catch (error) {
     console.error('Error fetching all shift preferences for month:', error);
     throw error;
@@ -117,10 +178,21 @@ export const getAllShiftPreferencesForMonth = async (
 };
 
 // シフト希望提出状況の確認
+// 提出期間が設定されている場合は締切までの時間・遅延提出・未提出者も返す
 export const getSubmissionStatusForMonth = async (
   year: number, 
-  month: number
-): Promise<{ totalUsers: number; submittedUsers: number; userStatus: Array<{ userId: string; submitted: boolean }> }> => {
+  month: number,
+  now: Date = new Date()
+): Promise<{
+  totalUsers: number;
+  submittedUsers: number;
+  lateUsers: number;
+  userStatus: PreferenceSubmissionUserStatus[];
+  pendingUserIds: string[];
+  windowState: PreferenceWindowState | null;
+  deadline: Date | null;
+  minutesToDeadline: number | null;
+}> => {
   try {
     // すべてのユーザーを取得
     const userService = await import('./userService');
@@ -132,19 +204,45 @@ export const getSubmissionStatusForMonth = async (
       firestoreService.createWhereConstraint('month', '==', month)
     ];
     
-    const submittedPreferences = await firestoreService.getCollection<ShiftPreference>(COLLECTION_NAME, constraints);
-    const submittedUserIds = submittedPreferences.map(preference => preference.userId);
+    const [submittedPreferences, preferenceWindow] = await Promise.all([
+      firestoreService.getCollection<ShiftPreference>(COLLECTION_NAME, constraints),
+      preferenceWindowService.getPreferenceWindow(year, month)
+    ]);
+    const preferenceMap = new Map(submittedPreferences.map(preference => [preference.userId, preference]));
     
     // ユーザーごとの提出状況
-    const userStatus = allUsers.map(user => ({
-      userId: user.id,
-      submitted: submittedUserIds.includes(user.id)
-    }));
+    const userStatus: PreferenceSubmissionUserStatus[] = allUsers.map(user => {
+      const preference = preferenceMap.get(user.id);
+      const submittedAt = preference?.submittedAt instanceof Timestamp
+        ? firestoreService.convertTimestampToDate(preference.submittedAt)
+        : preference?.submittedAt;
+      
+      return {
+        userId: user.id,
+        // 自動作成された下書きは未提出として扱う
+        submitted: !!preference && !preference.autoFilled,
+        autoFilled: !!preference?.autoFilled,
+        // Firestoreのサーバータイムスタンプが未確定の場合は提出日時なし
+        ...(submittedAt instanceof Date && { submittedAt }),
+        late: !!(preferenceWindow && preference && !preference.autoFilled && submittedAt instanceof Date &&
+          submittedAt.getTime() > preferenceWindow.deadline.getTime()),
+        reopened: !!(preferenceWindow && preferenceWindowService.getActiveReopening(preferenceWindow, user.id, now))
+      };
+    });
     
     return {
       totalUsers: allUsers.length,
-      submittedUsers: submittedUserIds.length,
-      userStatus
+      submittedUsers: userStatus.filter(status => status.submitted).length,
+      lateUsers: userStatus.filter(status => status.late).length,
+      userStatus,
+      pendingUserIds: userStatus.filter(status => !status.submitted).map(status => status.userId),
+      windowState: preferenceWindow
+        ? preferenceWindowService.getPreferenceWindowState(preferenceWindow, now)
+        : null,
+      deadline: preferenceWindow ? preferenceWindow.deadline : null,
+      minutesToDeadline: preferenceWindow
+        ? preferenceWindowService.getMinutesToDeadline(preferenceWindow, now)
+        : null
     };
   } catch (error) {
     console.error('Error getting submission status:', error);
@@ -153,22 +251,19 @@ export const getSubmissionStatusForMonth = async (
 };
 
 // シフト希望情報作成/更新
-export const saveShiftPreference = async (preference: ShiftPreference): Promise<string> => {
+export const saveShiftPreference = async (
+  preference: ShiftPreference,
+  options: ShiftPreferenceWriteOptions = {}
+): Promise<string> => {
   try {
-    // Date型のフィールドをTimestamp型に変換
-    const preferenceToSave = { 
-      ...preference,
-      // 提出日時を現在の時刻に設定
-      submittedAt: serverTimestamp(),
-      // 勤務不可日の変換
-      unavailableDates: preference.unavailableDates 
-        ? preference.unavailableDates.map(date => 
-            date instanceof Date 
-              ? firestoreService.convertDateToTimestamp(date) 
-              : date
-          )
-        : []
-    };
+    // 提出期間外（ロック済み・受付前）の場合は保存しない
+    if (!options.skipWindowCheck) {
+      await preferenceWindowService.assertPreferenceWindowOpen(
+        preference.userId,
+        preference.year,
+        preference.month
+      );
+    }
     
     // 既存の希望を検索
     const existingPreference = await getUserShiftPreference(
@@ -177,6 +272,24 @@ export const saveShiftPreference = async (preference: ShiftPreference): Promise<
       preference.month
     );
     
+    // 管理者による編集は既存の下書きの状態・提出日時を引き継ぐ
+    const keepSubmission = !!(options.adminEdit && existingPreference);
+    
+    // Date型のフィールドをTimestamp型に変換
+    // （勤務不可日・日付ごとの時間帯・休み希望日）
+    const preferenceToSave = { 
+      ...convertDatesForSave({
+        ...preference,
+        unavailableDates: preference.unavailableDates || []
+      }),
+      // 本人が保存した時点で自動作成の下書きではなくなる
+      autoFilled: keepSubmission ? !!existingPreference?.autoFilled : false,
+      // 提出日時を現在の時刻に設定
+      submittedAt: keepSubmission && existingPreference?.submittedAt instanceof Date
+        ? firestoreService.convertDateToTimestamp(existingPreference.submittedAt)
+        : serverTimestamp()
+    };
+    
     // 型アサーションを使用して型エラーを回避
     return await firestoreService.setDocument<any>(
       COLLECTION_NAME,
@@ -192,22 +305,37 @@ export const saveShiftPreference = async (preference: ShiftPreference): Promise<
 // シフト希望情報部分更新
 export const updateShiftPreference = async (
   preferenceId: string, 
-  data: Partial<ShiftPreference>
+  data: Partial<ShiftPreference>,
+  options: ShiftPreferenceWriteOptions = {}
 ): Promise<void> => {
   try {
-    const dataToUpdate = { ...data };
-    
-    // 勤務不可日の変換
-    if (dataToUpdate.unavailableDates) {
-      dataToUpdate.unavailableDates = dataToUpdate.unavailableDates.map(date => 
-        date instanceof Date 
-          ? firestoreService.convertDateToTimestamp(date) as any
-          : date
+    // 提出期間外（ロック済み・受付前）の場合は更新しない
+    if (!options.skipWindowCheck) {
+      const preference = await getShiftPreferenceById(preferenceId);
+      if (!preference) {
+        throw new Error(`Shift preference with ID ${preferenceId} not found`);
+      }
+      await preferenceWindowService.assertPreferenceWindowOpen(
+        preference.userId,
+        preference.year,
+        preference.month
       );
     }
     
-    // 提出日時を更新
-    dataToUpdate.submittedAt = serverTimestamp() as any;
+    // 日付項目の変換（勤務不可日・日付ごとの時間帯・休み希望日）
+    const dataToUpdate = convertDatesForSave(data);
+    
+    // 本人による更新は提出日時を更新（更新した時点で自動作成の下書きではなくなる）
+    // 管理者による編集は下書きの状態・提出日時を変更しない
+    if (options.adminEdit) {
+      delete dataToUpdate.submittedAt;
+      delete dataToUpdate.autoFilled;
+    } else {
+      dataToUpdate.submittedAt = serverTimestamp() as any;
+      if (dataToUpdate.autoFilled === undefined) {
+        dataToUpdate.autoFilled = false;
+      }
+    }
     
     // 型アサーションを使用して型エラーを回避
     await firestoreService.updateDocument<any>(
@@ -231,29 +359,105 @@ export const deleteShiftPreference = async (preferenceId: string): Promise<void>
   }
 };
 
-// 新規シフト希望の作成（空の希望を作成）
-export const createEmptyPreference = async (
-  userId: string, 
-  year: number, 
-  month: number
-): Promise<string> => {
-  // 基本的な空のシフト希望を作成
-  const emptyPreference: Omit<ShiftPreference, 'id' | 'submittedAt'> = {
+// 日付を対象年月の同じ「第n何曜日」に移動（該当日がない場合はnull）
+export const shiftDateToMonth = (date: Date, year: number, month: number): Date | null => {
+  const nth = Math.ceil(date.getDate() / 7);
+  const firstOfMonth = new Date(year, month - 1, 1);
+  const firstWeekdayDate = 1 + ((date.getDay() - firstOfMonth.getDay() + 7) % 7);
+  const shiftedDate = new Date(year, month - 1, firstWeekdayDate + (nth - 1) * 7);
+  
+  return shiftedDate.getMonth() === month - 1 ? shiftedDate : null;
+};
+
+// 日付ごとの項目を対象年月に移動（該当日がないものは除外）
+const shiftDatedEntries = <T extends { date: Date }>(entries: T[], year: number, month: number): T[] => {
+  return entries.reduce<T[]>((shifted, entry) => {
+    const date = shiftDateToMonth(entry.date, year, month);
+    return date ? [...shifted, { ...entry, date }] : shifted;
+  }, []);
+};
+
+// 新しい月のシフト希望の初期値を作成
+// source: 'auto'の場合は標準プロフィール → 前月の希望 → デフォルト値の順に使用
+export const buildSeededPreference = async (
+  userId: string,
+  year: number,
+  month: number,
+  source: PreferenceSeedSource | 'auto' = 'auto'
+): Promise<Omit<ShiftPreference, 'id' | 'submittedAt'>> => {
+  const basePreference: Omit<ShiftPreference, 'id' | 'submittedAt'> = {
     userId,
     year,
     month,
     desiredDaysPerWeek: 5, // デフォルト値
     preferredWeekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'], // デフォルト値
     unavailableDates: [],
-    notes: ''
+    notes: '',
+    seededFrom: 'default'
   };
   
+  if (source === 'auto' || source === 'profile') {
+    const profile = await preferenceProfileService.getPreferenceProfile(userId);
+    if (profile) {
+      return {
+        ...basePreference,
+        desiredDaysPerWeek: profile.desiredDaysPerWeek,
+        preferredWeekdays: profile.preferredWeekdays,
+        notes: profile.notes,
+        ...(profile.weekdayAvailability && { weekdayAvailability: profile.weekdayAvailability }),
+        ...(profile.preferredStoreIds && { preferredStoreIds: profile.preferredStoreIds }),
+        seededFrom: 'profile'
+      };
+    }
+  }
+  
+  if (source === 'auto' || source === 'previousMonth') {
+    const previousYear = month === 1 ? year - 1 : year;
+    const previousMonth = month === 1 ? 12 : month - 1;
+    const previous = await getUserShiftPreference(userId, previousYear, previousMonth);
+    if (previous) {
+      // 日付ごとの項目は同じ「第n何曜日」に移動して引き継ぐ
+      return {
+        ...basePreference,
+        desiredDaysPerWeek: previous.desiredDaysPerWeek,
+        preferredWeekdays: previous.preferredWeekdays,
+        unavailableDates: (previous.unavailableDates || [])
+          .map(date => shiftDateToMonth(date, year, month))
+          .filter((date): date is Date => !!date),
+        notes: previous.notes,
+        ...(previous.weekdayAvailability && { weekdayAvailability: previous.weekdayAvailability }),
+        ...(previous.dateAvailability && {
+          dateAvailability: shiftDatedEntries(previous.dateAvailability, year, month)
+        }),
+        ...(previous.preferOffDates && {
+          preferOffDates: shiftDatedEntries(previous.preferOffDates, year, month)
+        }),
+        ...(previous.preferredStoreIds && { preferredStoreIds: previous.preferredStoreIds }),
+        seededFrom: 'previousMonth'
+      };
+    }
+  }
+  
+  return basePreference;
+};
+
+// 新規シフト希望の作成（標準プロフィールまたは前月の希望を初期値とする）
+export const createEmptyPreference = async (
+  userId: string, 
+  year: number, 
+  month: number,
+  source: PreferenceSeedSource | 'auto' = 'auto',
+  autoFilled: boolean = false
+): Promise<string> => {
   try {
+    const seededPreference = await buildSeededPreference(userId, year, month, source);
+    
     // 型アサーションを使用して型エラーを回避
     return await firestoreService.setDocument<any>(
       COLLECTION_NAME, 
       { 
-        ...emptyPreference,
+        ...convertDatesForSave(seededPreference),
+        autoFilled,
         submittedAt: serverTimestamp()
       } as any
     );
@@ -263,6 +467,37 @@ export const createEmptyPreference = async (
   }
 };
 
+// 未提出の従業員の下書きを一括作成（管理者用、自動作成として記録）
+export const generateDraftPreferencesForNonSubmitters = async (
+  year: number,
+  month: number,
+  source: PreferenceSeedSource | 'auto' = 'auto'
+): Promise<string[]> => {
+  try {
+    const userService = await import('./userService');
+    const [status, users] = await Promise.all([
+      getSubmissionStatusForMonth(year, month),
+      userService.getAllUsers()
+    ]);
+    
+    // 従業員（管理者以外）のみ対象、自動作成済みの下書きがある従業員は対象外
+    const employeeIds = new Set(users.filter(user => user.role === 'employee').map(user => user.id));
+    const targetUserIds = status.userStatus
+      .filter(userStatus => employeeIds.has(userStatus.userId) && !userStatus.submitted && !userStatus.autoFilled)
+      .map(userStatus => userStatus.userId);
+    
+    const preferenceIds: string[] = [];
+    for (const userId of targetUserIds) {
+      preferenceIds.push(await createEmptyPreference(userId, year, month, source, true));
+    }
+    
+    return preferenceIds;
+  } catch (error) {
+    console.error('Error generating draft preferences:', error);
+    throw error;
+  }
+};
+
 // 勤務不可日追加
 export const addUnavailableDate = async (
   preferenceId: string, 
@@ -274,6 +509,13 @@ export const addUnavailableDate = async (
       throw new Error(`Shift preference with ID ${preferenceId} not found`);
     }
     
+    // 提出期間外（ロック済み・受付前）の場合は変更しない
+    await preferenceWindowService.assertPreferenceWindowOpen(
+      preference.userId,
+      preference.year,
+      preference.month
+    );
+    
     // 既存の勤務不可日リスト
     const unavailableDates = preference.unavailableDates || [];
     
@@ -292,7 +534,7 @@ export const addUnavailableDate = async (
       await updateShiftPreference(preferenceId, { 
         unavailableDates,
         submittedAt: new Date() // 提出日時も更新
-      });
+      }, { skipWindowCheck: true });
     }
   } catch (error) {
     console.error('Error adding unavailable date:', error);
@@ -311,6 +553,13 @@ export const removeUnavailableDate = async (
       throw new Error(`Shift preference with ID ${preferenceId} not found`);
     }
     
+    // 提出期間外（ロック済み・受付前）の場合は変更しない
+    await preferenceWindowService.assertPreferenceWindowOpen(
+      preference.userId,
+      preference.year,
+      preference.month
+    );
+    
     // 既存の勤務不可日リスト
     const unavailableDates = preference.unavailableDates || [];
     
@@ -325,13 +574,169 @@ export const removeUnavailableDate = async (
     await updateShiftPreference(preferenceId, { 
       unavailableDates: updatedDates,
       submittedAt: new Date() // 提出日時も更新
-    });
+    }, { skipWindowCheck: true });
   } catch (error) {
     console.error('Error removing unavailable date:', error);
     throw error;
   }
 };
 
+// 時刻を分に変換
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 時間帯を開始からの分の範囲に変換（終了時刻が開始時刻以前の場合は翌日まで）
+const toMinuteRange = (range: TimeRange): { start: number; end: number } => {
+  const start = toMinutes(range.startTime);
+  const end = toMinutes(range.endTime);
+  return { start, end: end <= start ? end + 24 * 60 : end };
+};
+
+// 指定日の勤務可能な時間帯を取得
+// null: 制限なし（終日勤務可能）、空配列: 勤務不可
+export const getAvailableTimeRanges = (
+  preference: ShiftPreference,
+  date: Date
+): TimeRange[] | null => {
+  if ((preference.unavailableDates || []).some(unavailableDate => isSameDate(unavailableDate, date))) {
+    return [];
+  }
+  
+  // 日付ごとの設定を曜日の設定より優先
+  const dateAvailability = (preference.dateAvailability || []).find(availability =>
+    isSameDate(availability.date, date)
+  );
+  if (dateAvailability) {
+    return dateAvailability.ranges;
+  }
+  
+  const weekdayRanges = preference.weekdayAvailability?.[WEEKDAY_KEYS[date.getDay()]];
+  return weekdayRanges || null;
+};
+
+// 指定日の時間帯に勤務可能か（いずれかの勤務可能時間帯に収まる場合のみ可能）
+export const isAvailableForTime = (
+  preference: ShiftPreference,
+  date: Date,
+  startTime: string,
+  endTime: string
+): boolean => {
+  const ranges = getAvailableTimeRanges(preference, date);
+  if (ranges === null) {
+    return true;
+  }
+  
+  const target = toMinuteRange({ startTime, endTime });
+  return ranges.some(range => {
+    const available = toMinuteRange(range);
+    return available.start <= target.start && target.end <= available.end;
+  });
+};
+
+// 指定日の休み希望の強さを取得（希望がない場合はnull）
+export const getPreferOffLevel = (
+  preference: ShiftPreference,
+  date: Date
+): PreferOffLevel | null => {
+  const preferOff = (preference.preferOffDates || []).find(entry => isSameDate(entry.date, date));
+  return preferOff ? preferOff.level : null;
+};
+
+// 店舗の希望順位を取得（0が第1希望、希望にない店舗は-1）
+export const getStorePreferenceRank = (preference: ShiftPreference, storeId: string): number => {
+  return (preference.preferredStoreIds || []).indexOf(storeId);
+};
+
+// 曜日ごとの勤務可能時間帯を設定（rangesがnullの場合は制限を解除）
+export const setWeekdayAvailability = async (
+  preferenceId: string,
+  weekday: Weekday,
+  ranges: TimeRange[] | null
+): Promise<void> => {
+  try {
+    const preference = await getShiftPreferenceById(preferenceId);
+    if (!preference) {
+      throw new Error(`Shift preference with ID ${preferenceId} not found`);
+    }
+    
+    const weekdayAvailability = { ...(preference.weekdayAvailability || {}) };
+    if (ranges === null) {
+      delete weekdayAvailability[weekday];
+    } else {
+      weekdayAvailability[weekday] = ranges;
+    }
+    
+    await updateShiftPreference(preferenceId, { weekdayAvailability });
+  } catch (error) {
+    console.error('Error setting weekday availability:', error);
+    throw error;
+  }
+};
+
+// 日付ごとの勤務可能時間帯を設定（rangesがnullの場合は日付の設定を削除）
+export const setDateAvailability = async (
+  preferenceId: string,
+  date: Date,
+  ranges: TimeRange[] | null
+): Promise<void> => {
+  try {
+    const preference = await getShiftPreferenceById(preferenceId);
+    if (!preference) {
+      throw new Error(`Shift preference with ID ${preferenceId} not found`);
+    }
+    
+    const dateAvailability: DateAvailability[] = [
+      ...(preference.dateAvailability || []).filter(availability => !isSameDate(availability.date, date)),
+      ...(ranges === null ? [] : [{ date, ranges }])
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+    
+    await updateShiftPreference(preferenceId, { dateAvailability });
+  } catch (error) {
+    console.error('Error setting date availability:', error);
+    throw error;
+  }
+};
+
+// 休み希望日を設定（levelがnullの場合は休み希望を削除）
+export const setPreferOffDate = async (
+  preferenceId: string,
+  date: Date,
+  level: PreferOffLevel | null
+): Promise<void> => {
+  try {
+    const preference = await getShiftPreferenceById(preferenceId);
+    if (!preference) {
+      throw new Error(`Shift preference with ID ${preferenceId} not found`);
+    }
+    
+    const preferOffDates: PreferOffDate[] = [
+      ...(preference.preferOffDates || []).filter(entry => !isSameDate(entry.date, date)),
+      ...(level === null ? [] : [{ date, level }])
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+    
+    await updateShiftPreference(preferenceId, { preferOffDates });
+  } catch (error) {
+    console.error('Error setting prefer-off date:', error);
+    throw error;
+  }
+};
+
+// 希望店舗を設定（優先度の高い順、重複は除外）
+export const setPreferredStores = async (
+  preferenceId: string,
+  storeIds: string[]
+): Promise<void> => {
+  try {
+    const preferredStoreIds = storeIds.filter((storeId, index) => storeIds.indexOf(storeId) === index);
+    await updateShiftPreference(preferenceId, { preferredStoreIds });
+  } catch (error) {
+    console.error('Error setting preferred stores:', error);
+    throw error;
+  }
+};
+
 export default {
   getShiftPreferenceById,
   getUserShiftPreference,
@@ -340,7 +745,18 @@ export default {
   saveShiftPreference,
   updateShiftPreference,
   deleteShiftPreference,
+  shiftDateToMonth,
+  buildSeededPreference,
   createEmptyPreference,
+  generateDraftPreferencesForNonSubmitters,
   addUnavailableDate,
-  removeUnavailableDate
+  removeUnavailableDate,
+  getAvailableTimeRanges,
+  isAvailableForTime,
+  getPreferOffLevel,
+  getStorePreferenceRank,
+  setWeekdayAvailability,
+  setDateAvailability,
+  setPreferOffDate,
+  setPreferredStores
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import {
+  doShiftsOverlap,
+  getEndDayOffset,
+  getShiftDurationInMinutes,
+  getShiftEndDateTime,
+  splitShiftMinutesByDate
+} from './shiftService';
+
+const april = (day: number): Date => new Date(2025, 3, day);
+
+describe('getEndDayOffset', () => {
+  test('infers the next day when the end time is before the start time', () => {
+    expect(getEndDayOffset({ startTime: '22:00', endTime: '02:00' })).toBe(1);
+    expect(getEndDayOffset({ startTime: '09:00', endTime: '17:00' })).toBe(0);
+  });
+
+  test('prefers an explicit offset', () => {
+    // 24時間を超えるシフトは時刻から推定できない
+    const shift = { date: april(8), startTime: '09:00', endTime: '10:00', endDayOffset: 1 };
+
+    expect(getEndDayOffset(shift)).toBe(1);
+    expect(getShiftDurationInMinutes(shift)).toBe(25 * 60);
+    expect(getShiftEndDateTime(shift)).toEqual(new Date(2025, 3, 9, 10));
+  });
+});
+
+describe('splitShiftMinutesByDate', () => {
+  test('splits a 22:00-02:00 shift at midnight', () => {
+    expect(splitShiftMinutesByDate({ date: april(8), startTime: '22:00', endTime: '02:00' })).toEqual({
+      '2025-04-08': 120,
+      '2025-04-09': 120
+    });
+  });
+
+  test('splits across the end of the month', () => {
+    expect(splitShiftMinutesByDate({ date: april(30), startTime: '20:00', endTime: '05:30' })).toEqual({
+      '2025-04-30': 240,
+      '2025-05-01': 330
+    });
+  });
+
+  test('keeps a shift ending at midnight on one day', () => {
+    expect(splitShiftMinutesByDate({ date: april(8), startTime: '18:00', endTime: '00:00' })).toEqual({
+      '2025-04-08': 360
+    });
+  });
+});
+
+describe('doShiftsOverlap', () => {
+  const overnight = { date: april(8), startTime: '22:00', endTime: '02:00' };
+
+  test('detects an overlap with a next-day shift across midnight', () => {
+    expect(doShiftsOverlap(overnight, { date: april(9), startTime: '01:00', endTime: '05:00' })).toBe(true);
+    expect(doShiftsOverlap(overnight, { date: april(9), startTime: '02:00', endTime: '06:00' })).toBe(false);
+  });
+
+  test('does not treat the same times on different days as overlapping', () => {
+    expect(doShiftsOverlap(overnight, { date: april(9), startTime: '22:00', endTime: '02:00' })).toBe(false);
+    expect(doShiftsOverlap(overnight, { date: april(8), startTime: '23:00', endTime: '23:30' })).toBe(true);
+  });
+});
@@ -8,13 +8,43 @@ import {
   QueryConstraint, 
   Timestamp, 
   doc, 
-  serverTimestamp
+  serverTimestamp,
+  deleteField
 } from 'firebase/firestore';
-import { Shift } from '../types/models';
+import { Shift, ShiftPlan, SkillRequirement, RelationshipConstraint } from '../types/models';
 import * as firestoreService from './firestoreService';
+import * as relationshipConstraintService from './relationshipConstraintService';
+import * as holidayService from './holidayService';
 
 // コレクション名を定数化
 const COLLECTION_NAME: firestoreService.CollectionName = 'shifts';
+const PLAN_COLLECTION_NAME: firestoreService.CollectionName = 'shiftPlans';
+
+// シフト取得時のオプション
+export interface ShiftQueryOptions {
+  /** 指定したシフト計画に属するシフトのみ取得 */
+  planId?: string;
+  /** 公開されていない計画（下書き・確認中・アーカイブ）のシフトも含める */
+  includeUnpublished?: boolean;
+}
+
+// 人間関係制約のチェックモード（none: チェックしない、warn: 警告のみ、reject: 保存を拒否）
+export type RelationshipCheckMode = 'none' | 'warn' | 'reject';
+
+// 人間関係制約に抵触するシフトの組み合わせ
+export interface RelationshipConflict {
+  constraint: RelationshipConstraint;
+  shift: Omit<Shift, 'id'> & { id?: string };
+  conflictingShift: Omit<Shift, 'id'> & { id?: string };
+}
+
+// シフト書き込み時のオプション
+export interface ShiftWriteOptions {
+  relationshipCheck?: RelationshipCheckMode;
+  onRelationshipConflict?: (conflicts: RelationshipConflict[]) => void;
+  /** 一括作成するシフトを所属させるシフト計画 */
+  planId?: string;
+}
 
 // シフト情報取得
 export const getShiftById = async (shiftId: string): Promise<Shift | null> => {
@@ -33,11 +63,54 @@ export const getShiftById = async (shiftId: string): Promise<Shift | null> => {
   }
 };
 
+// シフト計画の公開状態でシフトを絞り込む
+// 計画に属さないシフト（計画導入前のデータ）は、同じ店舗・年月の計画が公開されるまでは公開済みとして扱う
+const filterShiftsByPlan = async (
+  shifts: Shift[],
+  options: ShiftQueryOptions
+): Promise<Shift[]> => {
+  if (options.planId) {
+    return shifts.filter(shift => shift.planId === options.planId);
+  }
+  
+  if (options.includeUnpublished || shifts.length === 0) {
+    return shifts;
+  }
+  
+  // 公開中・公開後にアーカイブされた計画
+  const publishedPlans = await firestoreService.getCollection<ShiftPlan>(PLAN_COLLECTION_NAME, [
+    firestoreService.createWhereConstraint('status', 'in', ['published', 'archived'])
+  ]);
+  const publishedPlanIds = new Set(
+    publishedPlans.filter(plan => plan.status === 'published').map(plan => plan.id)
+  );
+  const planMonthKey = (storeId: string, year: number, month: number) => `${storeId}|${year}|${month}`;
+  const plannedMonths = new Set(publishedPlans.map(plan => planMonthKey(plan.storeId, plan.year, plan.month)));
+  
+  return shifts.filter(shift => shift.planId
+    ? publishedPlanIds.has(shift.planId)
+    : !plannedMonths.has(planMonthKey(shift.storeId, shift.date.getFullYear(), shift.date.getMonth() + 1))
+  );
+};
+
+// 計画に属するシフトは下書きの計画のみ編集可能（公開後の変更は新しいバージョンで行う）
+const assertShiftPlansEditable = async (shifts: Array<Pick<Shift, 'planId'>>): Promise<void> => {
+  const planIds = Array.from(new Set(shifts.map(shift => shift.planId).filter((planId): planId is string => !!planId)));
+  
+  for (const planId of planIds) {
+    const plan = await firestoreService.getDocument<ShiftPlan>(PLAN_COLLECTION_NAME, planId);
+    if (plan && plan.status !== 'draft') {
+      throw new Error(`Shifts in shift plan ${planId} are not editable (status: ${plan.status})`);
+    }
+  }
+};
+
 // 単一ユーザーの指定期間のシフト取得
 export const getUserShifts = async (
   userId: string, 
   startDate: Date, 
-  endDate: Date
+  endDate: Date,
+  options: ShiftQueryOptions = {}
 ): Promise<Shift[]> => {
   try {
     // 日付をTimestampに変換
@@ -54,12 +127,15 @@ export const getUserShifts = async (
     const shifts = await firestoreService.getCollection<Shift>(COLLECTION_NAME, constraints);
     
     // Timestamp型のdateをDate型に変換
-    return shifts.map(shift => {
+    const convertedShifts = shifts.map(shift => {
       if (shift.date instanceof Timestamp) {
         shift.date = firestoreService.convertTimestampToDate(shift.date);
       }
       return shift;
     });
+    
+    // シフト計画の公開状態で絞り込み
+    return await filterShiftsByPlan(convertedShifts, options);
   } catch (error) {
     console.error('Error fetching user shifts:', error);
     throw error;
@@ -70,7 +146,8 @@ export const getUserShifts = async (
 export const getStoreShifts = async (
   storeId: string, 
   startDate: Date, 
-  endDate: Date
+  endDate: Date,
+  options: ShiftQueryOptions = {}
 ): Promise<Shift[]> => {
   try {
     // 日付をTimestampに変換
@@ -87,12 +164,15 @@ export const getStoreShifts = async (
     const shifts = await firestoreService.getCollection<Shift>(COLLECTION_NAME, constraints);
     
     // Timestamp型のdateをDate型に変換
-    return shifts.map(shift => {
+    const convertedShifts = shifts.map(shift => {
       if (shift.date instanceof Timestamp) {
         shift.date = firestoreService.convertTimestampToDate(shift.date);
       }
       return shift;
     });
+    
+    // シフト計画の公開状態で絞り込み
+    return await filterShiftsByPlan(convertedShifts, options);
   } catch (error) {
     console.error('Error fetching store shifts:', error);
     throw error;
@@ -102,7 +182,8 @@ export const getStoreShifts = async (
 // 全店舗の指定期間のシフト取得（カレンダー表示用）
 export const getAllShifts = async (
   startDate: Date, 
-  endDate: Date
+  endDate: Date,
+  options: ShiftQueryOptions = {}
 ): Promise<Shift[]> => {
   try {
     // 日付をTimestampに変換
@@ -119,12 +200,15 @@ export const getAllShifts = async (
     const shifts = await firestoreService.getCollection<Shift>(COLLECTION_NAME, constraints);
     
     // Timestamp型のdateをDate型に変換
-    return shifts.map(shift => {
+    const convertedShifts = shifts.map(shift => {
       if (shift.date instanceof Timestamp) {
         shift.date = firestoreService.convertTimestampToDate(shift.date);
       }
       return shift;
     });
+    
+    // シフト計画の公開状態で絞り込み
+    return await filterShiftsByPlan(convertedShifts, options);
   } catch (error) {
     console.error('Error fetching all shifts:', error);
     throw error;
@@ -132,8 +216,18 @@ export const getAllShifts = async (
 };
 
 // シフト情報作成/更新
-export const saveShift = async (shift: Shift): Promise<string> => {
+export const saveShift = async (
+  shift: Shift,
+  options: ShiftWriteOptions = {}
+): Promise<string> => {
   try {
+    // 下書き以外の計画のシフトは変更しない
+    const currentShift = shift.id ? await getShiftById(shift.id) : null;
+    await assertShiftPlansEditable([shift, ...(currentShift ? [currentShift] : [])]);
+    
+    // 人間関係制約のチェック
+    await enforceRelationshipConstraints([shift], options);
+    
     // Date型のdateをTimestamp型に変換
     const shiftToSave = { 
       ...shift,
@@ -157,9 +251,20 @@ export const saveShift = async (shift: Shift): Promise<string> => {
 // シフト情報部分更新
 export const updateShift = async (
   shiftId: string, 
-  shiftData: Partial<Shift>
+  shiftData: Partial<Shift>,
+  options: ShiftWriteOptions = {}
 ): Promise<void> => {
   try {
+    const currentShift = await getShiftById(shiftId);
+    
+    // 下書き以外の計画のシフトは変更しない
+    await assertShiftPlansEditable([...(currentShift ? [currentShift] : []), shiftData]);
+    
+    // 人間関係制約のチェック（更新後のシフトで判定）
+    if (currentShift && options.relationshipCheck && options.relationshipCheck !== 'none') {
+      await enforceRelationshipConstraints([{ ...currentShift, ...shiftData, id: shiftId }], options);
+    }
+    
     // dateが含まれる場合はTimestamp型に変換
     const dataToUpdate = { ...shiftData };
     if (dataToUpdate.date instanceof Date) {
@@ -181,6 +286,12 @@ export const updateShift = async (
 // シフト削除
 export const deleteShift = async (shiftId: string): Promise<void> => {
   try {
+    // 下書き以外の計画のシフトは削除しない
+    const currentShift = await getShiftById(shiftId);
+    if (currentShift) {
+      await assertShiftPlansEditable([currentShift]);
+    }
+    
     await firestoreService.deleteDocument(COLLECTION_NAME, shiftId);
   } catch (error) {
     console.error('Error deleting shift:', error);
@@ -189,12 +300,26 @@ export const deleteShift = async (shiftId: string): Promise<void> => {
 };
 
 // 複数シフト一括作成（シフト自動生成用）
-export const createShiftsInBatch = async (shifts: Omit<Shift, 'id'>[]): Promise<string[]> => {
+export const createShiftsInBatch = async (
+  shifts: Omit<Shift, 'id'>[],
+  options: ShiftWriteOptions = {}
+): Promise<string[]> => {
   const batch = firestoreService.createBatch();
   const shiftIds: string[] = [];
   
   try {
-    for (const shift of shifts) {
+    // シフト計画が指定された場合は所属を設定
+    const targetShifts = options.planId
+      ? shifts.map(shift => ({ ...shift, planId: options.planId }))
+      : shifts;
+
+    // 下書き以外の計画にはシフトを追加しない
+    await assertShiftPlansEditable(targetShifts);
+
+    // 人間関係制約のチェック（一括作成するシフト同士も対象）
+    await enforceRelationshipConstraints(targetShifts, options);
+    
+    for (const shift of targetShifts) {
       // Date型のdateをTimestamp型に変換
       const shiftToSave = { 
         ...shift,
@@ -226,6 +351,197 @@ export const createShiftsInBatch = async (shifts: Omit<Shift, 'id'>[]): Promise<
   }
 };
 
+// 一括反映するシフトの変更
+export interface ShiftChangeSet {
+  /** 新規作成するシフト */
+  create: Omit<Shift, 'id'>[];
+  /** 更新するシフト（変更後の内容、timeSlotIdがない場合は削除） */
+  update: Shift[];
+  /** 削除するシフトのID */
+  deleteIds: string[];
+}
+
+// シフトの作成・更新・削除を1つのバッチで反映（すべて反映されるか、何も反映されないか）
+// 人間関係制約は削除後・反映後のシフトで判定する
+export const applyShiftChangesInBatch = async (
+  changes: ShiftChangeSet,
+  options: ShiftWriteOptions = {}
+): Promise<string[]> => {
+  const batch = firestoreService.createBatch();
+  const createdShiftIds: string[] = [];
+  
+  try {
+    // シフト計画が指定された場合は所属を設定
+    const targetCreates = options.planId
+      ? changes.create.map(shift => ({ ...shift, planId: options.planId }))
+      : changes.create;
+    
+    // 下書き以外の計画のシフトは変更しない
+    const shiftsToDelete = await Promise.all(changes.deleteIds.map(shiftId => getShiftById(shiftId)));
+    await assertShiftPlansEditable([
+      ...changes.update,
+      ...shiftsToDelete.filter((shift): shift is Shift => !!shift),
+      ...targetCreates
+    ]);
+    
+    await enforceRelationshipConstraints([...changes.update, ...targetCreates], options, changes.deleteIds);
+    
+    // 削除を先に追加
+    changes.deleteIds.forEach(shiftId => {
+      batch.delete(firestoreService.getDocumentRef(COLLECTION_NAME, shiftId));
+    });
+    
+    changes.update.forEach(shift => {
+      batch.update(firestoreService.getDocumentRef(COLLECTION_NAME, shift.id), {
+        storeId: shift.storeId,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        endDayOffset: getEndDayOffset(shift),
+        timeSlotId: shift.timeSlotId || deleteField(),
+        updatedAt: serverTimestamp()
+      });
+    });
+    
+    targetCreates.forEach(shift => {
+      const newShiftRef = doc(firestoreService.getCollectionRef(COLLECTION_NAME));
+      batch.set(newShiftRef, {
+        ...shift,
+        date: firestoreService.convertDateToTimestamp(shift.date),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      createdShiftIds.push(newShiftRef.id);
+    });
+    
+    await batch.commit();
+    return createdShiftIds;
+  } catch (error) {
+    console.error('Error applying shift changes in batch:', error);
+    throw error;
+  }
+};
+
+// 人間関係制約に抵触するシフトの検出
+// 同じ店舗・同じ日・時間帯が重なる場合を抵触とみなす（登録済みのシフトと対象シフト同士の両方を確認）
+// ignoredShiftIds: 削除予定などで判定から除外する登録済みシフト
+export const findRelationshipConflicts = async (
+  shifts: Array<Omit<Shift, 'id'> & { id?: string }>,
+  ignoredShiftIds: string[] = []
+): Promise<RelationshipConflict[]> => {
+  try {
+    const constraints = await relationshipConstraintService.getAllRelationshipConstraints();
+    if (constraints.length === 0) {
+      return [];
+    }
+    
+    // 従業員ごとの制約相手
+    const partners = new Map<string, Array<{ partnerId: string; constraint: RelationshipConstraint }>>();
+    constraints.forEach(constraint => {
+      partners.set(constraint.employee1Id, [
+        ...(partners.get(constraint.employee1Id) || []),
+        { partnerId: constraint.employee2Id, constraint }
+      ]);
+      partners.set(constraint.employee2Id, [
+        ...(partners.get(constraint.employee2Id) || []),
+        { partnerId: constraint.employee1Id, constraint }
+      ]);
+    });
+    
+    const targetIds = new Set([
+      ...shifts.filter(shift => shift.id).map(shift => shift.id),
+      ...ignoredShiftIds
+    ]);
+    const storeDayShifts = new Map<string, Array<Omit<Shift, 'id'> & { id?: string }>>();
+    const conflicts: RelationshipConflict[] = [];
+    const reported = new Set<string>();
+    
+    for (const shift of shifts) {
+      const shiftPartners = partners.get(shift.userId);
+      if (!shiftPartners) continue;
+      
+      // 同じ店舗・前後1日のシフト（登録済み + 対象シフト）
+      // 日付をまたぐシフトとの重なりも判定するため前日・翌日も含める
+      // 計画に属するシフトは同じ計画内、それ以外は公開中のシフトと比較
+      const dateKey = formatDateKey(shift.date);
+      const storeDayKey = `${shift.storeId}|${dateKey}|${shift.planId || ''}`;
+      if (!storeDayShifts.has(storeDayKey)) {
+        const rangeStart = new Date(shift.date.getFullYear(), shift.date.getMonth(), shift.date.getDate() - 1, 0, 0, 0, 0);
+        const rangeEnd = new Date(shift.date.getFullYear(), shift.date.getMonth(), shift.date.getDate() + 1, 23, 59, 59, 999);
+        const existingShifts = await getStoreShifts(
+          shift.storeId,
+          rangeStart,
+          rangeEnd,
+          shift.planId ? { planId: shift.planId } : {}
+        );
+        storeDayShifts.set(storeDayKey, [
+          // 更新対象のシフトは更新後の内容で判定するため除外（削除予定のシフトも除外）
+          ...existingShifts.filter(existing => !targetIds.has(existing.id)),
+          ...shifts.filter(other =>
+            other.storeId === shift.storeId &&
+            other.date.getTime() >= rangeStart.getTime() &&
+            other.date.getTime() <= rangeEnd.getTime() &&
+            (other.planId || '') === (shift.planId || '')
+          )
+        ]);
+      }
+      
+      (storeDayShifts.get(storeDayKey) || []).forEach(other => {
+        if (other === shift) return;
+        
+        const partner = shiftPartners.find(entry => entry.partnerId === other.userId);
+        if (!partner) return;
+        if (!doShiftsOverlap(shift, other)) return;
+        
+        const key = `${relationshipConstraintService.getPairKey(shift.userId, other.userId)}|${storeDayKey}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+        
+        conflicts.push({
+          constraint: partner.constraint,
+          shift,
+          conflictingShift: other
+        });
+      });
+    }
+    
+    return conflicts;
+  } catch (error) {
+    console.error('Error finding relationship conflicts:', error);
+    throw error;
+  }
+};
+
+// オプションに応じて人間関係制約を適用
+const enforceRelationshipConstraints = async (
+  shifts: Array<Omit<Shift, 'id'> & { id?: string }>,
+  options: ShiftWriteOptions,
+  ignoredShiftIds: string[] = []
+): Promise<void> => {
+  const mode = options.relationshipCheck || 'none';
+  if (mode === 'none') {
+    return;
+  }
+  
+  const conflicts = await findRelationshipConflicts(shifts, ignoredShiftIds);
+  if (conflicts.length === 0) {
+    return;
+  }
+  
+  if (options.onRelationshipConflict) {
+    options.onRelationshipConflict(conflicts);
+  }
+  
+  const summary = conflicts
+    .map(conflict => `${conflict.shift.userId} / ${conflict.conflictingShift.userId} (${conflict.shift.storeId}, ${formatDateKey(conflict.shift.date)})`)
+    .join(', ');
+  
+  if (mode === 'reject') {
+    throw new Error(`Relationship constraint violated: ${summary}`);
+  }
+  
+  console.warn(`Relationship constraint warning: ${summary}`);
+};
+
 // ステータス更新 (計画済み → 完了)
 export const completeShift = async (shiftId: string): Promise<void> => {
   try {
@@ -242,29 +558,51 @@ export const getShiftStatistics = async (
   endDate: Date
 ): Promise<{ 
   totalShifts: number;
+  totalHours: number;
   shiftsPerStore: Record<string, number>;
   shiftsPerDay: Record<string, number>;
+  hoursPerStore: Record<string, number>;
+  hoursPerDay: Record<string, number>;
 }> => {
   try {
-    const shifts = await getAllShifts(startDate, endDate);
+    // 前日から日付をまたいで続くシフトの勤務時間も集計するため前日から取得
+    const periodStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const fetchStart = new Date(periodStart.getFullYear(), periodStart.getMonth(), periodStart.getDate() - 1);
+    const fetchedShifts = await getAllShifts(fetchStart, endDate);
+    const shifts = fetchedShifts.filter(shift => shift.date.getTime() >= periodStart.getTime());
     
-    // 店舗ごとのシフト数集計
+    // 店舗ごと・日付ごとのシフト数（開始日に計上）
     const shiftsPerStore: Record<string, number> = {};
+    const shiftsPerDay: Record<string, number> = {};
     shifts.forEach(shift => {
+      const dateStr = formatDateKey(shift.date); // YYYY-MM-DD形式
       shiftsPerStore[shift.storeId] = (shiftsPerStore[shift.storeId] || 0) + 1;
+      shiftsPerDay[dateStr] = (shiftsPerDay[dateStr] || 0) + 1;
     });
     
-    // 日付ごとのシフト数集計
-    const shiftsPerDay: Record<string, number> = {};
-    shifts.forEach(shift => {
-      const dateStr = shift.date.toISOString().split('T')[0]; // YYYY-MM-DD形式
-      shiftsPerDay[dateStr] = (shiftsPerDay[dateStr] || 0) + 1;
+    // 勤務時間は暦日ごとに分割して集計（期間外の日の分は含めない）
+    const hoursPerStore: Record<string, number> = {};
+    const hoursPerDay: Record<string, number> = {};
+    const firstDateStr = formatDateKey(periodStart);
+    const lastDateStr = formatDateKey(endDate);
+    let totalHours = 0;
+    fetchedShifts.forEach(shift => {
+      Object.entries(splitShiftMinutesByDate(shift)).forEach(([dateStr, minutes]) => {
+        if (dateStr < firstDateStr || dateStr > lastDateStr) return;
+        
+        hoursPerStore[shift.storeId] = (hoursPerStore[shift.storeId] || 0) + minutes / 60;
+        hoursPerDay[dateStr] = (hoursPerDay[dateStr] || 0) + minutes / 60;
+        totalHours += minutes / 60;
+      });
     });
     
     return {
       totalShifts: shifts.length,
+      totalHours,
       shiftsPerStore,
-      shiftsPerDay
+      shiftsPerDay,
+      hoursPerStore,
+      hoursPerDay
     };
   } catch (error) {
     console.error('Error getting shift statistics:', error);
@@ -297,7 +635,12 @@ export const parseTimeString = (timeStr: string): { hours: number; minutes: numb
 };
 
 // ヘルパー関数: 時間差を分で計算
-export const calculateDurationInMinutes = (startTime: string, endTime: string): number => {
+// endDayOffsetは終了時刻が開始日の何日後か（未指定の場合は終了時刻が開始時刻以前なら翌日とみなす）
+export const calculateDurationInMinutes = (
+  startTime: string,
+  endTime: string,
+  endDayOffset?: number
+): number => {
   const start = parseTimeString(startTime);
   const end = parseTimeString(endTime);
   
@@ -305,12 +648,144 @@ export const calculateDurationInMinutes = (startTime: string, endTime: string):
   const startMinutes = start.hours * 60 + start.minutes;
   const endMinutes = end.hours * 60 + end.minutes;
   
+  if (endDayOffset !== undefined) {
+    return endMinutes + endDayOffset * 24 * 60 - startMinutes;
+  }
+  
   // 終了時間が翌日の場合（例: 22:00-01:00）
   return endMinutes < startMinutes 
     ? endMinutes + (24 * 60) - startMinutes 
     : endMinutes - startMinutes;
 };
 
+// ヘルパー関数: シフトの終了日が開始日の何日後かを取得
+export const getEndDayOffset = (shift: Pick<Shift, 'startTime' | 'endTime' | 'endDayOffset'>): number => {
+  if (typeof shift.endDayOffset === 'number') {
+    return shift.endDayOffset;
+  }
+  
+  // 未指定の場合は時刻から推定（終了時刻が開始時刻より前なら翌日）
+  const start = parseTimeString(shift.startTime);
+  const end = parseTimeString(shift.endTime);
+  return end.hours * 60 + end.minutes < start.hours * 60 + start.minutes ? 1 : 0;
+};
+
+// ヘルパー関数: シフトの勤務時間を分で計算（日付をまたぐシフトに対応）
+export const getShiftDurationInMinutes = (shift: Pick<Shift, 'startTime' | 'endTime' | 'endDayOffset'>): number => {
+  return calculateDurationInMinutes(shift.startTime, shift.endTime, getEndDayOffset(shift));
+};
+
+// ヘルパー関数: シフトの開始日時を取得
+export const getShiftStartDateTime = (shift: Pick<Shift, 'date' | 'startTime'>): Date => {
+  const start = parseTimeString(shift.startTime);
+  return new Date(
+    shift.date.getFullYear(),
+    shift.date.getMonth(),
+    shift.date.getDate(),
+    start.hours,
+    start.minutes
+  );
+};
+
+// ヘルパー関数: シフトの終了日時を取得（日付をまたぐ場合は翌日以降）
+export const getShiftEndDateTime = (
+  shift: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'endDayOffset'>
+): Date => {
+  const end = parseTimeString(shift.endTime);
+  return new Date(
+    shift.date.getFullYear(),
+    shift.date.getMonth(),
+    shift.date.getDate() + getEndDayOffset(shift),
+    end.hours,
+    end.minutes
+  );
+};
+
+// ヘルパー関数: シフトの勤務時間を暦日ごとに分割（キーはYYYY-MM-DD、日付をまたぐ分は翌日に計上）
+export const splitShiftMinutesByDate = (
+  shift: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'endDayOffset'>
+): Record<string, number> => {
+  const minutesByDate: Record<string, number> = {};
+  const end = getShiftEndDateTime(shift).getTime();
+  let cursor = getShiftStartDateTime(shift);
+  
+  while (cursor.getTime() < end) {
+    const nextDay = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+    const segmentEnd = Math.min(nextDay.getTime(), end);
+    const dateStr = formatDateKey(cursor);
+    minutesByDate[dateStr] = (minutesByDate[dateStr] || 0) + (segmentEnd - cursor.getTime()) / (60 * 1000);
+    cursor = nextDay;
+  }
+  
+  return minutesByDate;
+};
+
+// ヘルパー関数: 2つのシフトの勤務時間が重なるか判定（日付をまたぐシフトにも対応）
+export const doShiftsOverlap = (
+  shift1: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'endDayOffset'>,
+  shift2: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'endDayOffset'>
+): boolean => {
+  return (
+    getShiftStartDateTime(shift1).getTime() < getShiftEndDateTime(shift2).getTime() &&
+    getShiftStartDateTime(shift2).getTime() < getShiftEndDateTime(shift1).getTime()
+  );
+};
+
+// ヘルパー関数: 時刻文字列の形式（HH:MM）を検証
+export const isValidTimeString = (timeStr: string): boolean => {
+  return typeof timeStr === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(timeStr);
+};
+
+// ヘルパー関数: 2つの勤務時間帯が重なるか判定（日付をまたぐ時間帯にも対応）
+export const doTimeRangesOverlap = (
+  startTime1: string,
+  endTime1: string,
+  startTime2: string,
+  endTime2: string
+): boolean => {
+  const toRange = (startTime: string, endTime: string): [number, number] => {
+    const start = parseTimeString(startTime);
+    const startMinutes = start.hours * 60 + start.minutes;
+    return [startMinutes, startMinutes + calculateDurationInMinutes(startTime, endTime)];
+  };
+  
+  const [start1, end1] = toRange(startTime1, endTime1);
+  const [start2, end2] = toRange(startTime2, endTime2);
+  
+  return start1 < end2 && start2 < end1;
+};
+
+// ヘルパー関数: 日付をローカル日付のキー（YYYY-MM-DD）に変換
+export const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// ヘルパー関数: 期間内の日付を1日ずつ列挙
+export const getDatesInRange = (startDate: Date, endDate: Date): Date[] => {
+  const dates: Date[] = [];
+  const current = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const last = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+
+  while (current.getTime() <= last.getTime()) {
+    dates.push(new Date(current));
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
+};
+
+// ヘルパー関数: 日付からスキル要件の曜日区分を判定（祝日は曜日より優先）
+export const getRequirementDayType = (date: Date, considerHolidays: boolean = true): SkillRequirement['day'] => {
+  if (considerHolidays && holidayService.isHoliday(date)) return 'holiday';
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0) return 'sunday';
+  if (dayOfWeek === 6) return 'saturday';
+  return 'weekday';
+};
+
 export default {
   getShiftById,
   getUserShifts,
@@ -320,9 +795,22 @@ export default {
   updateShift,
   deleteShift,
   createShiftsInBatch,
+  applyShiftChangesInBatch,
+  findRelationshipConflicts,
   completeShift,
   getShiftStatistics,
   getMonthDateRange,
   parseTimeString,
-  calculateDurationInMinutes
+  calculateDurationInMinutes,
+  getEndDayOffset,
+  getShiftDurationInMinutes,
+  splitShiftMinutesByDate,
+  getShiftStartDateTime,
+  getShiftEndDateTime,
+  doShiftsOverlap,
+  isValidTimeString,
+  doTimeRangesOverlap,
+  formatDateKey,
+  getDatesInRange,
+  getRequirementDayType
 };
\ No newline at end of file
@@ -0,0 +1,232 @@
+import {
+  ShiftSolverInput,
+  collectShiftSolverInput,
+  createShiftPreferenceLookup,
+  isWorkingInSlot,
+  matchStaffToRequirement,
+  scoreShiftSchedule,
+  solveShiftSchedule
+} from './shiftSolverService';
+import * as eventService from './eventService';
+import * as relationshipConstraintService from './relationshipConstraintService';
+import * as shiftPreferenceService from './shiftPreferenceService';
+import * as storeService from './storeService';
+import * as userService from './userService';
+import { createTestStore, createTestUser } from './testFixtures';
+import { Shift, ShiftPreference, SkillLevel, SkillRequirement, StoreTimeSlot, User } from '../types/models';
+
+jest.mock('./userService', () => ({
+  ...jest.requireActual('./userService'),
+  getAllUsers: jest.fn()
+}));
+
+jest.mock('./storeService', () => ({
+  ...jest.requireActual('./storeService'),
+  getAllStores: jest.fn()
+}));
+
+jest.mock('./shiftPreferenceService', () => ({
+  ...jest.requireActual('./shiftPreferenceService'),
+  getAllShiftPreferencesForMonth: jest.fn()
+}));
+
+jest.mock('./eventService', () => ({
+  ...jest.requireActual('./eventService'),
+  getEventsByDateRange: jest.fn()
+}));
+
+jest.mock('./relationshipConstraintService', () => ({
+  ...jest.requireActual('./relationshipConstraintService'),
+  getAllRelationshipConstraints: jest.fn()
+}));
+
+// スキルの指定がない場合はC
+const employee = (id: string, skills: Partial<User['skills']>): User =>
+  createTestUser(id, { skills: { kitchen: 'C', hall: 'C', sales: 'C', overall: 'C', ...skills } });
+
+const none = { A: 0, B: 0, C: 0 };
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+const requirement = (counts: Partial<Record<'kitchen' | 'hall' | 'sales', Partial<Record<SkillLevel, number>>>>): SkillRequirement => ({
+  day: 'weekday',
+  kitchen: { ...none, ...counts.kitchen },
+  hall: { ...none, ...counts.hall },
+  sales: { ...none, ...counts.sales }
+});
+
+describe('matchStaffToRequirement', () => {
+  test('reassigns staff to fill as many slots as possible', () => {
+    // user1はキッチンCの枠を先に取るが、user2がホールAを担当できないためuser1をホールAに回す
+    const result = matchStaffToRequirement(
+      [employee('user1', { kitchen: 'A', hall: 'A' }), employee('user2', { kitchen: 'B', hall: 'C' })],
+      requirement({ kitchen: { C: 1 }, hall: { A: 1 } })
+    );
+
+    expect(result.assignments).toEqual([
+      { userId: 'user2', skill: 'kitchen', level: 'C' },
+      { userId: 'user1', skill: 'hall', level: 'A' }
+    ]);
+    expect(result.unfilled).toEqual([]);
+  });
+
+  test('lets higher levels fill lower slots but not the reverse', () => {
+    const staff = [employee('user1', { kitchen: 'C' }), employee('user2', { kitchen: 'B' })];
+    const kitchen = requirement({ kitchen: { A: 1, B: 1 } });
+
+    expect(matchStaffToRequirement(staff, kitchen)).toEqual({
+      assignments: [{ userId: 'user2', skill: 'kitchen', level: 'B' }],
+      unfilled: [{ skill: 'kitchen', level: 'A', count: 1 }]
+    });
+    expect(matchStaffToRequirement(staff, kitchen, false).unfilled).toEqual([]);
+  });
+
+  test('assigns each staff member to one slot and counts the unfilled slots', () => {
+    const result = matchStaffToRequirement(
+      [employee('user1', {})],
+      requirement({ kitchen: { C: 2 }, hall: { C: 1 } })
+    );
+
+    expect(result.assignments).toEqual([{ userId: 'user1', skill: 'kitchen', level: 'C' }]);
+    expect(result.unfilled).toEqual([
+      { skill: 'kitchen', level: 'C', count: 1 },
+      { skill: 'hall', level: 'C', count: 1 }
+    ]);
+  });
+
+  test('does not depend on the order of the staff', () => {
+    const staff = [employee('user1', { kitchen: 'A' }), employee('user2', { kitchen: 'A' })];
+    const kitchen = requirement({ kitchen: { A: 1 } });
+
+    expect(matchStaffToRequirement([...staff].reverse(), kitchen)).toEqual(matchStaffToRequirement(staff, kitchen));
+  });
+});
+
+describe('createShiftPreferenceLookup', () => {
+  const preference = (userId: string, year: number, month: number): ShiftPreference => ({
+    id: `${userId}-${year}-${month}`,
+    userId,
+    year,
+    month,
+    desiredDaysPerWeek: 3,
+    preferredWeekdays: [],
+    unavailableDates: [],
+    notes: '',
+    submittedAt: new Date(2025, 2, 1)
+  });
+
+  const lookup = createShiftPreferenceLookup({
+    period: { startDate: new Date(2025, 3, 28), endDate: new Date(2025, 4, 4) },
+    shiftPreferences: [preference('user1', 2025, 4), preference('user1', 2025, 5), preference('user2', 2025, 5)]
+  });
+
+  test('returns the preference for the month of the date', () => {
+    expect(lookup.forDate('user1', new Date(2025, 3, 30))?.id).toBe('user1-2025-4');
+    expect(lookup.forDate('user1', new Date(2025, 4, 1))?.id).toBe('user1-2025-5');
+    expect(lookup.forDate('user2', new Date(2025, 3, 30))).toBeUndefined();
+  });
+
+  test('falls back to another month for the period', () => {
+    expect(lookup.forPeriod('user1')?.id).toBe('user1-2025-4');
+    expect(lookup.forPeriod('user2')?.id).toBe('user2-2025-5');
+    expect(lookup.forPeriod('user3')).toBeUndefined();
+  });
+});
+
+describe('isWorkingInSlot', () => {
+  const slot = (id: string, startTime: string, endTime: string): StoreTimeSlot => ({
+    id,
+    name: id,
+    startTime,
+    endTime,
+    skillRequirements: []
+  });
+
+  // 2025-04-07 20:00〜翌02:00
+  const overnight = { date: new Date(2025, 3, 7), startTime: '20:00', endTime: '02:00' };
+
+  test('matches timed slots that overlap the shift, including the next day', () => {
+    expect(isWorkingInSlot(overnight, slot('late', '01:00', '05:00'), new Date(2025, 3, 8))).toBe(true);
+    expect(isWorkingInSlot(overnight, slot('morning', '09:00', '13:00'), new Date(2025, 3, 8))).toBe(false);
+  });
+
+  test('matches the default slot by the shift date', () => {
+    const defaultSlot = slot('default', '00:00', '23:59');
+
+    expect(isWorkingInSlot(overnight, defaultSlot, new Date(2025, 3, 7))).toBe(true);
+    expect(isWorkingInSlot(overnight, defaultSlot, new Date(2025, 3, 8))).toBe(false);
+  });
+});
+
+describe('relationship constraints', () => {
+  // 2025-04-08（火）
+  const tuesday = new Date(2025, 3, 8);
+
+  const timeSlot = (id: string, startTime: string, endTime: string): StoreTimeSlot => ({
+    id,
+    name: id,
+    startTime,
+    endTime,
+    skillRequirements: [requirement({ kitchen: { C: 1 } })]
+  });
+
+  const input: ShiftSolverInput = {
+    period: { startDate: tuesday, endDate: tuesday },
+    employees: [employee('user1', {}), employee('user2', {})],
+    stores: [createTestStore('store1', {
+      timeSlots: [timeSlot('morning', '09:00', '13:00'), timeSlot('evening', '17:00', '21:00')]
+    })],
+    shiftPreferences: [],
+    events: [],
+    relationshipConstraints: [{ employee1Id: 'user1', employee2Id: 'user2', reason: '相性' }]
+  };
+
+  const shift = (userId: string, startTime: string, endTime: string): Shift => ({
+    id: '',
+    userId,
+    storeId: 'store1',
+    date: tuesday,
+    startTime,
+    endTime,
+    status: 'planned'
+  });
+
+  test('lets constrained employees work different time slots at the same store', () => {
+    const result = solveShiftSchedule(input);
+
+    expect(result.shifts.map(item => [item.userId, item.timeSlotId])).toEqual([
+      ['user1', 'morning'],
+      ['user2', 'evening']
+    ]);
+    expect(result.breakdown.hardViolations).toBe(0);
+    expect(result.unfilled).toEqual([]);
+  });
+
+  test('counts only overlapping shifts as violations', () => {
+    const separate = scoreShiftSchedule(input, [shift('user1', '09:00', '13:00'), shift('user2', '17:00', '21:00')]);
+    const overlapping = scoreShiftSchedule(input, [shift('user1', '09:00', '13:00'), shift('user2', '12:00', '21:00')]);
+
+    expect(separate.breakdown.hardViolations).toBe(0);
+    expect(overlapping.breakdown.hardViolations).toBe(1);
+  });
+});
+
+describe('collectShiftSolverInput', () => {
+  test('loads preferences for every month and the relationship constraints', async () => {
+    const constraint = { id: 'constraint1', employee1Id: 'user1', employee2Id: 'user2', reason: '相性' };
+    (userService.getAllUsers as jest.Mock).mockResolvedValue([employee('user1', {})]);
+    (storeService.getAllStores as jest.Mock).mockResolvedValue([createTestStore()]);
+    (shiftPreferenceService.getAllShiftPreferencesForMonth as jest.Mock).mockImplementation(
+      async (year: number, month: number) => [{ id: `user1-${year}-${month}` }]
+    );
+    (eventService.getEventsByDateRange as jest.Mock).mockResolvedValue([]);
+    (relationshipConstraintService.getAllRelationshipConstraints as jest.Mock).mockResolvedValue([constraint]);
+
+    const input = await collectShiftSolverInput(new Date(2025, 3, 28), new Date(2025, 4, 4));
+
+    expect(input.shiftPreferences.map(pref => pref.id)).toEqual(['user1-2025-4', 'user1-2025-5']);
+    expect(input.relationshipConstraints).toEqual([constraint]);
+  });
+});
@@ -0,0 +1,680 @@
+// src/services/shiftSolverService.ts
+import {
+  Shift,
+  User,
+  Store,
+  ShiftPreference,
+  Event,
+  RelationshipConstraint,
+  SkillLevel,
+  SkillRequirement,
+  Weekday,
+  PreferOffLevel,
+  StoreTimeSlot
+} from '../types/models';
+import * as userService from './userService';
+import * as storeService from './storeService';
+import * as shiftService from './shiftService';
+import * as shiftPreferenceService from './shiftPreferenceService';
+import * as eventService from './eventService';
+import * as staffingService from './staffingService';
+import * as relationshipConstraintService from './relationshipConstraintService';
+
+// 必要スキルの種類（SkillRequirementのキー）
+export type RequirementSkillType = 'kitchen' | 'hall' | 'sales';
+
+export const REQUIREMENT_SKILL_TYPES: RequirementSkillType[] = ['kitchen', 'hall', 'sales'];
+
+const SKILL_LEVELS: SkillLevel[] = ['A', 'B', 'C'];
+
+// 曜日キー（Date.getDay()の順）
+const WEEKDAY_KEYS: Weekday[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+// ソルバーへの入力データ
+export interface ShiftSolverInput {
+  period: { startDate: Date; endDate: Date };
+  employees: User[];
+  stores: Store[];
+  shiftPreferences: ShiftPreference[];
+  events: Event[];
+  relationshipConstraints: Omit<RelationshipConstraint, 'id'>[];
+}
+
+// ソフト制約の重み
+export interface ShiftSolverWeights {
+  /** 充足したスキル要件1枠あたりの加点 */
+  coverage: number;
+  /** 未充足のスキル要件1枠あたりの減点 */
+  unfilled: number;
+  /** 希望曜日に割り当てた場合の加点 */
+  preferredWeekday: number;
+  /** 希望勤務日数からの乖離1日あたりの減点 */
+  fairness: number;
+  /** 要件より高いスキルレベルの従業員を充てた場合の1段階あたりの減点 */
+  overqualification: number;
+  /** 休み希望日に割り当てた場合の減点（希望の強さで倍率） */
+  preferOff: number;
+  /** 第1希望の店舗に割り当てた場合の加点（希望順位が下がるごとに減少） */
+  preferredStore: number;
+  /** ハード制約違反1件あたりの減点 */
+  hardViolation: number;
+}
+
+export const DEFAULT_SOLVER_WEIGHTS: ShiftSolverWeights = {
+  coverage: 10,
+  unfilled: 50,
+  preferredWeekday: 3,
+  fairness: 2,
+  overqualification: 1,
+  preferOff: 4,
+  preferredStore: 2,
+  hardViolation: 1000
+};
+
+// ソルバーのオプション
+export interface ShiftSolverOptions {
+  prioritizeEmployeePreferences?: boolean;
+  distributeShiftsEvenly?: boolean;
+  considerSkillRequirements?: boolean;
+  /** 時間帯・営業時間が未設定の店舗で生成するシフトの勤務時間（デフォルト: 09:00〜17:00） */
+  shiftTime?: { startTime: string; endTime: string };
+  weights?: Partial<ShiftSolverWeights>;
+}
+
+// 充足できなかったスキル要件
+export interface UnfilledRequirement {
+  storeId: string;
+  date: Date;
+  timeSlotId: string;
+  skill: RequirementSkillType;
+  level: SkillLevel;
+  count: number;
+}
+
+// 目的関数の内訳
+export interface ShiftScoreBreakdown {
+  filledSlots: number;
+  unfilledSlots: number;
+  preferredWeekdayAssignments: number;
+  fairnessDeviation: number;
+  overqualification: number;
+  /** 休み希望日への割り当て（希望の強さで重み付け） */
+  preferOffPenalty: number;
+  /** 希望店舗への割り当て（希望順位で重み付け） */
+  preferredStoreBonus: number;
+  hardViolations: number;
+}
+
+// 休み希望の強さの倍率
+const PREFER_OFF_MULTIPLIERS: Record<PreferOffLevel, number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
+// 休み希望日に割り当てた場合の減点の倍率（希望がない場合は0）
+const preferOffMultiplier = (preference: ShiftPreference | undefined, date: Date): number => {
+  const level = preference ? shiftPreferenceService.getPreferOffLevel(preference, date) : null;
+  return level ? PREFER_OFF_MULTIPLIERS[level] : 0;
+};
+
+// 希望店舗に割り当てた場合の加点の倍率（第1希望は1、順位が下がるごとに半減、希望外は0）
+const preferredStoreMultiplier = (preference: ShiftPreference | undefined, storeId: string): number => {
+  const rank = preference ? shiftPreferenceService.getStorePreferenceRank(preference, storeId) : -1;
+  return rank >= 0 ? 1 / Math.pow(2, rank) : 0;
+};
+
+// ソルバーの結果
+export interface ShiftSolverResult {
+  shifts: Shift[];
+  score: number;
+  breakdown: ShiftScoreBreakdown;
+  unfilled: UnfilledRequirement[];
+}
+
+// スキルレベルを順位に変換（A=0が最上位）
+const levelRank = (level: SkillLevel): number => SKILL_LEVELS.indexOf(level);
+
+// 従業員が要件レベルを満たすか（上位レベルは下位の枠も担当可能）
+const canFillLevel = (employeeLevel: SkillLevel, requiredLevel: SkillLevel): boolean =>
+  levelRank(employeeLevel) <= levelRank(requiredLevel);
+
+// 重みの解決（オプションの優先設定を反映）
+const resolveWeights = (options: ShiftSolverOptions): ShiftSolverWeights => {
+  const weights = { ...DEFAULT_SOLVER_WEIGHTS, ...options.weights };
+  if (options.prioritizeEmployeePreferences) {
+    weights.preferredWeekday *= 2;
+  }
+  if (options.distributeShiftsEvenly) {
+    weights.fairness *= 2;
+  }
+  return weights;
+};
+
+// 人間関係制約のペアキー（順序に依存しない）
+const pairKey = (userId1: string, userId2: string): string =>
+  userId1 < userId2 ? `${userId1}|${userId2}` : `${userId2}|${userId1}`;
+
+// 従業員のシフト希望の参照（期間が月をまたぐ場合は日付の月の希望を使用）
+export interface ShiftPreferenceLookup {
+  /** 指定日の月のシフト希望 */
+  forDate: (userId: string, date: Date) => ShiftPreference | undefined;
+  /** 期間全体の目標勤務日数などに使うシフト希望（期間開始月の希望、ない場合は最初に見つかった月） */
+  forPeriod: (userId: string) => ShiftPreference | undefined;
+}
+
+const preferenceMonthKey = (userId: string, year: number, month: number): string =>
+  `${userId}|${year}|${month}`;
+
+export const createShiftPreferenceLookup = (
+  input: Pick<ShiftSolverInput, 'period' | 'shiftPreferences'>
+): ShiftPreferenceLookup => {
+  const byMonth = new Map<string, ShiftPreference>();
+  const byUser = new Map<string, ShiftPreference>();
+  input.shiftPreferences.forEach(pref => {
+    byMonth.set(preferenceMonthKey(pref.userId, pref.year, pref.month), pref);
+    if (!byUser.has(pref.userId)) {
+      byUser.set(pref.userId, pref);
+    }
+  });
+
+  const forDate = (userId: string, date: Date): ShiftPreference | undefined =>
+    byMonth.get(preferenceMonthKey(userId, date.getFullYear(), date.getMonth() + 1));
+
+  return {
+    forDate,
+    forPeriod: userId => forDate(userId, input.period.startDate) || byUser.get(userId)
+  };
+};
+
+// 区分の優先順で最初に見つかったスキル要件
+const pickRequirement = (
+  requirements: SkillRequirement[],
+  dayTypes: SkillRequirement['day'][]
+): SkillRequirement | undefined => {
+  for (const dayType of dayTypes) {
+    const requirement = requirements.find(req => req.day === dayType);
+    if (requirement) return requirement;
+  }
+  return undefined;
+};
+
+// 日付に該当するスキル要件を取得（休業日は要件なし）
+export const findSkillRequirement = (store: Store, date: Date): SkillRequirement | undefined => {
+  if (storeService.isStoreClosedOn(store, date)) return undefined;
+  return pickRequirement(store.skillRequirements || [], storeService.getRequirementDayTypes(store, date));
+};
+
+// 時間帯の日付に該当するスキル要件を取得
+// 店舗を指定した場合は特別営業日の区分を考慮
+export const findSlotSkillRequirement = (
+  slot: StoreTimeSlot,
+  date: Date,
+  store?: Store
+): SkillRequirement | undefined => {
+  const dayTypes = store
+    ? storeService.getRequirementDayTypes(store, date)
+    : [shiftService.getRequirementDayType(date), shiftService.getRequirementDayType(date, false)];
+  return pickRequirement(slot.skillRequirements || [], dayTypes);
+};
+
+// 日付に必要人数が設定されている店舗の時間帯（休業日は空）
+// イベントを指定した場合は予測来客数に応じて増員した実効要件を返す
+export const getRequiredTimeSlots = (
+  store: Store,
+  date: Date,
+  defaultTime?: { startTime: string; endTime: string },
+  events: Event[] = []
+): Array<{ slot: StoreTimeSlot; requirement: SkillRequirement }> => {
+  if (storeService.isStoreClosedOn(store, date)) {
+    return [];
+  }
+  
+  return storeService.getStoreTimeSlots(store, defaultTime).reduce<
+    Array<{ slot: StoreTimeSlot; requirement: SkillRequirement }>
+  >((required, slot) => {
+    const requirement = findSlotSkillRequirement(slot, date, store);
+    return requirement
+      ? [...required, { slot, requirement: staffingService.getEffectiveRequirement(store, requirement, date, events) }]
+      : required;
+  }, []);
+};
+
+// 時間帯に勤務しているか（シフトと時間帯が重なる場合）
+// 時間帯が未設定の店舗は終日の要件として、同じ日のシフトをすべて対象とする
+export const isWorkingInSlot = (
+  shift: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'endDayOffset'>,
+  slot: StoreTimeSlot,
+  date: Date
+): boolean => {
+  if (slot.id === storeService.DEFAULT_TIME_SLOT_ID) {
+    return shiftService.formatDateKey(shift.date) === shiftService.formatDateKey(date);
+  }
+  return shiftService.doShiftsOverlap(shift, { date, startTime: slot.startTime, endTime: slot.endTime });
+};
+
+// スキル要件を「スキル×レベル」の枠に展開
+const expandRequirementSlots = (
+  requirement: SkillRequirement
+): Array<{ skill: RequirementSkillType; level: SkillLevel }> => {
+  const slots: Array<{ skill: RequirementSkillType; level: SkillLevel }> = [];
+  REQUIREMENT_SKILL_TYPES.forEach(skill => {
+    SKILL_LEVELS.forEach(level => {
+      for (let i = 0; i < (requirement[skill]?.[level] || 0); i++) {
+        slots.push({ skill, level });
+      }
+    });
+  });
+  return slots;
+};
+
+// 出勤者をスキル要件の枠に割り当てる（二部マッチング）
+// 手作業で作成されたシフトのように担当スキルが記録されていない場合でも充足数を判定できる
+export const matchStaffToRequirement = (
+  staff: User[],
+  requirement: SkillRequirement,
+  considerSkillLevel: boolean = true
+): {
+  assignments: Array<{ userId: string; skill: RequirementSkillType; level: SkillLevel }>;
+  unfilled: Array<{ skill: RequirementSkillType; level: SkillLevel; count: number }>;
+} => {
+  const slots = expandRequirementSlots(requirement);
+  const sortedStaff = [...staff].sort((a, b) => a.id.localeCompare(b.id));
+  const slotOwner: number[] = slots.map(() => -1);
+
+  const canFill = (staffIndex: number, slotIndex: number): boolean => {
+    const { skill, level } = slots[slotIndex];
+    const employeeLevel = sortedStaff[staffIndex].skills?.[skill];
+    if (!employeeLevel) return false;
+    return !considerSkillLevel || canFillLevel(employeeLevel, level);
+  };
+
+  // 増加路を探索
+  const tryAssign = (staffIndex: number, visited: boolean[]): boolean => {
+    for (let slotIndex = 0; slotIndex < slots.length; slotIndex++) {
+      if (visited[slotIndex] || !canFill(staffIndex, slotIndex)) continue;
+      visited[slotIndex] = true;
+      if (slotOwner[slotIndex] === -1 || tryAssign(slotOwner[slotIndex], visited)) {
+        slotOwner[slotIndex] = staffIndex;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  sortedStaff.forEach((_, staffIndex) => {
+    tryAssign(staffIndex, slots.map(() => false));
+  });
+
+  const assignments: Array<{ userId: string; skill: RequirementSkillType; level: SkillLevel }> = [];
+  const unfilledMap = new Map<string, { skill: RequirementSkillType; level: SkillLevel; count: number }>();
+
+  slots.forEach((slot, slotIndex) => {
+    const owner = slotOwner[slotIndex];
+    if (owner >= 0) {
+      assignments.push({ userId: sortedStaff[owner].id, ...slot });
+    } else {
+      const key = `${slot.skill}-${slot.level}`;
+      const entry = unfilledMap.get(key) || { ...slot, count: 0 };
+      entry.count++;
+      unfilledMap.set(key, entry);
+    }
+  });
+
+  return { assignments, unfilled: Array.from(unfilledMap.values()) };
+};
+
+// 従業員ごとの期間内の目標勤務日数
+const calculateTargetDays = (
+  employee: User,
+  preference: ShiftPreference | undefined,
+  dayCount: number
+): number => {
+  const daysPerWeek = preference ? preference.desiredDaysPerWeek : employee.desiredWorkDays;
+  return ((daysPerWeek || 0) * dayCount) / 7;
+};
+
+// 任意のシフト案を目的関数で評価（ソルバー結果・AI案・手動編集の比較用）
+export const scoreShiftSchedule = (
+  input: ShiftSolverInput,
+  shifts: Shift[],
+  options: ShiftSolverOptions = {}
+): { score: number; breakdown: ShiftScoreBreakdown; unfilled: UnfilledRequirement[] } => {
+  const weights = resolveWeights(options);
+  const considerSkillLevel = options.considerSkillRequirements !== false;
+  const dates = shiftService.getDatesInRange(input.period.startDate, input.period.endDate);
+
+  const employeeMap = new Map(input.employees.map(employee => [employee.id, employee]));
+  const preferences = createShiftPreferenceLookup(input);
+  const constrainedPairs = new Set(
+    input.relationshipConstraints.map(c => pairKey(c.employee1Id, c.employee2Id))
+  );
+
+  // 店舗・日付ごとにシフトをグループ化
+  const shiftsByStoreDate = new Map<string, Shift[]>();
+  const shiftsByUserDate = new Map<string, number>();
+  const workDaysByUser = new Map<string, number>();
+
+  shifts.forEach(shift => {
+    const dateKey = shiftService.formatDateKey(shift.date);
+    const storeDateKey = `${shift.storeId}|${dateKey}`;
+    shiftsByStoreDate.set(storeDateKey, [...(shiftsByStoreDate.get(storeDateKey) || []), shift]);
+
+    const userDateKey = `${shift.userId}|${dateKey}`;
+    const count = (shiftsByUserDate.get(userDateKey) || 0) + 1;
+    shiftsByUserDate.set(userDateKey, count);
+    if (count === 1) {
+      workDaysByUser.set(shift.userId, (workDaysByUser.get(shift.userId) || 0) + 1);
+    }
+  });
+
+  const breakdown: ShiftScoreBreakdown = {
+    filledSlots: 0,
+    unfilledSlots: 0,
+    preferredWeekdayAssignments: 0,
+    fairnessDeviation: 0,
+    overqualification: 0,
+    preferOffPenalty: 0,
+    preferredStoreBonus: 0,
+    hardViolations: 0
+  };
+  const unfilled: UnfilledRequirement[] = [];
+
+  // スキル要件の充足状況（時間帯ごと）
+  dates.forEach(date => {
+    const dateKey = shiftService.formatDateKey(date);
+    input.stores.forEach(store => {
+      getRequiredTimeSlots(store, date, options.shiftTime, input.events).forEach(({ slot, requirement }) => {
+        // 前日から日付をまたぐシフトも対象にする
+        const previousDate = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+        const staffIds = new Set(
+          [
+            ...(shiftsByStoreDate.get(`${store.id}|${shiftService.formatDateKey(previousDate)}`) || []),
+            ...(shiftsByStoreDate.get(`${store.id}|${dateKey}`) || [])
+          ]
+            .filter(shift => isWorkingInSlot(shift, slot, date))
+            .map(shift => shift.userId)
+        );
+        const staff = Array.from(staffIds)
+          .map(userId => employeeMap.get(userId))
+          .filter((employee): employee is User => !!employee);
+
+        const result = matchStaffToRequirement(staff, requirement, considerSkillLevel);
+        breakdown.filledSlots += result.assignments.length;
+        result.assignments.forEach(assignment => {
+          const employeeLevel = employeeMap.get(assignment.userId)?.skills[assignment.skill];
+          if (employeeLevel && considerSkillLevel) {
+            breakdown.overqualification += levelRank(assignment.level) - levelRank(employeeLevel);
+          }
+        });
+        result.unfilled.forEach(entry => {
+          breakdown.unfilledSlots += entry.count;
+          unfilled.push({ storeId: store.id, date, timeSlotId: slot.id, ...entry });
+        });
+      });
+    });
+  });
+
+  // ハード制約と希望曜日
+  shifts.forEach(shift => {
+    const preference = preferences.forDate(shift.userId, shift.date);
+    const dateKey = shiftService.formatDateKey(shift.date);
+
+    if (preference?.unavailableDates?.some(date => shiftService.formatDateKey(date) === dateKey)) {
+      breakdown.hardViolations++;
+    } else if (
+      preference &&
+      !shiftPreferenceService.isAvailableForTime(preference, shift.date, shift.startTime, shift.endTime)
+    ) {
+      breakdown.hardViolations++;
+    }
+    if (preference?.preferredWeekdays?.includes(WEEKDAY_KEYS[shift.date.getDay()])) {
+      breakdown.preferredWeekdayAssignments++;
+    }
+    breakdown.preferOffPenalty += preferOffMultiplier(preference, shift.date);
+    breakdown.preferredStoreBonus += preferredStoreMultiplier(preference, shift.storeId);
+  });
+  breakdown.preferredStoreBonus = Math.round(breakdown.preferredStoreBonus * 100) / 100;
+
+  shiftsByUserDate.forEach(count => {
+    if (count > 1) breakdown.hardViolations += count - 1;
+  });
+
+  // 人間関係制約（同じ店舗で勤務時間が重なる場合のみ、シフト検証と同じ基準）
+  shifts.forEach((shift1, index1) => {
+    shifts.slice(index1 + 1).forEach(shift2 => {
+      if (shift1.storeId !== shift2.storeId || shift1.userId === shift2.userId) return;
+      if (!constrainedPairs.has(pairKey(shift1.userId, shift2.userId))) return;
+      if (shiftService.doShiftsOverlap(shift1, shift2)) {
+        breakdown.hardViolations++;
+      }
+    });
+  });
+
+  // 勤務日数の偏り
+  input.employees.forEach(employee => {
+    const target = calculateTargetDays(employee, preferences.forPeriod(employee.id), dates.length);
+    breakdown.fairnessDeviation += Math.abs((workDaysByUser.get(employee.id) || 0) - target);
+  });
+  breakdown.fairnessDeviation = Math.round(breakdown.fairnessDeviation * 100) / 100;
+
+  const score =
+    weights.coverage * breakdown.filledSlots -
+    weights.unfilled * breakdown.unfilledSlots +
+    weights.preferredWeekday * breakdown.preferredWeekdayAssignments -
+    weights.fairness * breakdown.fairnessDeviation -
+    weights.overqualification * breakdown.overqualification -
+    weights.preferOff * breakdown.preferOffPenalty +
+    weights.preferredStore * breakdown.preferredStoreBonus -
+    weights.hardViolation * breakdown.hardViolations;
+
+  return { score: Math.round(score * 100) / 100, breakdown, unfilled };
+};
+
+// 制約ベースのシフト生成（同じ入力に対して常に同じ結果を返す）
+// 勤務不可日・勤務可能時間帯・人間関係制約・1日1シフトはハード制約
+// 希望曜日・休み希望・希望店舗・勤務日数の均等化はソフト制約として扱う
+export const solveShiftSchedule = (
+  input: ShiftSolverInput,
+  options: ShiftSolverOptions = {}
+): ShiftSolverResult => {
+  const weights = resolveWeights(options);
+  const considerSkillLevel = options.considerSkillRequirements !== false;
+  const dates = shiftService.getDatesInRange(input.period.startDate, input.period.endDate);
+
+  const employees = [...input.employees].sort((a, b) => a.id.localeCompare(b.id));
+  const stores = [...input.stores].sort((a, b) => a.id.localeCompare(b.id));
+  const preferences = createShiftPreferenceLookup(input);
+
+  // 勤務不可日（月ごとの希望をまとめる）
+  const unavailableMap = new Map<string, Set<string>>();
+  input.shiftPreferences.forEach(pref => {
+    const dates = unavailableMap.get(pref.userId) || new Set<string>();
+    (pref.unavailableDates || []).forEach(date => dates.add(shiftService.formatDateKey(date)));
+    unavailableMap.set(pref.userId, dates);
+  });
+
+  // 人間関係制約
+  const constrainedPairs = new Set(
+    input.relationshipConstraints.map(c => pairKey(c.employee1Id, c.employee2Id))
+  );
+
+  // 目標勤務日数と割り当て済み日数
+  const targetDays = new Map(
+    employees.map(employee => [
+      employee.id,
+      calculateTargetDays(employee, preferences.forPeriod(employee.id), dates.length)
+    ])
+  );
+  const assignedDays = new Map<string, number>();
+
+  const shifts: Shift[] = [];
+
+  dates.forEach(date => {
+    const dateKey = shiftService.formatDateKey(date);
+    const weekday = WEEKDAY_KEYS[date.getDay()];
+    const assignedToday = new Set<string>();
+
+    // イベントの影響を受ける店舗（予測来客数の多い順）から優先的に人員を確保
+    const eventLoad = (storeId: string): number =>
+      staffingService.getPredictedCustomers(input.events, storeId, date);
+
+    const orderedStores = [...stores].sort((a, b) => eventLoad(b.id) - eventLoad(a.id));
+
+    orderedStores.forEach(store => {
+      // 店舗に割り当て済みのシフト（人間関係制約の判定用）
+      const storeShifts: Shift[] = [];
+
+      // 時間帯ごとに必要人数を満たす（従業員は1日1つの時間帯のみ担当）
+      getRequiredTimeSlots(store, date, options.shiftTime, input.events).forEach(({ slot, requirement }) => {
+        // 上位レベルの枠から順に埋める（候補者が少ない枠を優先）
+        SKILL_LEVELS.forEach(level => {
+          REQUIREMENT_SKILL_TYPES.forEach(skill => {
+            const count = requirement[skill]?.[level] || 0;
+
+            for (let i = 0; i < count; i++) {
+              let bestCandidate: User | null = null;
+              let bestScore = -Infinity;
+
+              for (const employee of employees) {
+                // ハード制約
+                if (assignedToday.has(employee.id)) continue;
+                if (unavailableMap.get(employee.id)?.has(dateKey)) continue;
+                // 人間関係制約は勤務時間が重なる場合のみ（時間帯が異なれば同じ店舗でも可）
+                if (storeShifts.some(assignedShift =>
+                  constrainedPairs.has(pairKey(assignedShift.userId, employee.id)) &&
+                  shiftService.doShiftsOverlap(assignedShift, { date, startTime: slot.startTime, endTime: slot.endTime })
+                )) continue;
+
+                const employeeLevel = employee.skills?.[skill];
+                if (!employeeLevel) continue;
+                if (considerSkillLevel && !canFillLevel(employeeLevel, level)) continue;
+
+                // 勤務可能な時間帯に収まらない場合は割り当てない
+                const preference = preferences.forDate(employee.id, date);
+                if (
+                  preference &&
+                  !shiftPreferenceService.isAvailableForTime(preference, date, slot.startTime, slot.endTime)
+                ) continue;
+
+                // ソフト制約による候補者の評価
+                const target = targetDays.get(employee.id) || 0;
+                const assigned = assignedDays.get(employee.id) || 0;
+
+                let candidateScore = 0;
+                if (preference?.preferredWeekdays?.includes(weekday)) {
+                  candidateScore += weights.preferredWeekday;
+                }
+                candidateScore -= weights.preferOff * preferOffMultiplier(preference, date);
+                candidateScore += weights.preferredStore * preferredStoreMultiplier(preference, store.id);
+                candidateScore -= weights.fairness * (target > 0 ? assigned / target : assigned + 1);
+                if (considerSkillLevel) {
+                  candidateScore -= weights.overqualification * (levelRank(level) - levelRank(employeeLevel));
+                }
+
+                // 同点の場合はID順（employeesはソート済み）で先の従業員を優先
+                if (candidateScore > bestScore) {
+                  bestScore = candidateScore;
+                  bestCandidate = employee;
+                }
+              }
+
+              if (!bestCandidate) break;
+
+              const selected = bestCandidate;
+              assignedToday.add(selected.id);
+              assignedDays.set(selected.id, (assignedDays.get(selected.id) || 0) + 1);
+
+              const shift: Shift = {
+                id: '', // IDは保存時に生成される
+                userId: selected.id,
+                storeId: store.id,
+                date: new Date(date),
+                startTime: slot.startTime,
+                endTime: slot.endTime,
+                // 時間帯が設定された店舗のみ時間帯IDを記録
+                ...(slot.id !== storeService.DEFAULT_TIME_SLOT_ID && { timeSlotId: slot.id }),
+                status: 'planned'
+              };
+              shifts.push(shift);
+              storeShifts.push(shift);
+            }
+          });
+        });
+      });
+    });
+  });
+
+  const { score, breakdown, unfilled } = scoreShiftSchedule(input, shifts, options);
+
+  return { shifts, score, breakdown, unfilled };
+};
+
+// ソルバー入力データの収集
+export const collectShiftSolverInput = async (
+  startDate: Date,
+  endDate: Date
+): Promise<ShiftSolverInput> => {
+  try {
+    // 対象期間にかかるすべての年月
+    const months: Array<{ year: number; month: number }> = [];
+    for (
+      let cursor = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
+      cursor.getTime() <= endDate.getTime();
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+    ) {
+      months.push({ year: cursor.getFullYear(), month: cursor.getMonth() + 1 });
+    }
+
+    const employees = await userService.getAllUsers();
+    const stores = await storeService.getAllStores();
+    const shiftPreferences = (await Promise.all(
+      months.map(({ year, month }) => shiftPreferenceService.getAllShiftPreferencesForMonth(year, month))
+    )).flat();
+    const events = await eventService.getEventsByDateRange(startDate, endDate);
+
+    const relationshipConstraints = await relationshipConstraintService.getAllRelationshipConstraints();
+
+    return {
+      period: { startDate, endDate },
+      employees,
+      stores,
+      shiftPreferences,
+      events,
+      relationshipConstraints
+    };
+  } catch (error) {
+    console.error('Error collecting shift solver input:', error);
+    throw error;
+  }
+};
+
+// 期間を指定してソルバーでシフト案を生成
+export const generateShiftPlan = async (
+  startDate: Date,
+  endDate: Date,
+  options: ShiftSolverOptions = {}
+): Promise<ShiftSolverResult> => {
+  try {
+    const input = await collectShiftSolverInput(startDate, endDate);
+    return solveShiftSchedule(input, options);
+  } catch (error) {
+    console.error('Error generating shift plan:', error);
+    throw error;
+  }
+};
+
+export default {
+  findSkillRequirement,
+  findSlotSkillRequirement,
+  getRequiredTimeSlots,
+  isWorkingInSlot,
+  matchStaffToRequirement,
+  createShiftPreferenceLookup,
+  scoreShiftSchedule,
+  solveShiftSchedule,
+  collectShiftSolverInput,
+  generateShiftPlan
+};
@@ -0,0 +1,664 @@
+// src/services/shiftSwapService.ts
+import {
+  QueryConstraint,
+  Timestamp,
+  doc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { Shift, ShiftAuditEntry, ShiftSwapRequest, Store, User } from '../types/models';
+import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
+import * as storeService from './storeService';
+import * as userService from './userService';
+import * as eventService from './eventService';
+import * as relationshipConstraintService from './relationshipConstraintService';
+import * as shiftPreferenceService from './shiftPreferenceService';
+import * as shiftSolverService from './shiftSolverService';
+import * as laborComplianceService from './laborComplianceService';
+
+// コレクション名を定数化
+const COLLECTION_NAME: firestoreService.CollectionName = 'shiftSwaps';
+const SHIFT_COLLECTION_NAME: firestoreService.CollectionName = 'shifts';
+const AUDIT_COLLECTION_NAME: firestoreService.CollectionName = 'shiftAuditLogs';
+
+// 引き受けできない理由（typeで判別）
+export interface ShiftSwapIneligibility {
+  type: 'sameEmployee' | 'insufficientSkill' | 'scheduleConflict' | 'unavailableDate' | 'relationshipConstraint';
+  message: string;
+}
+
+// 引き受け可否の判定結果
+export interface ShiftSwapEligibility {
+  eligible: boolean;
+  reasons: ShiftSwapIneligibility[];
+}
+
+// 判定に使用する店舗・日付の情報
+interface ShiftSwapContext {
+  shift: Shift;
+  store: Store;
+  storeShifts: Shift[];
+  users: User[];
+}
+
+// Timestamp型ならDate型に変換
+const toDate = (value: any): any => {
+  return value instanceof Timestamp ? firestoreService.convertTimestampToDate(value) : value;
+};
+
+// タイムスタンプ変換ユーティリティ
+const convertTimestamps = (request: ShiftSwapRequest): ShiftSwapRequest => ({
+  ...request,
+  shiftDate: toDate(request.shiftDate),
+  offeredAt: toDate(request.offeredAt),
+  claimedAt: toDate(request.claimedAt),
+  reviewedAt: toDate(request.reviewedAt)
+});
+
+// シフトの前後1日の範囲（日付をまたぐシフトとの重なりを判定するため）
+const getSurroundingRange = (date: Date): { startDate: Date; endDate: Date } => ({
+  startDate: new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 0, 0, 0, 0),
+  endDate: new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1, 23, 59, 59, 999)
+});
+
+// シフトの存在確認
+const requireShift = async (shiftId: string): Promise<Shift> => {
+  const shift = await shiftService.getShiftById(shiftId);
+  if (!shift) {
+    throw new Error(`Shift with ID ${shiftId} not found`);
+  }
+  return shift;
+};
+
+// 判定に使用する情報を取得
+const loadSwapContext = async (shift: Shift): Promise<ShiftSwapContext> => {
+  const store = await storeService.getStoreById(shift.storeId);
+  if (!store) {
+    throw new Error(`Store with ID ${shift.storeId} not found`);
+  }
+
+  const { startDate, endDate } = getSurroundingRange(shift.date);
+  const storeShifts = await shiftService.getStoreShifts(
+    shift.storeId,
+    startDate,
+    endDate,
+    shift.planId ? { planId: shift.planId } : {}
+  );
+  const users = await userService.getAllUsers();
+
+  return { shift, store, storeShifts, users };
+};
+
+// スキル要件の不足数（時間帯ごとの合計）
+const countUnfilled = (
+  context: ShiftSwapContext,
+  staffShifts: Shift[],
+  requiredSlots: ReturnType<typeof shiftSolverService.getRequiredTimeSlots>
+): number => {
+  const userMap = new Map(context.users.map(user => [user.id, user]));
+
+  return requiredSlots.reduce((total, { slot, requirement }) => {
+    const staff = Array.from(new Set(
+      staffShifts
+        .filter(shift => shiftSolverService.isWorkingInSlot(shift, slot, context.shift.date))
+        .map(shift => shift.userId)
+    ))
+      .map(userId => userMap.get(userId))
+      .filter((user): user is User => !!user);
+
+    const { unfilled } = shiftSolverService.matchStaffToRequirement(staff, requirement);
+    return total + unfilled.reduce((sum, entry) => sum + entry.count, 0);
+  }, 0);
+};
+
+// 従業員がシフトを引き受けられるかの判定
+// excludeShiftIdsは引き受けと同時に手放すシフト（交換の場合）
+const checkEligibility = async (
+  context: ShiftSwapContext,
+  candidate: User,
+  excludeShiftIds: string[] = []
+): Promise<ShiftSwapEligibility> => {
+  const { shift, store, storeShifts } = context;
+  const reasons: ShiftSwapIneligibility[] = [];
+  const dateKey = shiftService.formatDateKey(shift.date);
+
+  if (candidate.id === shift.userId) {
+    reasons.push({ type: 'sameEmployee', message: '自分のシフトは引き受けできません' });
+    return { eligible: false, reasons };
+  }
+
+  // 店舗のスキル要件（担当者を入れ替えても不足が増えないこと）
+  const events = await eventService.getEventsByDateRange(shift.date, shift.date);
+  const requiredSlots = shiftSolverService.getRequiredTimeSlots(store, shift.date, undefined, events);
+  if (requiredSlots.length > 0) {
+    const sameDayShifts = storeShifts.filter(other =>
+      shiftService.formatDateKey(other.date) === dateKey &&
+      !excludeShiftIds.includes(other.id)
+    );
+    const before = countUnfilled(context, sameDayShifts, requiredSlots);
+    const after = countUnfilled(
+      context,
+      sameDayShifts.map(other => other.id === shift.id ? { ...other, userId: candidate.id } : other),
+      requiredSlots
+    );
+    if (after > before) {
+      reasons.push({
+        type: 'insufficientSkill',
+        message: `${store.name}のスキル要件を満たすスキルレベルがありません`
+      });
+    }
+  }
+
+  // 同じ従業員のシフトとの重なり（他店舗を含む）
+  const { startDate, endDate } = getSurroundingRange(shift.date);
+  const candidateShifts = (await shiftService.getUserShifts(candidate.id, startDate, endDate))
+    .filter(other => !excludeShiftIds.includes(other.id));
+  if (candidateShifts.some(other => shiftService.doShiftsOverlap(shift, other))) {
+    reasons.push({ type: 'scheduleConflict', message: `${dateKey}に時間帯が重なるシフトがあります` });
+  }
+
+  // 勤務不可日・勤務可能な時間帯
+  const preference = await shiftPreferenceService.getUserShiftPreference(
+    candidate.id,
+    shift.date.getFullYear(),
+    shift.date.getMonth() + 1
+  );
+  if (preference) {
+    const unavailable = preference.unavailableDates?.some(date => shiftService.formatDateKey(date) === dateKey) ||
+      !shiftPreferenceService.isAvailableForTime(preference, shift.date, shift.startTime, shift.endTime);
+    if (unavailable) {
+      reasons.push({ type: 'unavailableDate', message: `${dateKey}（${shift.startTime}〜${shift.endTime}）は勤務不可として提出されています` });
+    }
+  }
+
+  // 人間関係制約（同じ店舗で時間帯が重なる従業員）
+  const constraints = await relationshipConstraintService.getRelationshipConstraintsByEmployee(candidate.id);
+  const partnerIds = new Set(constraints.map(constraint =>
+    constraint.employee1Id === candidate.id ? constraint.employee2Id : constraint.employee1Id
+  ));
+  const conflictingShift = storeShifts.find(other =>
+    other.id !== shift.id &&
+    !excludeShiftIds.includes(other.id) &&
+    partnerIds.has(other.userId) &&
+    shiftService.doShiftsOverlap(shift, other)
+  );
+  if (conflictingShift) {
+    reasons.push({
+      type: 'relationshipConstraint',
+      message: '同時に勤務できない従業員と時間帯が重なります'
+    });
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+};
+
+// 交換の場合は双方の引き受け可否を判定
+const checkRequestEligibility = async (
+  shift: Shift,
+  claimant: User,
+  counterShiftId?: string
+): Promise<ShiftSwapEligibility> => {
+  const result = await checkEligibility(
+    await loadSwapContext(shift),
+    claimant,
+    counterShiftId ? [counterShiftId] : []
+  );
+
+  if (!counterShiftId) {
+    return result;
+  }
+
+  const counterShift = await requireShift(counterShiftId);
+  if (counterShift.userId !== claimant.id) {
+    throw new Error(`Shift ${counterShiftId} is not assigned to user ${claimant.id}`);
+  }
+
+  const offerer = await userService.getUserById(shift.userId);
+  if (!offerer) {
+    throw new Error(`User with ID ${shift.userId} not found`);
+  }
+
+  const counterResult = await checkEligibility(await loadSwapContext(counterShift), offerer, [shift.id]);
+  const reasons = [
+    ...result.reasons,
+    ...counterResult.reasons.map(reason => ({
+      ...reason,
+      message: `交換先のシフト: ${reason.message}`
+    }))
+  ];
+
+  return { eligible: reasons.length === 0, reasons };
+};
+
+// 管理者の承認が必要な理由（空の場合は自動承認）
+const getApprovalReasons = async (
+  shift: Shift,
+  claimant: User,
+  counterShiftId?: string,
+  now: Date = new Date()
+): Promise<string[]> => {
+  const settings = await storeService.getShiftSwapSettings(shift.storeId);
+  if (settings.approvalMode === 'always') {
+    return ['店舗の設定により承認が必要です'];
+  }
+
+  const reasons: string[] = [];
+
+  const hoursToStart = (shiftService.getShiftStartDateTime(shift).getTime() - now.getTime()) / (60 * 60 * 1000);
+  if (hoursToStart < settings.approvalWithinHours) {
+    reasons.push(`勤務開始まで${settings.approvalWithinHours}時間を切っています`);
+  }
+
+  if (counterShiftId && settings.approvalForExchanges) {
+    reasons.push('シフト同士の交換です');
+  }
+
+  if (settings.approvalOnLaborFindings) {
+    // 引き受け後の1週間分の勤務で指摘が増えるか
+    const weekStart = new Date(shift.date.getFullYear(), shift.date.getMonth(), shift.date.getDate() - 6);
+    const weekEnd = new Date(shift.date.getFullYear(), shift.date.getMonth(), shift.date.getDate() + 6, 23, 59, 59, 999);
+    const claimantShifts = (await shiftService.getUserShifts(claimant.id, weekStart, weekEnd))
+      .filter(other => other.id !== counterShiftId);
+    const before = laborComplianceService.checkShiftCompliance(claimantShifts, [claimant]);
+    const after = laborComplianceService.checkShiftCompliance(
+      [...claimantShifts, { ...shift, userId: claimant.id }],
+      [claimant]
+    );
+    if (after.length > before.length) {
+      reasons.push('労働基準法の判定で新たな指摘があります');
+    }
+  }
+
+  return reasons;
+};
+
+// 募集取得
+export const getSwapRequestById = async (requestId: string): Promise<ShiftSwapRequest | null> => {
+  try {
+    const request = await firestoreService.getDocument<ShiftSwapRequest>(COLLECTION_NAME, requestId);
+    return request ? convertTimestamps(request) : null;
+  } catch (error) {
+    console.error('Error fetching shift swap request:', error);
+    throw error;
+  }
+};
+
+// 状態別の募集一覧（店舗を指定した場合はその店舗のみ）
+const getSwapRequestsByStatus = async (
+  status: ShiftSwapRequest['status'],
+  storeId?: string
+): Promise<ShiftSwapRequest[]> => {
+  const constraints: QueryConstraint[] = [
+    firestoreService.createWhereConstraint('status', '==', status),
+    ...(storeId ? [firestoreService.createWhereConstraint('storeId', '==', storeId)] : [])
+  ];
+
+  const requests = await firestoreService.getCollection<ShiftSwapRequest>(COLLECTION_NAME, constraints);
+
+  return requests
+    .map(request => convertTimestamps(request))
+    .sort((a, b) => a.shiftDate.getTime() - b.shiftDate.getTime());
+};
+
+// 募集中の一覧（勤務日が過ぎたものを除く）
+export const getOpenSwapRequests = async (storeId?: string): Promise<ShiftSwapRequest[]> => {
+  try {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return (await getSwapRequestsByStatus('open', storeId))
+      .filter(request => request.shiftDate.getTime() >= today.getTime());
+  } catch (error) {
+    console.error('Error fetching open shift swap requests:', error);
+    throw error;
+  }
+};
+
+// 承認待ちの一覧（管理者用）
+export const getPendingSwapApprovals = async (storeId?: string): Promise<ShiftSwapRequest[]> => {
+  try {
+    return await getSwapRequestsByStatus('claimed', storeId);
+  } catch (error) {
+    console.error('Error fetching pending shift swap approvals:', error);
+    throw error;
+  }
+};
+
+// 従業員が引き受けできる募集の一覧
+export const getEligibleSwapRequestsForUser = async (userId: string): Promise<ShiftSwapRequest[]> => {
+  try {
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const openRequests = (await getOpenSwapRequests()).filter(request => request.offeredBy !== userId);
+    const eligibleRequests: ShiftSwapRequest[] = [];
+
+    for (const request of openRequests) {
+      const shift = await shiftService.getShiftById(request.shiftId);
+      if (!shift || shift.userId !== request.offeredBy) continue;
+
+      const { eligible } = await checkEligibility(await loadSwapContext(shift), user);
+      if (eligible) {
+        eligibleRequests.push(request);
+      }
+    }
+
+    return eligibleRequests;
+  } catch (error) {
+    console.error('Error fetching eligible shift swap requests:', error);
+    throw error;
+  }
+};
+
+// 引き受け可否の判定（画面表示用）
+export const checkSwapEligibility = async (
+  requestId: string,
+  userId: string,
+  counterShiftId?: string
+): Promise<ShiftSwapEligibility> => {
+  try {
+    const request = await getSwapRequestById(requestId);
+    if (!request) {
+      throw new Error(`Shift swap request with ID ${requestId} not found`);
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    return await checkRequestEligibility(await requireShift(request.shiftId), user, counterShiftId);
+  } catch (error) {
+    console.error('Error checking shift swap eligibility:', error);
+    throw error;
+  }
+};
+
+// シフトの募集（従業員用）
+export const offerShift = async (shiftId: string, offeredBy: string, message: string = ''): Promise<string> => {
+  try {
+    const shift = await requireShift(shiftId);
+    if (shift.userId !== offeredBy) {
+      throw new Error(`Shift ${shiftId} is not assigned to user ${offeredBy}`);
+    }
+
+    if (shiftService.getShiftStartDateTime(shift).getTime() <= Date.now()) {
+      throw new Error('Cannot offer a shift that has already started');
+    }
+
+    // 同じシフトの募集が進行中の場合は受け付けない
+    const activeRequests = await firestoreService.getCollection<ShiftSwapRequest>(COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('shiftId', '==', shiftId),
+      firestoreService.createWhereConstraint('status', 'in', ['open', 'claimed'])
+    ]);
+    if (activeRequests.length > 0) {
+      throw new Error(`Shift ${shiftId} is already offered`);
+    }
+
+    const requestToSave = {
+      shiftId,
+      storeId: shift.storeId,
+      shiftDate: firestoreService.convertDateToTimestamp(shift.date),
+      offeredBy,
+      message,
+      status: 'open',
+      offeredAt: serverTimestamp()
+    };
+
+    return await firestoreService.setDocument<any>(COLLECTION_NAME, requestToSave as any);
+  } catch (error) {
+    console.error('Error offering shift:', error);
+    throw error;
+  }
+};
+
+// 募集の取り下げ（募集者本人、承認前のみ）
+export const cancelSwapRequest = async (requestId: string, userId: string): Promise<void> => {
+  try {
+    const request = await getSwapRequestById(requestId);
+    if (!request) {
+      throw new Error(`Shift swap request with ID ${requestId} not found`);
+    }
+
+    if (request.offeredBy !== userId) {
+      throw new Error(`Shift swap request ${requestId} was not offered by user ${userId}`);
+    }
+
+    if (request.status !== 'open' && request.status !== 'claimed') {
+      throw new Error(`Shift swap request ${requestId} cannot be cancelled`);
+    }
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, requestId, { status: 'cancelled' });
+  } catch (error) {
+    console.error('Error cancelling shift swap request:', error);
+    throw error;
+  }
+};
+
+// 募集の引き受け（counterShiftIdを指定した場合は交換）
+// 承認が不要な場合はそのまま担当者を変更する
+export const claimSwapRequest = async (
+  requestId: string,
+  claimedBy: string,
+  counterShiftId?: string
+): Promise<ShiftSwapRequest['status']> => {
+  try {
+    const request = await getSwapRequestById(requestId);
+    if (!request) {
+      throw new Error(`Shift swap request with ID ${requestId} not found`);
+    }
+
+    if (request.status !== 'open') {
+      throw new Error(`Shift swap request ${requestId} is not open`);
+    }
+
+    const claimant = await userService.getUserById(claimedBy);
+    if (!claimant) {
+      throw new Error(`User with ID ${claimedBy} not found`);
+    }
+
+    const shift = await requireShift(request.shiftId);
+    const eligibility = await checkRequestEligibility(shift, claimant, counterShiftId);
+    if (!eligibility.eligible) {
+      throw new Error(`User ${claimedBy} is not eligible: ${eligibility.reasons.map(reason => reason.type).join(', ')}`);
+    }
+
+    const approvalReasons = await getApprovalReasons(shift, claimant, counterShiftId);
+
+    await firestoreService.runFirestoreTransaction(async transaction => {
+      const requestRef = firestoreService.getDocumentRef(COLLECTION_NAME, requestId);
+
+      // 同時に引き受けられていないか確認
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists() || requestSnap.data().status !== 'open') {
+        throw new Error(`Shift swap request ${requestId} is not open`);
+      }
+
+      transaction.update(requestRef, {
+        status: 'claimed',
+        claimedBy,
+        claimedAt: serverTimestamp(),
+        ...(counterShiftId && { counterShiftId }),
+        approvalReasons,
+        updatedAt: serverTimestamp()
+      });
+    });
+
+    if (approvalReasons.length === 0) {
+      await completeSwap(requestId, 'system', '', true);
+      return 'approved';
+    }
+
+    return 'claimed';
+  } catch (error) {
+    console.error('Error claiming shift swap request:', error);
+    throw error;
+  }
+};
+
+// 担当者の変更（トランザクションで募集の状態とシフトの担当者を確認してから変更し、監査記録を残す）
+const completeSwap = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string,
+  autoApproved: boolean
+): Promise<void> => {
+  await firestoreService.runFirestoreTransaction(async transaction => {
+    const requestRef = firestoreService.getDocumentRef(COLLECTION_NAME, requestId);
+    const requestSnap = await transaction.get(requestRef);
+    if (!requestSnap.exists() || requestSnap.data().status !== 'claimed') {
+      throw new Error(`Shift swap request ${requestId} is not awaiting approval`);
+    }
+
+    const request = requestSnap.data() as ShiftSwapRequest;
+    const claimedBy = request.claimedBy as string;
+
+    // 募集後に担当者が変更されていないか確認
+    const shiftRef = firestoreService.getDocumentRef(SHIFT_COLLECTION_NAME, request.shiftId);
+    const shiftSnap = await transaction.get(shiftRef);
+    if (!shiftSnap.exists() || shiftSnap.data().userId !== request.offeredBy) {
+      throw new Error(`Shift ${request.shiftId} is no longer assigned to user ${request.offeredBy}`);
+    }
+
+    const counterShiftRef = request.counterShiftId
+      ? firestoreService.getDocumentRef(SHIFT_COLLECTION_NAME, request.counterShiftId)
+      : null;
+    if (counterShiftRef) {
+      const counterShiftSnap = await transaction.get(counterShiftRef);
+      if (!counterShiftSnap.exists() || counterShiftSnap.data().userId !== claimedBy) {
+        throw new Error(`Shift ${request.counterShiftId} is no longer assigned to user ${claimedBy}`);
+      }
+    }
+
+    // 担当者の変更と監査記録
+    const reassignments = [
+      { shiftRef, shiftId: request.shiftId, fromUserId: request.offeredBy, toUserId: claimedBy },
+      ...(counterShiftRef && request.counterShiftId
+        ? [{ shiftRef: counterShiftRef, shiftId: request.counterShiftId, fromUserId: claimedBy, toUserId: request.offeredBy }]
+        : [])
+    ];
+
+    reassignments.forEach(reassignment => {
+      transaction.update(reassignment.shiftRef, {
+        userId: reassignment.toUserId,
+        updatedAt: serverTimestamp()
+      });
+
+      const auditRef = doc(firestoreService.getCollectionRef(AUDIT_COLLECTION_NAME));
+      transaction.set(auditRef, {
+        shiftId: reassignment.shiftId,
+        action: 'swapReassign',
+        fromUserId: reassignment.fromUserId,
+        toUserId: reassignment.toUserId,
+        swapRequestId: requestId,
+        performedBy: reviewedBy,
+        performedAt: serverTimestamp()
+      });
+    });
+
+    transaction.update(requestRef, {
+      status: 'approved',
+      reviewedBy,
+      reviewedAt: serverTimestamp(),
+      reviewComment,
+      autoApproved,
+      updatedAt: serverTimestamp()
+    });
+  });
+};
+
+// 引き受けの承認（管理者用、承認時点の状況で引き受け可否を再判定）
+export const approveSwapRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string = ''
+): Promise<void> => {
+  try {
+    const request = await getSwapRequestById(requestId);
+    if (!request) {
+      throw new Error(`Shift swap request with ID ${requestId} not found`);
+    }
+
+    if (request.status !== 'claimed' || !request.claimedBy) {
+      throw new Error(`Shift swap request ${requestId} is not awaiting approval`);
+    }
+
+    const claimant = await userService.getUserById(request.claimedBy);
+    if (!claimant) {
+      throw new Error(`User with ID ${request.claimedBy} not found`);
+    }
+
+    const eligibility = await checkRequestEligibility(
+      await requireShift(request.shiftId),
+      claimant,
+      request.counterShiftId
+    );
+    if (!eligibility.eligible) {
+      throw new Error(`User ${request.claimedBy} is no longer eligible: ${eligibility.reasons.map(reason => reason.type).join(', ')}`);
+    }
+
+    await completeSwap(requestId, reviewedBy, reviewComment, false);
+  } catch (error) {
+    console.error('Error approving shift swap request:', error);
+    throw error;
+  }
+};
+
+// 引き受けの却下（管理者用）
+export const rejectSwapRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string = ''
+): Promise<void> => {
+  try {
+    const request = await getSwapRequestById(requestId);
+    if (!request) {
+      throw new Error(`Shift swap request with ID ${requestId} not found`);
+    }
+
+    if (request.status !== 'claimed') {
+      throw new Error(`Shift swap request ${requestId} is not awaiting approval`);
+    }
+
+    await firestoreService.updateDocument<any>(COLLECTION_NAME, requestId, {
+      status: 'rejected',
+      reviewedBy,
+      reviewedAt: serverTimestamp(),
+      reviewComment
+    });
+  } catch (error) {
+    console.error('Error rejecting shift swap request:', error);
+    throw error;
+  }
+};
+
+// シフトの担当者変更の履歴
+export const getShiftAuditLog = async (shiftId: string): Promise<ShiftAuditEntry[]> => {
+  try {
+    const entries = await firestoreService.getCollection<ShiftAuditEntry>(AUDIT_COLLECTION_NAME, [
+      firestoreService.createWhereConstraint('shiftId', '==', shiftId)
+    ]);
+
+    return entries
+      .map(entry => ({ ...entry, performedAt: toDate(entry.performedAt) }))
+      .sort((a, b) => (a.performedAt?.getTime() || 0) - (b.performedAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error fetching shift audit log:', error);
+    throw error;
+  }
+};
+
+export default {
+  getSwapRequestById,
+  getOpenSwapRequests,
+  getPendingSwapApprovals,
+  getEligibleSwapRequestsForUser,
+  checkSwapEligibility,
+  offerShift,
+  cancelSwapRequest,
+  claimSwapRequest,
+  approveSwapRequest,
+  rejectSwapRequest,
+  getShiftAuditLog
+};
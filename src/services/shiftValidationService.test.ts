@@ -0,0 +1,187 @@
+import {
+  createValidatedShifts,
+  hasBlockingViolations,
+  validateShifts
+} from './shiftValidationService';
+import * as shiftService from './shiftService';
+import * as shiftSolverService from './shiftSolverService';
+import { ShiftSolverInput } from './shiftSolverService';
+import { createTestStore, createTestUser } from './testFixtures';
+import { Shift, ShiftPreference } from '../types/models';
+
+jest.mock('./shiftService', () => ({
+  ...jest.requireActual('./shiftService'),
+  createShiftsInBatch: jest.fn()
+}));
+
+jest.mock('./shiftSolverService', () => ({
+  ...jest.requireActual('./shiftSolverService'),
+  collectShiftSolverInput: jest.fn()
+}));
+
+
+const store = createTestStore('store1', {
+  name: '宇治本店',
+  openTime: '09:00',
+  closeTime: '17:00',
+  skillRequirements: [{
+    day: 'weekday',
+    kitchen: { A: 0, B: 1, C: 0 },
+    hall: { A: 0, B: 0, C: 0 },
+    sales: { A: 0, B: 0, C: 0 }
+  }]
+});
+
+const preference = (userId: string, year: number, month: number, unavailableDates: Date[]): ShiftPreference => ({
+  id: `${userId}-${year}-${month}`,
+  userId,
+  year,
+  month,
+  desiredDaysPerWeek: 3,
+  preferredWeekdays: [],
+  unavailableDates,
+  notes: '',
+  submittedAt: new Date(2025, 2, 1)
+});
+
+const shift = (userId: string, date: Date, startTime: string = '09:00', endTime: string = '17:00'): Omit<Shift, 'id'> => ({
+  userId,
+  storeId: 'store1',
+  date,
+  startTime,
+  endTime,
+  status: 'planned'
+});
+
+// 2025-04-08（火）
+const tuesday = new Date(2025, 3, 8);
+
+const createInput = (overrides: Partial<ShiftSolverInput> = {}): ShiftSolverInput => ({
+  period: { startDate: tuesday, endDate: tuesday },
+  employees: [createTestUser('user1'), createTestUser('user2')],
+  stores: [store],
+  shiftPreferences: [],
+  events: [],
+  relationshipConstraints: [],
+  ...overrides
+});
+
+const options = { checkLaborCompliance: false };
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('validateShifts', () => {
+  test('reports an unmet skill requirement as a warning', () => {
+    const violations = validateShifts([], createInput(), options);
+
+    const unmet = violations.filter(violation => violation.type === 'unmetSkillRequirement');
+    expect(unmet).toEqual([
+      expect.objectContaining({ severity: 'warning', storeId: 'store1', skill: 'kitchen', level: 'B', missing: 1 })
+    ]);
+    expect(hasBlockingViolations(violations)).toBe(false);
+  });
+
+  test('counts staff in the slot toward the requirement', () => {
+    const violations = validateShifts([shift('user1', tuesday)], createInput(), options);
+
+    expect(violations.some(violation => violation.type === 'unmetSkillRequirement')).toBe(false);
+  });
+
+  test('rejects shifts on unavailable dates using the preference for that month', () => {
+    const input = createInput({
+      period: { startDate: new Date(2025, 3, 28), endDate: new Date(2025, 4, 2) },
+      stores: [{ ...store, skillRequirements: [] }],
+      shiftPreferences: [
+        preference('user1', 2025, 4, []),
+        preference('user1', 2025, 5, [new Date(2025, 4, 2)])
+      ]
+    });
+
+    const violations = validateShifts(
+      [shift('user1', new Date(2025, 3, 28)), shift('user1', new Date(2025, 4, 2))],
+      input,
+      options
+    );
+
+    expect(violations.filter(violation => violation.type === 'unavailableDate')).toEqual([
+      expect.objectContaining({ severity: 'error', shiftIndex: 1, userId: 'user1' })
+    ]);
+    expect(hasBlockingViolations(violations)).toBe(true);
+  });
+
+  test('reports overlapping shifts across midnight as a double booking', () => {
+    const violations = validateShifts(
+      [shift('user1', tuesday, '20:00', '02:00'), shift('user1', new Date(2025, 3, 9), '01:00', '05:00')],
+      createInput({ period: { startDate: tuesday, endDate: new Date(2025, 3, 9) } }),
+      options
+    );
+
+    expect(violations.filter(violation => violation.type === 'doubleBooking')).toEqual([
+      expect.objectContaining({ severity: 'error', userId: 'user1', shiftIndexes: [0, 1] })
+    ]);
+  });
+
+  test('reports constrained employees working together', () => {
+    const input = createInput({
+      relationshipConstraints: [{ employee1Id: 'user1', employee2Id: 'user2', reason: '相性' }]
+    });
+
+    const violations = validateShifts(
+      [shift('user1', tuesday, '09:00', '13:00'), shift('user2', tuesday, '12:00', '17:00')],
+      input,
+      options
+    );
+
+    expect(violations.filter(violation => violation.type === 'relationshipConflict')).toEqual([
+      expect.objectContaining({ employee1Id: 'user1', employee2Id: 'user2', shiftIndexes: [0, 1] })
+    ]);
+  });
+
+  test('reports unknown references and invalid times', () => {
+    const violations = validateShifts(
+      [{ ...shift('ghost', tuesday), storeId: 'nowhere' }, shift('user1', tuesday, '25:00', '17:00')],
+      createInput(),
+      options
+    );
+
+    expect(violations.map(violation => violation.type)).toEqual(
+      expect.arrayContaining(['unknownUser', 'unknownStore', 'invalidTime'])
+    );
+  });
+
+  test('includes labor compliance findings as warnings', () => {
+    const violations = validateShifts([shift('user1', tuesday, '08:00', '19:00')], createInput());
+
+    const labor = violations.filter(violation => violation.type === 'laborCompliance');
+    expect(labor).toEqual([expect.objectContaining({ severity: 'warning', userId: 'user1' })]);
+  });
+});
+
+describe('createValidatedShifts', () => {
+  const period = { startDate: tuesday, endDate: tuesday };
+
+  test('saves shifts when only warnings are found', async () => {
+    (shiftSolverService.collectShiftSolverInput as jest.Mock).mockResolvedValue(createInput());
+    (shiftService.createShiftsInBatch as jest.Mock).mockResolvedValue(['shift1']);
+
+    // user2は未配置（人員不足・勤務日数の警告のみ）
+    const result = await createValidatedShifts([shift('user1', tuesday, '09:00', '12:00')], period, options);
+
+    expect(result.saved).toBe(true);
+    expect(result.shiftIds).toEqual(['shift1']);
+    expect(result.violations.length).toBeGreaterThan(0);
+  });
+
+  test('does not save shifts with errors', async () => {
+    (shiftSolverService.collectShiftSolverInput as jest.Mock).mockResolvedValue(createInput({
+      shiftPreferences: [preference('user1', 2025, 4, [tuesday])]
+    }));
+
+    const result = await createValidatedShifts([shift('user1', tuesday)], period, options);
+
+    expect(result).toMatchObject({ saved: false, shiftIds: [] });
+    expect(shiftService.createShiftsInBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,445 @@
+// src/services/shiftValidationService.ts
+import { Shift, User, SkillLevel, PreferOffLevel } from '../types/models';
+import * as shiftService from './shiftService';
+import * as shiftSolverService from './shiftSolverService';
+import * as laborComplianceService from './laborComplianceService';
+import * as shiftPreferenceService from './shiftPreferenceService';
+import * as storeService from './storeService';
+import { ShiftSolverInput, RequirementSkillType } from './shiftSolverService';
+import { LaborComplianceFinding, LaborComplianceOptions } from './laborComplianceService';
+
+// 違反の重大度（errorは保存前に解消が必要、warningは確認のみ）
+export type ShiftViolationSeverity = 'error' | 'warning';
+
+interface ShiftViolationBase {
+  severity: ShiftViolationSeverity;
+  message: string;
+}
+
+// シフト案の違反（typeで判別）
+export type ShiftViolation =
+  | (ShiftViolationBase & {
+      type: 'unmetSkillRequirement';
+      storeId: string;
+      date: Date;
+      timeSlotId: string;
+      skill: RequirementSkillType;
+      level: SkillLevel;
+      missing: number;
+    })
+  | (ShiftViolationBase & {
+      type: 'unavailableDate';
+      shiftIndex: number;
+      userId: string;
+      date: Date;
+    })
+  | (ShiftViolationBase & {
+      type: 'outsideAvailableTime';
+      shiftIndex: number;
+      userId: string;
+      date: Date;
+      startTime: string;
+      endTime: string;
+    })
+  | (ShiftViolationBase & {
+      type: 'preferOffDate';
+      shiftIndex: number;
+      userId: string;
+      date: Date;
+      level: PreferOffLevel;
+    })
+  | (ShiftViolationBase & {
+      type: 'relationshipConflict';
+      storeId: string;
+      date: Date;
+      employee1Id: string;
+      employee2Id: string;
+      reason: string;
+      shiftIndexes: number[];
+    })
+  | (ShiftViolationBase & {
+      type: 'doubleBooking';
+      userId: string;
+      date: Date;
+      shiftIndexes: number[];
+    })
+  | (ShiftViolationBase & {
+      type: 'unknownUser';
+      shiftIndex: number;
+      userId: string;
+    })
+  | (ShiftViolationBase & {
+      type: 'unknownStore';
+      shiftIndex: number;
+      storeId: string;
+    })
+  | (ShiftViolationBase & {
+      type: 'storeClosed';
+      shiftIndex: number;
+      storeId: string;
+      date: Date;
+    })
+  | (ShiftViolationBase & {
+      type: 'invalidTime';
+      shiftIndex: number;
+      startTime: string;
+      endTime: string;
+    })
+  | (ShiftViolationBase & {
+      type: 'workDaysDrift';
+      userId: string;
+      desiredDays: number;
+      scheduledDays: number;
+    })
+  | (ShiftViolationBase & {
+      type: 'laborCompliance';
+      userId: string;
+      finding: LaborComplianceFinding;
+    });
+
+export type ShiftViolationType = ShiftViolation['type'];
+
+// 検証オプション
+export interface ShiftValidationOptions {
+  /** スキルレベルを考慮するか（falseの場合はスキル種別のみ判定） */
+  considerSkillRequirements?: boolean;
+  /** 希望勤務日数との差がこの日数以上の場合に警告（デフォルト: 1） */
+  workDaysTolerance?: number;
+  /** 労働基準法の判定を行うか（デフォルト: true） */
+  checkLaborCompliance?: boolean;
+  /** 労働基準法の判定ルールの上書き（雇用形態ごと） */
+  laborRules?: LaborComplianceOptions['rules'];
+}
+
+// 検証用のシフト（保存前のシフトはidを持たない）
+type ShiftLike = Omit<Shift, 'id'> & { id?: string };
+
+// 検証対象期間の日付判定用
+const isInPeriod = (date: Date, period: { startDate: Date; endDate: Date }): boolean => {
+  const dateKey = shiftService.formatDateKey(date);
+  return (
+    shiftService.formatDateKey(period.startDate) <= dateKey &&
+    dateKey <= shiftService.formatDateKey(period.endDate)
+  );
+};
+
+// 勤務時間が正しいか（時刻の形式、勤務時間が正で48時間以内）
+const hasValidTime = (shift: ShiftLike): boolean => {
+  if (!shiftService.isValidTimeString(shift.startTime) || !shiftService.isValidTimeString(shift.endTime)) {
+    return false;
+  }
+
+  const duration = shiftService.getShiftDurationInMinutes(shift);
+  return duration > 0 && duration <= 48 * 60;
+};
+
+// シフト案の検証（データ取得済みの入力を使用）
+export const validateShifts = (
+  shifts: ShiftLike[],
+  input: ShiftSolverInput,
+  options: ShiftValidationOptions = {}
+): ShiftViolation[] => {
+  const violations: ShiftViolation[] = [];
+  const considerSkillLevel = options.considerSkillRequirements !== false;
+  const workDaysTolerance = options.workDaysTolerance ?? 1;
+
+  const employeeMap = new Map(input.employees.map(employee => [employee.id, employee]));
+  const storeMap = new Map(input.stores.map(store => [store.id, store]));
+  const preferences = shiftSolverService.createShiftPreferenceLookup(input);
+
+  // 形式・参照の検証
+  shifts.forEach((shift, index) => {
+    if (!employeeMap.has(shift.userId)) {
+      violations.push({
+        type: 'unknownUser',
+        severity: 'error',
+        message: `存在しない従業員ID（${shift.userId}）のシフトがあります`,
+        shiftIndex: index,
+        userId: shift.userId
+      });
+    }
+
+    const store = storeMap.get(shift.storeId);
+    if (!store) {
+      violations.push({
+        type: 'unknownStore',
+        severity: 'error',
+        message: `存在しない店舗ID（${shift.storeId}）のシフトがあります`,
+        shiftIndex: index,
+        storeId: shift.storeId
+      });
+    } else if (storeService.isStoreClosedOn(store, shift.date)) {
+      violations.push({
+        type: 'storeClosed',
+        severity: 'error',
+        message: `${store.name}の休業日（${shiftService.formatDateKey(shift.date)}）にシフトが入っています`,
+        shiftIndex: index,
+        storeId: shift.storeId,
+        date: shift.date
+      });
+    }
+
+    if (!hasValidTime(shift)) {
+      violations.push({
+        type: 'invalidTime',
+        severity: 'error',
+        message: `勤務時間の形式が不正です（${shift.startTime}〜${shift.endTime}）`,
+        shiftIndex: index,
+        startTime: shift.startTime,
+        endTime: shift.endTime
+      });
+    }
+  });
+
+  // 時刻が正しいシフトのみ時間帯の重複判定に使用
+  const overlaps = (a: ShiftLike, b: ShiftLike): boolean =>
+    hasValidTime(a) && hasValidTime(b) && shiftService.doShiftsOverlap(a, b);
+
+  // 勤務不可日・勤務可能時間帯・休み希望日
+  shifts.forEach((shift, index) => {
+    const preference = preferences.forDate(shift.userId, shift.date);
+    const dateKey = shiftService.formatDateKey(shift.date);
+
+    if (preference?.unavailableDates?.some(date => shiftService.formatDateKey(date) === dateKey)) {
+      violations.push({
+        type: 'unavailableDate',
+        severity: 'error',
+        message: `${employeeMap.get(shift.userId)?.name || shift.userId}さんの勤務不可日（${dateKey}）にシフトが入っています`,
+        shiftIndex: index,
+        userId: shift.userId,
+        date: shift.date
+      });
+      return;
+    }
+
+    if (!preference || !hasValidTime(shift)) return;
+
+    // 勤務可能な時間帯
+    if (!shiftPreferenceService.isAvailableForTime(preference, shift.date, shift.startTime, shift.endTime)) {
+      violations.push({
+        type: 'outsideAvailableTime',
+        severity: 'error',
+        message: `${employeeMap.get(shift.userId)?.name || shift.userId}さんの${dateKey}のシフト（${shift.startTime}〜${shift.endTime}）が勤務可能な時間帯外です`,
+        shiftIndex: index,
+        userId: shift.userId,
+        date: shift.date,
+        startTime: shift.startTime,
+        endTime: shift.endTime
+      });
+    }
+
+    // 休み希望日（割り当ては可能だが確認を促す）
+    const preferOffLevel = shiftPreferenceService.getPreferOffLevel(preference, shift.date);
+    if (preferOffLevel) {
+      violations.push({
+        type: 'preferOffDate',
+        severity: 'warning',
+        message: `${employeeMap.get(shift.userId)?.name || shift.userId}さんの休み希望日（${dateKey}）にシフトが入っています`,
+        shiftIndex: index,
+        userId: shift.userId,
+        date: shift.date,
+        level: preferOffLevel
+      });
+    }
+  });
+
+  // 二重登録（同じ従業員の時間帯が重なるシフト、日付をまたぐシフトは翌日分とも比較）
+  const indexesByUser = new Map<string, number[]>();
+  shifts.forEach((shift, index) => {
+    indexesByUser.set(shift.userId, [...(indexesByUser.get(shift.userId) || []), index]);
+  });
+
+  indexesByUser.forEach(indexes => {
+    if (indexes.length < 2) return;
+
+    // 重なるシフトをまとめ、開始日ごとに1件の違反として報告
+    const overlappingByDate = new Map<string, number[]>();
+    indexes.forEach(i => {
+      const others = indexes.filter(j => i < j && overlaps(shifts[i], shifts[j]));
+      if (others.length === 0) return;
+
+      const dateKey = shiftService.formatDateKey(shifts[i].date);
+      const group = overlappingByDate.get(dateKey) || [];
+      [i, ...others].forEach(index => {
+        if (!group.includes(index)) group.push(index);
+      });
+      overlappingByDate.set(dateKey, group);
+    });
+
+    overlappingByDate.forEach((overlapping, dateKey) => {
+      const shift = shifts[overlapping[0]];
+      violations.push({
+        type: 'doubleBooking',
+        severity: 'error',
+        message: `${employeeMap.get(shift.userId)?.name || shift.userId}さんが${dateKey}に重複してシフトに入っています`,
+        userId: shift.userId,
+        date: shift.date,
+        shiftIndexes: overlapping.sort((a, b) => a - b)
+      });
+    });
+  });
+
+  // 人間関係制約（同じ店舗・時間帯が重なる）
+  input.relationshipConstraints.forEach(constraint => {
+    shifts.forEach((shift1, index1) => {
+      if (shift1.userId !== constraint.employee1Id) return;
+
+      shifts.forEach((shift2, index2) => {
+        if (shift2.userId !== constraint.employee2Id) return;
+        if (shift1.storeId !== shift2.storeId) return;
+        if (!overlaps(shift1, shift2)) return;
+
+        const name1 = employeeMap.get(constraint.employee1Id)?.name || constraint.employee1Id;
+        const name2 = employeeMap.get(constraint.employee2Id)?.name || constraint.employee2Id;
+        violations.push({
+          type: 'relationshipConflict',
+          severity: 'error',
+          message: `${name1}さんと${name2}さんが${shiftService.formatDateKey(shift1.date)}に同じ店舗で勤務しています`,
+          storeId: shift1.storeId,
+          date: shift1.date,
+          employee1Id: constraint.employee1Id,
+          employee2Id: constraint.employee2Id,
+          reason: constraint.reason,
+          shiftIndexes: [index1, index2]
+        });
+      });
+    });
+  });
+
+  // スキル要件の充足（店舗の時間帯ごと）
+  const dates = shiftService.getDatesInRange(input.period.startDate, input.period.endDate);
+  dates.forEach(date => {
+    const dateKey = shiftService.formatDateKey(date);
+
+    input.stores.forEach(store => {
+      const storeShifts = shifts.filter(shift => shift.storeId === store.id);
+      const slots = shiftSolverService.getRequiredTimeSlots(store, date, undefined, input.events);
+
+      slots.forEach(({ slot, requirement }) => {
+        const staffIds = new Set(
+          storeShifts
+            .filter(shift => hasValidTime(shift) && shiftSolverService.isWorkingInSlot(shift, slot, date))
+            .map(shift => shift.userId)
+        );
+        const staff = Array.from(staffIds)
+          .map(userId => employeeMap.get(userId))
+          .filter((employee): employee is User => !!employee);
+
+        // 時間帯が1つだけの場合は時間帯名を省略
+        const slotLabel = slots.length > 1 ? `${slot.name}（${slot.startTime}〜${slot.endTime}）` : '';
+
+        // 人員不足は保存後に追加で埋められるため警告のみ
+        const { unfilled } = shiftSolverService.matchStaffToRequirement(staff, requirement, considerSkillLevel);
+        unfilled.forEach(entry => {
+          violations.push({
+            type: 'unmetSkillRequirement',
+            severity: 'warning',
+            message: `${store.name}の${dateKey}${slotLabel}は${entry.skill}（${entry.level}）が${entry.count}名不足しています`,
+            storeId: store.id,
+            date,
+            timeSlotId: slot.id,
+            skill: entry.skill,
+            level: entry.level,
+            missing: entry.count
+          });
+        });
+      });
+    });
+  });
+
+  // 希望勤務日数との乖離
+  const workDaysByUser = new Map<string, Set<string>>();
+  shifts
+    .filter(shift => isInPeriod(shift.date, input.period))
+    .forEach(shift => {
+      const days = workDaysByUser.get(shift.userId) || new Set<string>();
+      days.add(shiftService.formatDateKey(shift.date));
+      workDaysByUser.set(shift.userId, days);
+    });
+
+  input.employees.forEach(employee => {
+    const preference = preferences.forPeriod(employee.id);
+    const daysPerWeek = preference ? preference.desiredDaysPerWeek : employee.desiredWorkDays;
+    const desiredDays = Math.round(((daysPerWeek || 0) * dates.length) / 7);
+    const scheduledDays = workDaysByUser.get(employee.id)?.size || 0;
+
+    if (scheduledDays !== desiredDays && Math.abs(scheduledDays - desiredDays) >= workDaysTolerance) {
+      violations.push({
+        type: 'workDaysDrift',
+        severity: 'warning',
+        message: `${employee.name}さんの勤務日数（${scheduledDays}日）が希望（${desiredDays}日）と異なります`,
+        userId: employee.id,
+        desiredDays,
+        scheduledDays
+      });
+    }
+  });
+
+  // 労働基準法（休憩・労働時間の上限・週休・勤務間インターバル）
+  if (options.checkLaborCompliance !== false) {
+    laborComplianceService
+      .checkShiftCompliance(shifts, input.employees, {
+        period: input.period,
+        rules: options.laborRules
+      })
+      .forEach(finding => {
+        violations.push({
+          type: 'laborCompliance',
+          severity: 'warning',
+          message: finding.message,
+          userId: finding.userId,
+          finding
+        });
+      });
+  }
+
+  return violations;
+};
+
+// シフト案の検証（必要なデータを取得して検証）
+export const validateShiftPlan = async (
+  shifts: ShiftLike[],
+  period: { startDate: Date; endDate: Date },
+  options: ShiftValidationOptions = {}
+): Promise<ShiftViolation[]> => {
+  try {
+    const input = await shiftSolverService.collectShiftSolverInput(period.startDate, period.endDate);
+    return validateShifts(shifts, input, options);
+  } catch (error) {
+    console.error('Error validating shift plan:', error);
+    throw error;
+  }
+};
+
+// 保存をブロックする違反が含まれるか
+export const hasBlockingViolations = (violations: ShiftViolation[]): boolean => {
+  return violations.some(violation => violation.severity === 'error');
+};
+
+// 検証してからシフトを一括作成（エラーがある場合は保存しない）
+export const createValidatedShifts = async (
+  shifts: Omit<Shift, 'id'>[],
+  period: { startDate: Date; endDate: Date },
+  options: ShiftValidationOptions = {}
+): Promise<{ saved: boolean; shiftIds: string[]; violations: ShiftViolation[] }> => {
+  try {
+    const violations = await validateShiftPlan(shifts, period, options);
+
+    if (hasBlockingViolations(violations)) {
+      return { saved: false, shiftIds: [], violations };
+    }
+
+    const shiftIds = await shiftService.createShiftsInBatch(shifts);
+    return { saved: true, shiftIds, violations };
+  } catch (error) {
+    console.error('Error creating validated shifts:', error);
+    throw error;
+  }
+};
+
+export default {
+  validateShifts,
+  validateShiftPlan,
+  hasBlockingViolations,
+  createValidatedShifts
+};
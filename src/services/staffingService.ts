@@ -0,0 +1,91 @@
+// src/services/staffingService.ts
+// イベントの予測来客数から必要人数の増員を算出
+import { Event, SkillLevel, SkillRequirement, Store } from '../types/models';
+import * as shiftService from './shiftService';
+import * as storeService from './storeService';
+
+// 増員の対象スキル（SkillRequirementのキー）
+type StaffingSkillType = 'kitchen' | 'hall' | 'sales';
+
+const STAFFING_SKILL_TYPES: StaffingSkillType[] = ['kitchen', 'hall', 'sales'];
+
+// スキルごとの追加人数
+export type StaffingUplift = Record<StaffingSkillType, number>;
+
+// 店舗・日付に該当するイベント
+export const getEventsForStoreDate = (events: Event[], storeId: string, date: Date): Event[] => {
+  const dateKey = shiftService.formatDateKey(date);
+  return events.filter(event =>
+    event.affectedStores.includes(storeId) &&
+    shiftService.formatDateKey(event.startDate) <= dateKey &&
+    dateKey <= shiftService.formatDateKey(event.endDate)
+  );
+};
+
+// 店舗・日付の予測来客数（複数のイベントが重なる場合は合計）
+export const getPredictedCustomers = (events: Event[], storeId: string, date: Date): number => {
+  return getEventsForStoreDate(events, storeId, date)
+    .reduce((sum, event) => sum + Math.max(event.customerPrediction || 0, 0), 0);
+};
+
+// 予測来客数をスキルごとの追加人数に換算（店舗の換算設定を使用）
+export const calculateStaffingUplift = (store: Store, predictedCustomers: number): StaffingUplift => {
+  const ratio = storeService.getStaffingRatio(store);
+
+  return STAFFING_SKILL_TYPES.reduce((uplift, skill) => {
+    const customersPerStaff = ratio.customersPerStaff[skill];
+    let extra = customersPerStaff > 0 && predictedCustomers > 0
+      ? Math.ceil(predictedCustomers / customersPerStaff)
+      : 0;
+
+    if (ratio.maxExtraStaff !== undefined) {
+      extra = Math.min(extra, ratio.maxExtraStaff);
+    }
+
+    return { ...uplift, [skill]: extra };
+  }, { kitchen: 0, hall: 0, sales: 0 } as StaffingUplift);
+};
+
+// 基本のスキル要件に追加人数を加算（追加人員は換算設定のスキルレベルに加算）
+export const applyStaffingUplift = (
+  requirement: SkillRequirement,
+  uplift: StaffingUplift,
+  level: SkillLevel
+): SkillRequirement => {
+  const effective: SkillRequirement = {
+    day: requirement.day,
+    kitchen: { ...requirement.kitchen },
+    hall: { ...requirement.hall },
+    sales: { ...requirement.sales }
+  };
+
+  STAFFING_SKILL_TYPES.forEach(skill => {
+    effective[skill][level] += uplift[skill];
+  });
+
+  return effective;
+};
+
+// イベントを考慮した実効スキル要件（イベントがない日は基本の要件のまま）
+export const getEffectiveRequirement = (
+  store: Store,
+  requirement: SkillRequirement,
+  date: Date,
+  events: Event[]
+): SkillRequirement => {
+  const predictedCustomers = getPredictedCustomers(events, store.id, date);
+  if (predictedCustomers <= 0) {
+    return requirement;
+  }
+
+  const uplift = calculateStaffingUplift(store, predictedCustomers);
+  return applyStaffingUplift(requirement, uplift, storeService.getStaffingRatio(store).level);
+};
+
+export default {
+  getEventsForStoreDate,
+  getPredictedCustomers,
+  calculateStaffingUplift,
+  applyStaffingUplift,
+  getEffectiveRequirement
+};
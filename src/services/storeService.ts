@@ -5,12 +5,152 @@ import {
   orderBy, 
   QueryConstraint 
 } from 'firebase/firestore';
-import { Store, SkillRequirement } from '../types/models';
+import {
+  Store,
+  SkillRequirement,
+  AttendanceSettings,
+  StoreTimeSlot,
+  StoreSpecialDay,
+  StaffingRatio,
+  ShiftSwapSettings
+} from '../types/models';
 import * as firestoreService from './firestoreService';
+import * as shiftService from './shiftService';
 
 // コレクション名を定数化
 const COLLECTION_NAME: firestoreService.CollectionName = 'stores';
 
+// 勤怠判定のデフォルト設定（15分以上の遅れ・早上がりで遅刻・早退）
+export const DEFAULT_ATTENDANCE_SETTINGS: AttendanceSettings = {
+  lateGraceMinutes: 15,
+  earlyLeaveGraceMinutes: 15
+};
+
+// シフト交換のデフォルト承認設定（常に管理者の承認が必要）
+export const DEFAULT_SHIFT_SWAP_SETTINGS: ShiftSwapSettings = {
+  approvalMode: 'always',
+  approvalWithinHours: 48,
+  approvalOnLaborFindings: true,
+  approvalForExchanges: false
+};
+
+// イベント時の増員のデフォルト換算（予測来客数100〜150名ごとに各時間帯でCレベル1名追加）
+export const DEFAULT_STAFFING_RATIO: StaffingRatio = {
+  customersPerStaff: { kitchen: 150, hall: 100, sales: 100 },
+  level: 'C'
+};
+
+// 時間帯が未設定の店舗で使用する勤務時間（営業時間も未設定の場合）
+export const DEFAULT_TIME_SLOT_TIME = { startTime: '09:00', endTime: '17:00' };
+
+// 時間帯が未設定の店舗の時間帯ID（営業時間を分割した場合は末尾に連番を付ける）
+export const DEFAULT_TIME_SLOT_ID = 'default';
+
+// 標準の勤務時間のデフォルト（休憩を含めて8時間、法定休憩45分を除くと1日の法定労働時間内）
+export const DEFAULT_STANDARD_SHIFT_MINUTES = 8 * 60;
+
+// 分割した時間帯の境界の単位（分）
+const SLOT_BOUNDARY_MINUTES = 15;
+
+// 標準の勤務時間（未設定の場合はデフォルト値）
+export const getStandardShiftMinutes = (store: Store): number =>
+  store.standardShiftMinutes && store.standardShiftMinutes > 0
+    ? store.standardShiftMinutes
+    : DEFAULT_STANDARD_SHIFT_MINUTES;
+
+// 0時からの経過分をHH:MM形式に変換（24時以降は翌日の時刻）
+const formatMinutesOfDay = (minutes: number): string => {
+  const normalized = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+// 店舗の時間帯一覧（開始時刻順）
+// 時間帯が未設定の場合は営業時間（未設定ならdefaultTime）を店舗のスキル要件で埋める時間帯とする
+// 営業時間が標準の勤務時間より長い場合は、1人の勤務が1日の労働時間の上限を超えないよう均等に分割
+export const getStoreTimeSlots = (
+  store: Store,
+  defaultTime: { startTime: string; endTime: string } = DEFAULT_TIME_SLOT_TIME
+): StoreTimeSlot[] => {
+  if (store.timeSlots && store.timeSlots.length > 0) {
+    return [...store.timeSlots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+  
+  const startTime = store.openTime || defaultTime.startTime;
+  const endTime = store.closeTime || defaultTime.endTime;
+  const skillRequirements = store.skillRequirements || [];
+  
+  // 開始と終了が同じ時刻は24時間
+  const totalMinutes = shiftService.calculateDurationInMinutes(startTime, endTime) || 24 * 60;
+  const slotCount = Math.ceil(totalMinutes / getStandardShiftMinutes(store));
+  
+  if (slotCount <= 1) {
+    return [{
+      id: DEFAULT_TIME_SLOT_ID,
+      name: '終日',
+      startTime,
+      endTime,
+      skillRequirements
+    }];
+  }
+  
+  const start = shiftService.parseTimeString(startTime);
+  const startMinutes = start.hours * 60 + start.minutes;
+  const boundary = (index: number): number =>
+    index === slotCount
+      ? totalMinutes
+      : Math.round((totalMinutes * index) / slotCount / SLOT_BOUNDARY_MINUTES) * SLOT_BOUNDARY_MINUTES;
+  
+  return Array.from({ length: slotCount }, (_, index) => ({
+    id: `${DEFAULT_TIME_SLOT_ID}-${index + 1}`,
+    name: `勤務帯${index + 1}`,
+    startTime: formatMinutesOfDay(startMinutes + boundary(index)),
+    endTime: formatMinutesOfDay(startMinutes + boundary(index + 1)),
+    skillRequirements
+  }));
+};
+
+// 時間帯が営業時間内か（営業時間が未設定の場合は常に営業時間内）
+const isWithinBusinessHours = (store: Store, slot: Pick<StoreTimeSlot, 'startTime' | 'endTime'>): boolean => {
+  if (!store.openTime || !store.closeTime) {
+    return true;
+  }
+  
+  // 開店時刻からの経過分で比較（日付をまたぐ営業時間にも対応、開店と閉店が同じ時刻は24時間営業）
+  const closeOffset = shiftService.calculateDurationInMinutes(store.openTime, store.closeTime) || 24 * 60;
+  const startOffset = shiftService.calculateDurationInMinutes(store.openTime, slot.startTime);
+  const endOffset = startOffset + shiftService.calculateDurationInMinutes(slot.startTime, slot.endTime);
+  return endOffset <= closeOffset;
+};
+
+// 日付に該当する店舗の休業日・特別営業日
+export const getStoreSpecialDay = (store: Store, date: Date): StoreSpecialDay | undefined => {
+  const dateKey = shiftService.formatDateKey(date);
+  return (store.specialDays || []).find(specialDay => specialDay.date === dateKey);
+};
+
+// 店舗の休業日かどうか
+export const isStoreClosedOn = (store: Store, date: Date): boolean =>
+  getStoreSpecialDay(store, date)?.type === 'closed';
+
+// 日付に適用するスキル要件の区分（優先順）
+// 特別営業日の指定 → 曜日・祝日の区分 → 祝日の要件が未設定の場合に備えて曜日の区分
+export const getRequirementDayTypes = (store: Store, date: Date): SkillRequirement['day'][] => {
+  const dayTypes: SkillRequirement['day'][] = [];
+  const specialDay = getStoreSpecialDay(store, date);
+  
+  if (specialDay?.type === 'special' && specialDay.requirementDay) {
+    dayTypes.push(specialDay.requirementDay);
+  }
+  
+  [shiftService.getRequirementDayType(date), shiftService.getRequirementDayType(date, false)].forEach(dayType => {
+    if (!dayTypes.includes(dayType)) {
+      dayTypes.push(dayType);
+    }
+  });
+  
+  return dayTypes;
+};
+
 // 店舗情報取得
 export const getStoreById = async (storeId: string): Promise<Store | null> => {
   try {
@@ -73,26 +213,32 @@ export const deleteStore = async (storeId: string): Promise<void> => {
   }
 };
 
-// 特定のスキル要件を持つ店舗の検索
+// 特定のスキル要件を持つ店舗の検索（いずれかの時間帯が条件を満たす店舗）
+// timeSlotNameを指定した場合はその名前の時間帯のみを対象とする
 export const getStoresBySkillRequirement = async (
   day: 'weekday' | 'saturday' | 'sunday' | 'holiday',
   skillType: 'kitchen' | 'hall' | 'sales',
   level: 'A' | 'B' | 'C',
-  minCount: number = 1
+  minCount: number = 1,
+  timeSlotName?: string
 ): Promise<Store[]> => {
   try {
     // 全店舗を取得してクライアント側でフィルタリング
     // (Firestoreは深いネストされた配列のフィルタリングに制限があるため)
     const stores = await getAllStores();
     
-    return stores.filter(store => {
-      // 該当する日のスキル要件を探す
-      const requirement = store.skillRequirements.find(req => req.day === day);
-      if (!requirement) return false;
-      
-      // 該当するスキル要件のレベルと人数をチェック
-      return requirement[skillType][level] >= minCount;
-    });
+    return stores.filter(store =>
+      getStoreTimeSlots(store)
+        .filter(slot => !timeSlotName || slot.name === timeSlotName)
+        .some(slot => {
+          // 該当する日のスキル要件を探す
+          const requirement = slot.skillRequirements.find(req => req.day === day);
+          if (!requirement) return false;
+          
+          // 該当するスキル要件のレベルと人数をチェック
+          return requirement[skillType][level] >= minCount;
+        })
+    );
   } catch (error) {
     console.error('Error searching stores by skill requirement:', error);
     throw error;
@@ -159,6 +305,245 @@ export const removeSkillRequirement = async (
   }
 };
 
+// 営業時間の更新
+export const updateBusinessHours = async (
+  storeId: string,
+  openTime: string,
+  closeTime: string
+): Promise<void> => {
+  try {
+    if (!shiftService.isValidTimeString(openTime) || !shiftService.isValidTimeString(closeTime)) {
+      throw new Error(`Invalid business hours: ${openTime}-${closeTime}`);
+    }
+    
+    await updateStore(storeId, { openTime, closeTime });
+  } catch (error) {
+    console.error('Error updating business hours:', error);
+    throw error;
+  }
+};
+
+// 時間帯の追加/更新（IDが一致する時間帯を置き換え、IDがない場合は新規作成）
+export const saveTimeSlot = async (
+  storeId: string,
+  slot: Omit<StoreTimeSlot, 'id'> & { id?: string }
+): Promise<string> => {
+  try {
+    const store = await getStoreById(storeId);
+    if (!store) {
+      throw new Error(`Store with ID ${storeId} not found`);
+    }
+    
+    if (
+      !shiftService.isValidTimeString(slot.startTime) ||
+      !shiftService.isValidTimeString(slot.endTime) ||
+      slot.startTime === slot.endTime
+    ) {
+      throw new Error(`Invalid time slot: ${slot.startTime}-${slot.endTime}`);
+    }
+    
+    if (!isWithinBusinessHours(store, slot)) {
+      throw new Error(`Time slot ${slot.startTime}-${slot.endTime} is outside business hours of store ${storeId}`);
+    }
+    
+    const slotId = slot.id || `slot-${Date.now().toString(36)}`;
+    const timeSlots = [
+      ...(store.timeSlots || []).filter(existing => existing.id !== slotId),
+      { ...slot, id: slotId }
+    ].sort((a, b) => a.startTime.localeCompare(b.startTime));
+    
+    await updateStore(storeId, { timeSlots });
+    return slotId;
+  } catch (error) {
+    console.error('Error saving time slot:', error);
+    throw error;
+  }
+};
+
+// 時間帯の削除
+export const removeTimeSlot = async (storeId: string, slotId: string): Promise<void> => {
+  try {
+    const store = await getStoreById(storeId);
+    if (!store) {
+      throw new Error(`Store with ID ${storeId} not found`);
+    }
+    
+    const timeSlots = (store.timeSlots || []).filter(slot => slot.id !== slotId);
+    
+    // 時間帯数が変わっていない場合は何もしない
+    if (timeSlots.length === (store.timeSlots || []).length) {
+      return;
+    }
+    
+    await updateStore(storeId, { timeSlots });
+  } catch (error) {
+    console.error('Error removing time slot:', error);
+    throw error;
+  }
+};
+
+// 休業日・特別営業日の追加/更新（同じ日付の設定を置き換え）
+export const saveSpecialDay = async (storeId: string, specialDay: StoreSpecialDay): Promise<void> => {
+  try {
+    const store = await getStoreById(storeId);
+    if (!store) {
+      throw new Error(`Store with ID ${storeId} not found`);
+    }
+    
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(specialDay.date)) {
+      throw new Error(`Invalid special day date: ${specialDay.date}`);
+    }
+    
+    // Firestoreはundefinedを保存できないため、休業日には要件の区分を保存しない
+    const dayToSave: StoreSpecialDay = {
+      date: specialDay.date,
+      type: specialDay.type,
+      name: specialDay.name,
+      ...(specialDay.type === 'special' && specialDay.requirementDay && { requirementDay: specialDay.requirementDay })
+    };
+    
+    const specialDays = [
+      ...(store.specialDays || []).filter(existing => existing.date !== specialDay.date),
+      dayToSave
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    
+    await updateStore(storeId, { specialDays });
+  } catch (error) {
+    console.error('Error saving special day:', error);
+    throw error;
+  }
+};
+
+// 休業日・特別営業日の削除（dateはYYYY-MM-DD形式）
+export const removeSpecialDay = async (storeId: string, date: string): Promise<void> => {
+  try {
+    const store = await getStoreById(storeId);
+    if (!store) {
+      throw new Error(`Store with ID ${storeId} not found`);
+    }
+    
+    const specialDays = (store.specialDays || []).filter(specialDay => specialDay.date !== date);
+    
+    // 件数が変わっていない場合は何もしない
+    if (specialDays.length === (store.specialDays || []).length) {
+      return;
+    }
+    
+    await updateStore(storeId, { specialDays });
+  } catch (error) {
+    console.error('Error removing special day:', error);
+    throw error;
+  }
+};
+
+// 勤怠判定の設定取得（未設定の項目はデフォルト値）
+export const getAttendanceSettings = async (storeId: string): Promise<AttendanceSettings> => {
+  try {
+    const store = await getStoreById(storeId);
+    return {
+      ...DEFAULT_ATTENDANCE_SETTINGS,
+      ...(store?.attendanceSettings || {})
+    };
+  } catch (error) {
+    console.error('Error fetching attendance settings:', error);
+    throw error;
+  }
+};
+
+// 勤怠判定の設定更新
+export const updateAttendanceSettings = async (
+  storeId: string,
+  settings: Partial<AttendanceSettings>
+): Promise<void> => {
+  try {
+    const currentSettings = await getAttendanceSettings(storeId);
+    await updateStore(storeId, { attendanceSettings: { ...currentSettings, ...settings } });
+  } catch (error) {
+    console.error('Error updating attendance settings:', error);
+    throw error;
+  }
+};
+
+// シフト交換の承認設定取得（未設定の項目はデフォルト値）
+export const getShiftSwapSettings = async (storeId: string): Promise<ShiftSwapSettings> => {
+  try {
+    const store = await getStoreById(storeId);
+    return {
+      ...DEFAULT_SHIFT_SWAP_SETTINGS,
+      ...(store?.shiftSwapSettings || {})
+    };
+  } catch (error) {
+    console.error('Error fetching shift swap settings:', error);
+    throw error;
+  }
+};
+
+// シフト交換の承認設定更新
+export const updateShiftSwapSettings = async (
+  storeId: string,
+  settings: Partial<ShiftSwapSettings>
+): Promise<void> => {
+  try {
+    const currentSettings = await getShiftSwapSettings(storeId);
+    await updateStore(storeId, { shiftSwapSettings: { ...currentSettings, ...settings } });
+  } catch (error) {
+    console.error('Error updating shift swap settings:', error);
+    throw error;
+  }
+};
+
+// 標準の勤務時間の更新
+export const updateStandardShiftMinutes = async (storeId: string, minutes: number): Promise<void> => {
+  try {
+    if (!Number.isInteger(minutes) || minutes <= 0 || minutes > 24 * 60) {
+      throw new Error(`Invalid standard shift length: ${minutes}`);
+    }
+    await updateStore(storeId, { standardShiftMinutes: minutes });
+  } catch (error) {
+    console.error('Error updating standard shift length:', error);
+    throw error;
+  }
+};
+
+// イベント時の増員の換算設定（未設定の項目はデフォルト値）
+export const getStaffingRatio = (store: Store): StaffingRatio => ({
+  ...DEFAULT_STAFFING_RATIO,
+  ...(store.staffingRatio || {}),
+  customersPerStaff: {
+    ...DEFAULT_STAFFING_RATIO.customersPerStaff,
+    ...(store.staffingRatio?.customersPerStaff || {})
+  }
+});
+
+// イベント時の増員の換算設定の更新
+export const updateStaffingRatio = async (
+  storeId: string,
+  ratio: Partial<StaffingRatio>
+): Promise<void> => {
+  try {
+    const store = await getStoreById(storeId);
+    if (!store) {
+      throw new Error(`Store with ID ${storeId} not found`);
+    }
+    
+    const currentRatio = getStaffingRatio(store);
+    const staffingRatio: StaffingRatio = {
+      ...currentRatio,
+      ...ratio,
+      customersPerStaff: { ...currentRatio.customersPerStaff, ...(ratio.customersPerStaff || {}) }
+    };
+    
+    if (Object.values(staffingRatio.customersPerStaff).some(value => value < 0)) {
+      throw new Error('Customers per staff must not be negative');
+    }
+    
+    await updateStore(storeId, { staffingRatio });
+  } catch (error) {
+    console.error('Error updating staffing ratio:', error);
+    throw error;
+  }
+};
+
 // 新規店舗の作成
 export const createNewStore = async (name: string, address: string, phone: string): Promise<string> => {
   // 基本的なスキル要件を持つ新規店舗を作成
@@ -223,18 +608,20 @@ export const getStoresSummary = async (): Promise<{
       }
     });
     
-    // 必要な従業員の総数を計算 (平日の要件を基準に)
+    // 必要な従業員の総数を計算 (平日の要件を基準に、時間帯ごとの必要人数を合計)
     let totalEmployeesNeeded = 0;
     stores.forEach(store => {
-      const weekdayReq = store.skillRequirements.find(req => req.day === 'weekday');
-      if (weekdayReq) {
-        // 各スキルタイプの合計を計算
-        const kitchenTotal = weekdayReq.kitchen.A + weekdayReq.kitchen.B + weekdayReq.kitchen.C;
-        const hallTotal = weekdayReq.hall.A + weekdayReq.hall.B + weekdayReq.hall.C;
-        const salesTotal = weekdayReq.sales.A + weekdayReq.sales.B + weekdayReq.sales.C;
-        
-        totalEmployeesNeeded += kitchenTotal + hallTotal + salesTotal;
-      }
+      getStoreTimeSlots(store).forEach(slot => {
+        const weekdayReq = slot.skillRequirements.find(req => req.day === 'weekday');
+        if (weekdayReq) {
+          // 各スキルタイプの合計を計算
+          const kitchenTotal = weekdayReq.kitchen.A + weekdayReq.kitchen.B + weekdayReq.kitchen.C;
+          const hallTotal = weekdayReq.hall.A + weekdayReq.hall.B + weekdayReq.hall.C;
+          const salesTotal = weekdayReq.sales.A + weekdayReq.sales.B + weekdayReq.sales.C;
+          
+          totalEmployeesNeeded += kitchenTotal + hallTotal + salesTotal;
+        }
+      });
     });
     
     return {
@@ -257,6 +644,23 @@ export default {
   getStoresBySkillRequirement,
   updateSkillRequirement,
   removeSkillRequirement,
+  getStoreTimeSlots,
+  getStandardShiftMinutes,
+  updateStandardShiftMinutes,
+  updateBusinessHours,
+  saveTimeSlot,
+  removeTimeSlot,
+  getStoreSpecialDay,
+  isStoreClosedOn,
+  getRequirementDayTypes,
+  saveSpecialDay,
+  removeSpecialDay,
+  getAttendanceSettings,
+  updateAttendanceSettings,
+  getShiftSwapSettings,
+  updateShiftSwapSettings,
+  getStaffingRatio,
+  updateStaffingRatio,
   createNewStore,
   getStoresSummary
 };
\ No newline at end of file
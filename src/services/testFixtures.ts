@@ -0,0 +1,31 @@
+// src/services/testFixtures.ts
+// サービスのテストで共通に使うデータ
+import { Store, User } from '../types/models';
+
+// 従業員（パート・アルバイト、全スキルB）
+export const createTestUser = (id: string = 'user1', overrides: Partial<User> = {}): User => ({
+  id,
+  name: `従業員${id}`,
+  nickname: id,
+  email: `${id}@example.com`,
+  phone: '000-0000-0000',
+  address: '京都府宇治市',
+  position: 'スタッフ',
+  employmentType: 'parttime',
+  joinDate: new Date(2024, 0, 1),
+  desiredWorkDays: 3,
+  skills: { kitchen: 'B', hall: 'B', sales: 'B', overall: 'B' },
+  specialNotes: '',
+  role: 'employee',
+  ...overrides
+});
+
+// 店舗（スキル要件なし）
+export const createTestStore = (id: string = 'store1', overrides: Partial<Store> = {}): Store => ({
+  id,
+  name: `店舗${id}`,
+  address: '京都府宇治市',
+  phone: '000-0000-0000',
+  skillRequirements: [],
+  ...overrides
+});
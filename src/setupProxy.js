@@ -0,0 +1,60 @@
+// 開発サーバー（npm start）用のOpenAI APIプロキシ
+// ブラウザで動作確認する際、APIキーをバンドルに含めずに済むよう開発サーバー側で付与する
+// 注: 環境変数OPENAI_API_KEY（REACT_APP_を付けない）が設定されている必要があります
+const OPENAI_CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+// リクエストボディの読み込み
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+module.exports = function (app) {
+  app.post('/api/openai/chat/completions', async (req, res) => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      res.status(500).json({ error: 'OPENAI_API_KEY is not set for the development server' });
+      return;
+    }
+
+    // ブラウザ側で接続が切れた場合（停止ボタンなど）はOpenAIへのリクエストも中断
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+      const params = JSON.parse(await readBody(req));
+      const response = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(params),
+        signal: controller.signal
+      });
+
+      // ストリーミング（Server-Sent Events）はそのまま転送
+      if (params.stream && response.ok && response.body) {
+        res.status(response.status).type('text/event-stream');
+        for await (const chunk of response.body) {
+          res.write(chunk);
+        }
+        res.end();
+        return;
+      }
+
+      res.status(response.status).type('application/json').send(await response.text());
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error proxying OpenAI request:', error);
+      // ストリーミングの転送中に失敗した場合はステータスを変更できないため接続を閉じる
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(502).json({ error: 'Failed to reach OpenAI API' });
+    }
+  });
+};
@@ -3,3 +3,6 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// サービスのテストではFirebaseに接続しない
+jest.mock('./services/firebase', () => ({ db: {}, auth: {}, storage: {} }));
@@ -0,0 +1,38 @@
+// src/types/electron.d.ts
+// electron/preload.jsで公開しているAPIの型定義
+import OpenAI from 'openai';
+
+export interface ElectronOpenAIAPI {
+  /** チャット補完（メインプロセスでOpenAI APIを呼び出す） */
+  createChatCompletion: (
+    params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming
+  ) => Promise<OpenAI.Chat.ChatCompletion>;
+  /** ストリーミングのチャット補完（完了または中断で解決） */
+  streamChatCompletion: (
+    requestId: string,
+    params: Omit<OpenAI.Chat.ChatCompletionCreateParamsStreaming, 'stream'>
+  ) => Promise<void>;
+  /** ストリーミングの中断 */
+  cancelChatCompletion: (requestId: string) => Promise<void>;
+  /** ストリーミングのチャンクを受信（戻り値の関数で購読を解除） */
+  onChatCompletionChunk: (
+    callback: (requestId: string, chunk: OpenAI.Chat.ChatCompletionChunk) => void
+  ) => () => void;
+  /** APIキーが設定済みかどうか */
+  hasApiKey: () => Promise<boolean>;
+  /** APIキーを暗号化して保存 */
+  setApiKey: (apiKey: string) => Promise<void>;
+  /** 保存済みのAPIキーを削除 */
+  clearApiKey: () => Promise<void>;
+}
+
+export interface ElectronAPI {
+  openai: ElectronOpenAIAPI;
+}
+
+declare global {
+  interface Window {
+    /** Electron上で実行されている場合のみ存在 */
+    electronAPI?: ElectronAPI;
+  }
+}
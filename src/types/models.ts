@@ -24,6 +24,21 @@ export interface User {
   specialNotes: string;
   profileImage?: string;
   role: 'admin' | 'employee';
+  // 従業員個別の時給・割増率（未設定の項目は雇用形態の設定を使用）
+  payRates?: Partial<PayRates>;
+}
+
+// 時給と割増率インターフェース（割増率は0.25 = 25%）
+export interface PayRates {
+  hourlyWage: number;
+  overtimePremium: number;
+  lateNightPremium: number;
+  holidayPremium: number;
+}
+
+// 雇用形態ごとの給与設定インターフェース（IDは雇用形態）
+export interface PayrollSettings extends PayRates {
+  id: User['employmentType'];
 }
 
 // 店舗情報インターフェース
@@ -33,6 +48,70 @@ export interface Store {
   address: string;
   phone: string;
   skillRequirements: SkillRequirement[];
+  attendanceSettings?: AttendanceSettings;
+  // 営業時間（HH:MM形式）
+  openTime?: string;
+  closeTime?: string;
+  // 時間帯ごとの必要人数（未設定の場合は営業時間を標準の勤務時間ごとに分割した時間帯でskillRequirementsを使用）
+  timeSlots?: StoreTimeSlot[];
+  // 標準の勤務時間（分、休憩を含む。時間帯が未設定の店舗の時間帯の長さの上限）
+  standardShiftMinutes?: number;
+  // 店舗独自の休業日・特別営業日
+  specialDays?: StoreSpecialDay[];
+  // イベント時の増員の換算設定
+  staffingRatio?: StaffingRatio;
+  // 近隣の季節情報エリア名（開花予測による増員の対象判定に使用）
+  nearbySeasonalAreas?: string[];
+  // シフト交換の承認設定
+  shiftSwapSettings?: ShiftSwapSettings;
+}
+
+// シフト交換の承認設定インターフェース（店舗ごと）
+export interface ShiftSwapSettings {
+  /** always: 常に管理者の承認が必要、conditional: 条件に該当する場合のみ承認が必要（それ以外は自動承認） */
+  approvalMode: 'always' | 'conditional';
+  /** 勤務開始までの時間がこの時間未満の場合は承認が必要 */
+  approvalWithinHours: number;
+  /** 引き受けにより労働基準法の判定で新たな指摘が出る場合は承認が必要 */
+  approvalOnLaborFindings: boolean;
+  /** シフト同士の交換（譲渡ではない場合）は承認が必要 */
+  approvalForExchanges: boolean;
+}
+
+// イベントの予測来客数から追加人数への換算設定（店舗ごと）
+export interface StaffingRatio {
+  /** 追加1名あたりの1日の予測来客数（スキルごと、0の場合は増員しない） */
+  customersPerStaff: { kitchen: number; hall: number; sales: number; };
+  /** 追加人員に求めるスキルレベル */
+  level: SkillLevel;
+  /** 時間帯・スキルごとの追加人数の上限（未設定の場合は上限なし） */
+  maxExtraStaff?: number;
+}
+
+// 店舗独自の休業日・特別営業日インターフェース
+export interface StoreSpecialDay {
+  /** 対象日（YYYY-MM-DD形式） */
+  date: string;
+  /** closed: 休業日、special: 特別営業日 */
+  type: 'closed' | 'special';
+  name: string;
+  /** 特別営業日に適用するスキル要件の区分（未設定の場合は通常の曜日・祝日の区分） */
+  requirementDay?: SkillRequirement['day'];
+}
+
+// 店舗の時間帯インターフェース（例: 午前 8:00〜13:00）
+export interface StoreTimeSlot {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  skillRequirements: SkillRequirement[];
+}
+
+// 勤怠判定の設定インターフェース（店舗ごと）
+export interface AttendanceSettings {
+  lateGraceMinutes: number;
+  earlyLeaveGraceMinutes: number;
 }
 
 // スキル要件インターフェース
@@ -51,8 +130,72 @@ export interface Shift {
   date: Date;
   startTime: string;
   endTime: string;
+  // 終了時刻が開始日の何日後か（0: 当日、1: 翌日）。未設定の場合は時刻から推定
+  endDayOffset?: number;
+  // 割り当てられた店舗の時間帯（時間帯ごとの必要人数から生成された場合）
+  timeSlotId?: string;
   status: 'planned' | 'completed';
   note?: string;
+  planId?: string;
+}
+
+// シフト交換の状態
+// open: 募集中、claimed: 引き受け済み（承認待ち）、approved: 承認済み、rejected: 却下、cancelled: 取り下げ
+export type ShiftSwapStatus = 'open' | 'claimed' | 'approved' | 'rejected' | 'cancelled';
+
+// シフト交換（譲渡・交換）の募集インターフェース
+export interface ShiftSwapRequest {
+  id: string;
+  shiftId: string;
+  storeId: string;
+  shiftDate: Date;
+  offeredBy: string;
+  message: string;
+  status: ShiftSwapStatus;
+  offeredAt: Date;
+  claimedBy?: string;
+  claimedAt?: Date;
+  /** 交換の場合に引き受け側が差し出すシフト（未設定の場合は譲渡） */
+  counterShiftId?: string;
+  /** 承認が必要になった理由 */
+  approvalReasons?: string[];
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewComment?: string;
+  autoApproved?: boolean;
+}
+
+// シフトの担当者変更の監査記録インターフェース
+export interface ShiftAuditEntry {
+  id: string;
+  shiftId: string;
+  action: 'swapReassign';
+  fromUserId: string;
+  toUserId: string;
+  swapRequestId: string;
+  performedBy: string;
+  performedAt: Date;
+}
+
+// シフト計画の状態（下書き → 確認中 → 公開 → アーカイブ）
+export type ShiftPlanStatus = 'draft' | 'review' | 'published' | 'archived';
+
+// シフト計画インターフェース（店舗・月ごとのバージョン管理）
+export interface ShiftPlan {
+  id: string;
+  storeId: string;
+  year: number;
+  month: number;
+  version: number;
+  status: ShiftPlanStatus;
+  sourcePlanId?: string;
+  createdBy: string;
+  createdAt: Date;
+  submittedAt?: Date;
+  publishedAt?: Date;
+  publishedBy?: string;
+  archivedAt?: Date;
+  note?: string;
 }
 
 // シフト希望情報インターフェース
@@ -62,10 +205,82 @@ export interface ShiftPreference {
   year: number;
   month: number;
   desiredDaysPerWeek: number;
-  preferredWeekdays: ('monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday')[];
+  preferredWeekdays: Weekday[];
   unavailableDates: Date[];
   notes: string;
   submittedAt: Date;
+  // 曜日ごとの勤務可能な時間帯（未設定の曜日は終日勤務可能）
+  weekdayAvailability?: Partial<Record<Weekday, TimeRange[]>>;
+  // 日付ごとの勤務可能な時間帯（曜日の設定より優先）
+  dateAvailability?: DateAvailability[];
+  // できれば休みたい日（勤務不可日とは異なり、割り当ては可能）
+  preferOffDates?: PreferOffDate[];
+  // 希望する店舗（優先度の高い順）
+  preferredStoreIds?: string[];
+  // 管理者が未提出者向けに自動作成した下書きか（本人が保存すると解除）
+  autoFilled?: boolean;
+  // 作成時の初期値の元（標準プロフィール・前月の希望・デフォルト値）
+  seededFrom?: PreferenceSeedSource;
+}
+
+// シフト希望の初期値の元
+export type PreferenceSeedSource = 'profile' | 'previousMonth' | 'default';
+
+// 標準のシフト希望プロフィールインターフェース（従業員ごと、IDはユーザーID）
+export interface PreferenceProfile {
+  id: string;
+  userId: string;
+  desiredDaysPerWeek: number;
+  preferredWeekdays: Weekday[];
+  weekdayAvailability?: Partial<Record<Weekday, TimeRange[]>>;
+  preferredStoreIds?: string[];
+  notes: string;
+}
+
+// 曜日型
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// 時間帯インターフェース（HH:MM形式、終了時刻が開始時刻以前の場合は翌日まで）
+export interface TimeRange {
+  startTime: string;
+  endTime: string;
+}
+
+// 日付ごとの勤務可能時間帯インターフェース
+export interface DateAvailability {
+  date: Date;
+  ranges: TimeRange[];
+}
+
+// 休み希望の強さ
+export type PreferOffLevel = 'low' | 'medium' | 'high';
+
+// 休み希望日インターフェース
+export interface PreferOffDate {
+  date: Date;
+  level: PreferOffLevel;
+}
+
+// シフト希望の提出期間インターフェース（年月ごと、IDはYYYY-MM）
+export interface PreferenceWindow {
+  id: string;
+  year: number;
+  month: number;
+  opensAt: Date;
+  deadline: Date;
+  // 自動でロックする日時（未設定の場合は管理者がロックするまで締切後も提出可能）
+  lockAt?: Date;
+  locked: boolean;
+  lockedAt?: Date;
+  // ロック後に個別に再開した従業員
+  reopenings: PreferenceWindowReopening[];
+}
+
+// 提出期間の個別再開インターフェース
+export interface PreferenceWindowReopening {
+  userId: string;
+  until: Date;
+  reopenedBy: string;
 }
 
 // 勤怠記録インターフェース
@@ -78,7 +293,42 @@ export interface Attendance {
   breakTimes: { startTime: Date; endTime?: Date; }[];
   storeId: string;
   totalWorkHours?: number;
-  status: 'normal' | 'late' | 'early';
+  status: 'normal' | 'late' | 'early' | 'unscheduled';
+  shiftId?: string;
+  clockInDeltaMinutes?: number;
+  clockOutDeltaMinutes?: number;
+  lastCorrectionId?: string;
+  // 退勤打刻がないまま次の出勤が打刻された（修正申請で退勤時刻を登録する）
+  missingClockOut?: boolean;
+}
+
+// 勤怠修正申請の状態
+export type AttendanceCorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// 勤怠修正申請インターフェース
+export interface AttendanceCorrectionRequest {
+  id: string;
+  attendanceId: string;
+  userId: string;
+  requestedBy: string;
+  reason: string;
+  proposedClockInTime?: Date;
+  proposedClockOutTime?: Date;
+  proposedBreakTimes?: { startTime: Date; endTime?: Date; }[];
+  status: AttendanceCorrectionStatus;
+  requestedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewComment?: string;
+  // 承認時点の勤怠記録（監査用）
+  originalValues?: {
+    date?: Date;
+    clockInTime: Date;
+    clockOutTime?: Date;
+    breakTimes: { startTime: Date; endTime?: Date; }[];
+    totalWorkHours?: number;
+    status: Attendance['status'];
+  };
 }
 
 // イベント情報インターフェース
@@ -89,6 +339,31 @@ export interface Event {
   endDate: Date;
   affectedStores: string[];
   customerPrediction: number;
+  // 繰り返し設定（未設定の場合は単発のイベント、startDate〜endDateが初回の開催期間）
+  recurrence?: EventRecurrence;
+  // 作成元のテンプレートID
+  templateId?: string;
+  // 繰り返しイベントを展開した開催回の場合、元のイベントID
+  recurringEventId?: string;
+}
+
+// イベントの繰り返し設定
+// yearly: 毎年同じ月日、monthly: 毎月第n週の指定曜日（nthが-1の場合は最終週）、custom: 指定日
+export type EventRecurrence =
+  | { frequency: 'yearly'; until?: Date; }
+  | { frequency: 'monthly'; nth: number; weekday: number; until?: Date; }
+  | { frequency: 'custom'; dates: Date[]; };
+
+// イベントテンプレート（複数店舗のイベントを繰り返し作成するための雛形）
+export interface EventTemplate {
+  id: string;
+  name: string;
+  /** 開催日数 */
+  durationDays: number;
+  affectedStores: string[];
+  customerPrediction: number;
+  recurrence?: EventRecurrence;
+  notes?: string;
 }
 
 // 季節情報インターフェース
@@ -105,10 +380,44 @@ export interface SeasonalInfo {
   lastUpdated: Date;
 }
 
+// 季節情報の進捗履歴インターフェース（更新ごとのスナップショット）
+export interface SeasonalProgressRecord {
+  id: string;
+  seasonalInfoId: string;
+  type: SeasonalInfo['type'];
+  /** シーズンの年 */
+  season: number;
+  progress: number;
+  areas: SeasonalInfo['areas'];
+  recordedAt: Date;
+}
+
 // 人間関係制約インターフェース
 export interface RelationshipConstraint {
   id: string;
   employee1Id: string;
   employee2Id: string;
   reason: string;
-}
\ No newline at end of file
+}
+
+// AIアシスタントの会話履歴インターフェース（ユーザーごと）
+export interface AIConversation {
+  id: string;
+  userId: string;
+  title: string;
+  /** 保持しているメッセージ（上限を超えた古いやり取りはsummaryに要約） */
+  messages: AIConversationMessage[];
+  /** 要約済みの古いやり取り */
+  summary?: string;
+  /** 要約済みのメッセージ数 */
+  summarizedMessageCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// AIアシスタントの会話メッセージインターフェース
+export interface AIConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+}